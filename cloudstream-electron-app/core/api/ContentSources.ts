@@ -0,0 +1,47 @@
+import { apiHolder } from './ApiHolder';
+import type { MainAPI } from './MainAPI';
+import { StremioAddonProvider } from '../providers/StremioAddonProvider';
+import { stremioService } from '../services/stremioService';
+
+/**
+ * Every source content can come from: plugin providers from the ApiHolder
+ * and installed Stremio add-ons, looked up by the apiName of their responses
+ */
+class ContentSources {
+    // Keyed by add-on id, rebuilt when the add-on is reinstalled or its catalogs are toggled
+    private stremioProviders = new Map<string, StremioAddonProvider>();
+
+    getStremioProviders(): StremioAddonProvider[] {
+        const addons = stremioService.getInstalledAddons();
+        const providers = addons.map(addon => {
+            let provider = this.stremioProviders.get(addon.id);
+            if (!provider || provider.manifest !== addon
+                || provider.catalogsEnabled !== stremioService.isResourceEnabled(addon.id, 'catalog')) {
+                provider = new StremioAddonProvider(addon);
+            }
+            return provider;
+        });
+
+        this.stremioProviders = new Map(providers.map(provider => [provider.addonId, provider]));
+        return providers;
+    }
+
+    /**
+     * The apiName of a source's responses, which identifies it: the add-on id for Stremio add-ons
+     * and the name for plugin providers, the ApiHolder keeps those unique
+     */
+    getSourceId(source: MainAPI): string {
+        return source instanceof StremioAddonProvider ? source.addonId : source.name;
+    }
+
+    getSource(apiName: string): MainAPI | undefined {
+        return apiHolder.getApi(apiName)
+            ?? this.getStremioProviders().find(provider => provider.addonId === apiName);
+    }
+
+    getAllSources(): MainAPI[] {
+        return [...apiHolder.getAllApis(), ...this.getStremioProviders()];
+    }
+}
+
+export const contentSources = new ContentSources();
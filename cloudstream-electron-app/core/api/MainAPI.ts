@@ -1,6 +1,12 @@
 import type { SearchResponse } from '../models/SearchResponse';
 import type { LoadResponse } from '../models/LoadResponse';
 import type { TvType } from '../models/TvType';
+import type { ExtractorLink } from '../models/ExtractorLink';
+import type { SubtitleFile } from '../models/SubtitleFile';
+import type { MainPageData, MainPageRequest, HomePageResponse } from '../models/HomePage';
+
+export type SubtitleCallback = (subtitle: SubtitleFile) => void;
+export type ExtractorLinkCallback = (link: ExtractorLink) => void;
 
 export interface MainAPI {
     name: string;
@@ -11,9 +17,31 @@ export interface MainAPI {
     hasQuickSearch: boolean;
     hasChromecastSupport: boolean;
     hasDownloadSupport: boolean;
+    // Home page sections, each one is requested through getMainPage
+    mainPage?: MainPageData[];
 
-    search(query: string): Promise<SearchResponse[]>;
-    quickSearch(query: string): Promise<SearchResponse[]>;
+    /**
+     * @param signal Aborts when the results are no longer wanted, requests still running should stop
+     */
+    search(query: string, signal?: AbortSignal): Promise<SearchResponse[]>;
+    quickSearch(query: string, signal?: AbortSignal): Promise<SearchResponse[]>;
     load(url: string): Promise<LoadResponse>;
-    // getMainPage(page: number, request: MainPageRequest): Promise<HomePageResponse>;
+
+    /**
+     * Loads one home page section, only called when hasMainPage is true
+     * @param page Starts at 1
+     */
+    getMainPage?(page: number, request: MainPageRequest): Promise<HomePageResponse | null>;
+
+    /**
+     * Emits the playable links for an episode or movie through the callbacks
+     * @param data Episode.data or MovieLoadResponse.dataUrl
+     * @returns true if any link was found
+     */
+    loadLinks(
+        data: string,
+        isCasting: boolean,
+        subtitleCallback: SubtitleCallback,
+        linkCallback: ExtractorLinkCallback
+    ): Promise<boolean>;
 }
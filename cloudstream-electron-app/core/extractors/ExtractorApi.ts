@@ -0,0 +1,16 @@
+// Extractor API - mirrors Android ExtractorApi
+// An extractor turns an embed page on a video host into playable links
+import type { ExtractorLink } from '../models/ExtractorLink';
+import type { SubtitleCallback } from '../api/MainAPI';
+
+export interface ExtractorApi {
+    name: string;
+    mainUrl: string; // URLs on this host (and its subdomains) are handled by the extractor
+    requiresReferer: boolean;
+
+    /**
+     * Resolves an embed URL to playable links, null when the page has none
+     * @param subtitleCallback Receives subtitles for extractors whose page lists them
+     */
+    getUrl(url: string, referer?: string, subtitleCallback?: SubtitleCallback): Promise<ExtractorLink[] | null>;
+}
@@ -0,0 +1,84 @@
+// Extractor registry - mirrors Android extractorApis and loadExtractor
+// Plugins reach it through the sandbox, Stremio streams that point at an embed page go through it too
+import type { ExtractorApi } from './ExtractorApi';
+import type { SubtitleCallback, ExtractorLinkCallback } from '../api/MainAPI';
+import { StreamTape } from './StreamTape';
+import { Uqload } from './Uqload';
+import { PixelDrain } from './PixelDrain';
+
+function getHost(url: string): string | null {
+    try {
+        return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+        return null;
+    }
+}
+
+class ExtractorRegistry {
+    private extractors: ExtractorApi[] = [];
+
+    register(extractor: ExtractorApi) {
+        this.extractors.push(extractor);
+    }
+
+    unregister(extractor: ExtractorApi) {
+        this.extractors = this.extractors.filter(e => e !== extractor);
+    }
+
+    getAll(): ExtractorApi[] {
+        return [...this.extractors];
+    }
+
+    /**
+     * The extractor for a URL by host, subdomains match too
+     * Later registrations win, like on Android
+     */
+    findExtractor(url: string): ExtractorApi | undefined {
+        const host = getHost(url);
+        if (!host) return undefined;
+
+        for (let i = this.extractors.length - 1; i >= 0; i--) {
+            const extractorHost = getHost(this.extractors[i].mainUrl);
+            if (extractorHost && (host === extractorHost || host.endsWith(`.${extractorHost}`))) {
+                return this.extractors[i];
+            }
+        }
+        return undefined;
+    }
+}
+
+export const extractorRegistry = new ExtractorRegistry();
+
+[
+    new StreamTape(),
+    new StreamTape("https://streamtape.net"),
+    new StreamTape("https://streamtape.xyz"),
+    new StreamTape("https://shavetape.cash"),
+    new Uqload(),
+    new Uqload("https://uqload.co"),
+    new Uqload("https://uqload.io"),
+    new PixelDrain(),
+    new PixelDrain("https://pixeldrain.dev"),
+].forEach(extractor => extractorRegistry.register(extractor));
+
+/**
+ * Resolves an embed URL with the extractor registered for its host
+ * @returns true if an extractor handled the URL, even when it found no links
+ */
+export async function loadExtractor(
+    url: string,
+    referer: string | undefined,
+    subtitleCallback: SubtitleCallback,
+    callback: ExtractorLinkCallback
+): Promise<boolean> {
+    const extractor = extractorRegistry.findExtractor(url);
+    if (!extractor) return false;
+
+    try {
+        const links = await extractor.getUrl(url, referer, subtitleCallback);
+        links?.forEach(callback);
+    } catch (error) {
+        console.error(`Extractor ${extractor.name} failed for ${url}:`, error);
+    }
+    return true;
+}
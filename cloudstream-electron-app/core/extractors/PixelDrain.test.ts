@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { PixelDrain, getPixelDrainFileUrl } from './PixelDrain';
+import { ExtractorLinkType, Qualities } from '../models/ExtractorLink';
+
+describe('getPixelDrainFileUrl', () => {
+    it('turns a /u/ page into the file download URL', () => {
+        expect(getPixelDrainFileUrl('https://pixeldrain.com/u/aBc123Xy', 'https://pixeldrain.com')).toBe('https://pixeldrain.com/api/file/aBc123Xy?download');
+        expect(getPixelDrainFileUrl('https://pixeldrain.com/u/aBc123Xy?embed#t=10', 'https://pixeldrain.com')).toBe('https://pixeldrain.com/api/file/aBc123Xy?download');
+    });
+
+    it('keeps other URLs', () => {
+        expect(getPixelDrainFileUrl('https://pixeldrain.com/l/list42', 'https://pixeldrain.com')).toBe('https://pixeldrain.com/l/list42');
+    });
+});
+
+describe('PixelDrain', () => {
+    it('returns the file with the page as referer', async () => {
+        expect(await new PixelDrain().getUrl('https://pixeldrain.com/u/aBc123Xy')).toEqual([{
+            source: 'PixelDrain',
+            name: 'PixelDrain',
+            url: 'https://pixeldrain.com/api/file/aBc123Xy?download',
+            referer: 'https://pixeldrain.com/u/aBc123Xy',
+            quality: Qualities.Unknown,
+            type: ExtractorLinkType.VIDEO,
+        }]);
+    });
+});
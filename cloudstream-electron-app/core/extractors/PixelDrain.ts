@@ -0,0 +1,31 @@
+import type { ExtractorApi } from './ExtractorApi';
+import { type ExtractorLink, ExtractorLinkType, Qualities } from '../models/ExtractorLink';
+
+/**
+ * The direct file URL for a pixeldrain page, the original URL when it isn't a /u/ page
+ */
+export function getPixelDrainFileUrl(url: string, mainUrl: string): string {
+    const id = url.match(/\/u\/([^/?#]+)/)?.[1];
+    return id ? `${mainUrl}/api/file/${id}?download` : url;
+}
+
+export class PixelDrain implements ExtractorApi {
+    name = "PixelDrain";
+    mainUrl: string;
+    requiresReferer = true;
+
+    constructor(mainUrl: string = "https://pixeldrain.com") {
+        this.mainUrl = mainUrl;
+    }
+
+    async getUrl(url: string): Promise<ExtractorLink[]> {
+        return [{
+            source: this.name,
+            name: this.name,
+            url: getPixelDrainFileUrl(url, this.mainUrl),
+            referer: url,
+            quality: Qualities.Unknown,
+            type: ExtractorLinkType.VIDEO,
+        }];
+    }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StreamTape, evaluateConcatenation, parseStreamTapeUrl } from './StreamTape';
+import { ExtractorLinkType, Qualities } from '../models/ExtractorLink';
+import { httpRequest } from '../services/httpService';
+import embedPage from './__fixtures__/streamtape-embed.html?raw';
+import plusPage from './__fixtures__/streamtape-embed-plus.html?raw';
+import removedPage from './__fixtures__/streamtape-removed.html?raw';
+
+vi.mock('../services/httpService', () => ({ httpRequest: vi.fn() }));
+
+describe('evaluateConcatenation', () => {
+    it('joins literals and applies substring calls', () => {
+        expect(evaluateConcatenation("'//host/get_video?id=1&token=' + ('xyzabc').substring(1).substring(2)")).toBe('//host/get_video?id=1&token=abc');
+        expect(evaluateConcatenation(`"a" + '' + ("bcd").substring(0, 2)`)).toBe('abc');
+    });
+
+    it('keeps a + inside a literal', () => {
+        expect(evaluateConcatenation("'a+b' + ('xc+d').substring(1)")).toBe('a+bc+d');
+    });
+
+    it('unescapes quotes inside a literal', () => {
+        expect(evaluateConcatenation(`'it\\'s' + "\\"q\\""`)).toBe(`it's"q"`);
+    });
+
+    it('gives null for anything it does not understand', () => {
+        expect(evaluateConcatenation("'a' + b")).toBeNull();
+        expect(evaluateConcatenation("'a' +")).toBeNull();
+        expect(evaluateConcatenation("'a'.replace('a', 'b')")).toBeNull();
+        expect(evaluateConcatenation("'unterminated")).toBeNull();
+    });
+});
+
+describe('parseStreamTapeUrl', () => {
+    it('reads the botlink assignment of an embed page', () => {
+        expect(parseStreamTapeUrl(embedPage)).toBe(
+            'https://streamtape.com/get_video?id=6jM4rL0kqDfPxAz&expires=1760990000&ip=F0kUKRWPKxSHDN&token=aGq7KZ3wLs_9A&stream=1'
+        );
+    });
+
+    it('keeps a + in the literals', () => {
+        expect(parseStreamTapeUrl(plusPage)).toBe(
+            'https://streamtape.net/get_video?id=Zq2vX8nLpa&name=c++%20tutorial&token=K+9z/Qw==&stream=1'
+        );
+    });
+
+    it('gives null for a removed video', () => {
+        expect(parseStreamTapeUrl(removedPage)).toBeNull();
+    });
+});
+
+describe('StreamTape', () => {
+    it('returns the video with the embed page as referer', async () => {
+        vi.mocked(httpRequest).mockResolvedValueOnce({
+            status: 200, ok: true, url: 'https://streamtape.com/e/6jM4rL0kqDfPxAz', headers: {}, cookies: {}, text: embedPage,
+        });
+        const links = await new StreamTape().getUrl('https://streamtape.com/e/6jM4rL0kqDfPxAz');
+        expect(links).toEqual([{
+            source: 'StreamTape',
+            name: 'StreamTape',
+            url: 'https://streamtape.com/get_video?id=6jM4rL0kqDfPxAz&expires=1760990000&ip=F0kUKRWPKxSHDN&token=aGq7KZ3wLs_9A&stream=1',
+            referer: 'https://streamtape.com/e/6jM4rL0kqDfPxAz',
+            quality: Qualities.Unknown,
+            type: ExtractorLinkType.VIDEO,
+        }]);
+    });
+
+    it('returns null for a removed video', async () => {
+        vi.mocked(httpRequest).mockResolvedValueOnce({
+            status: 404, ok: false, url: 'https://streamtape.com/e/gone', headers: {}, cookies: {}, text: removedPage,
+        });
+        expect(await new StreamTape().getUrl('https://streamtape.com/e/gone')).toBeNull();
+    });
+});
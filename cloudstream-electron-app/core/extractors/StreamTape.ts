@@ -0,0 +1,67 @@
+import type { ExtractorApi } from './ExtractorApi';
+import { type ExtractorLink, ExtractorLinkType, Qualities } from '../models/ExtractorLink';
+import { httpRequest } from '../services/httpService';
+
+// One operand and the + after it: an optionally parenthesized string literal with its substring() calls
+// The literal is matched whole, a + inside it is part of the value
+const OPERAND = /\s*\(?\s*(['"])((?:\\.|(?!\1)[^\\])*)\1\s*\)?((?:\.substring\(\d+(?:,\s*\d+)?\))*)\s*(\+|$)/y;
+
+/**
+ * Evaluates the obfuscated assignment that builds the video URL, like
+ * `'//streamtape.com/get_video?id=1&token=' + ('xyzabc').substring(1).substring(2)`
+ * Only string literals, + and substring() are understood, anything else gives null
+ */
+export function evaluateConcatenation(expression: string): string | null {
+    let result = '';
+    OPERAND.lastIndex = 0;
+    for (;;) {
+        const match = OPERAND.exec(expression);
+        if (!match) return null;
+
+        let value = match[2].replace(/\\(.)/g, '$1');
+        for (const call of match[3].matchAll(/\.substring\((\d+)(?:,\s*(\d+))?\)/g)) {
+            value = value.substring(Number(call[1]), call[2] !== undefined ? Number(call[2]) : undefined);
+        }
+        result += value;
+        // No + after the operand means it was the last one
+        if (!match[4]) return result;
+    }
+}
+
+/**
+ * The video URL hidden in a streamtape embed page, null when the page has none
+ */
+export function parseStreamTapeUrl(html: string): string | null {
+    // Pages also fill decoy elements like 'robotlink' and 'ideoolink' with a wrong token
+    const expression = html.match(/getElementById\(\s*['"]botlink['"]\s*\)\.innerHTML\s*=\s*(.+?);?\s*$/m)?.[1];
+    if (!expression) return null;
+
+    const path = evaluateConcatenation(expression);
+    if (!path) return null;
+    return `${path.startsWith('//') ? 'https:' : ''}${path}&stream=1`;
+}
+
+export class StreamTape implements ExtractorApi {
+    name = "StreamTape";
+    mainUrl: string;
+    requiresReferer = false;
+
+    constructor(mainUrl: string = "https://streamtape.com") {
+        this.mainUrl = mainUrl;
+    }
+
+    async getUrl(url: string): Promise<ExtractorLink[] | null> {
+        const response = await httpRequest({ url });
+        const videoUrl = parseStreamTapeUrl(response.text);
+        if (!videoUrl) return null;
+
+        return [{
+            source: this.name,
+            name: this.name,
+            url: videoUrl,
+            referer: url,
+            quality: Qualities.Unknown,
+            type: ExtractorLinkType.VIDEO,
+        }];
+    }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Uqload, parseUqloadSource } from './Uqload';
+import { ExtractorLinkType, Qualities } from '../models/ExtractorLink';
+import { httpRequest } from '../services/httpService';
+import embedPage from './__fixtures__/uqload-embed.html?raw';
+import removedPage from './__fixtures__/uqload-removed.html?raw';
+
+vi.mock('../services/httpService', () => ({ httpRequest: vi.fn() }));
+
+const VIDEO_URL = 'https://m180.uqload.com/3rfkrkdfgisamps3bkxjbmn7wpdvwkzhqgygsu5ruwe2hhuxy5bfmwkfopia/v.mp4';
+
+describe('parseUqloadSource', () => {
+    it('reads the first player source of an embed page', () => {
+        expect(parseUqloadSource(embedPage)).toBe(VIDEO_URL);
+    });
+
+    it('gives null for a deleted file', () => {
+        expect(parseUqloadSource(removedPage)).toBeNull();
+    });
+});
+
+describe('Uqload', () => {
+    it('sends the referer and returns the video with the embed page as referer', async () => {
+        vi.mocked(httpRequest).mockResolvedValueOnce({
+            status: 200, ok: true, url: 'https://uqload.com/embed-k8qn2mpgt9xa.html', headers: {}, cookies: {}, text: embedPage,
+        });
+        const links = await new Uqload().getUrl('https://uqload.com/embed-k8qn2mpgt9xa.html', 'https://provider.example/');
+
+        expect(httpRequest).toHaveBeenLastCalledWith({
+            url: 'https://uqload.com/embed-k8qn2mpgt9xa.html',
+            headers: { Referer: 'https://provider.example/' },
+        });
+        expect(links).toEqual([{
+            source: 'Uqload',
+            name: 'Uqload',
+            url: VIDEO_URL,
+            referer: 'https://uqload.com/embed-k8qn2mpgt9xa.html',
+            quality: Qualities.Unknown,
+            type: ExtractorLinkType.VIDEO,
+        }]);
+    });
+
+    it('returns null for a deleted file', async () => {
+        vi.mocked(httpRequest).mockResolvedValueOnce({
+            status: 200, ok: true, url: 'https://uqload.com/embed-gone.html', headers: {}, cookies: {}, text: removedPage,
+        });
+        expect(await new Uqload().getUrl('https://uqload.com/embed-gone.html')).toBeNull();
+    });
+});
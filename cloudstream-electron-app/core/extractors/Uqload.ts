@@ -0,0 +1,37 @@
+import type { ExtractorApi } from './ExtractorApi';
+import { type ExtractorLink, Qualities, inferTypeFromUrl } from '../models/ExtractorLink';
+import { httpRequest } from '../services/httpService';
+
+/**
+ * The video URL from the player setup on an uqload embed page, null when there is none
+ */
+export function parseUqloadSource(html: string): string | null {
+    const source = html.match(/sources:\s*\[\s*(["'])(.*?)\1/)?.[2]?.trim();
+    return source || null;
+}
+
+export class Uqload implements ExtractorApi {
+    name = "Uqload";
+    mainUrl: string;
+    requiresReferer = true;
+
+    constructor(mainUrl: string = "https://uqload.com") {
+        this.mainUrl = mainUrl;
+    }
+
+    async getUrl(url: string, referer?: string): Promise<ExtractorLink[] | null> {
+        const response = await httpRequest({ url, headers: referer ? { Referer: referer } : undefined });
+        const source = parseUqloadSource(response.text);
+        if (!source) return null;
+
+        return [{
+            source: this.name,
+            name: this.name,
+            url: source,
+            // The video host only serves the file with the embed page as referer
+            referer: response.url,
+            quality: Qualities.Unknown,
+            type: inferTypeFromUrl(source),
+        }];
+    }
+}
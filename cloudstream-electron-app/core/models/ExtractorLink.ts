@@ -0,0 +1,103 @@
+// Extractor link model - mirrors Android ExtractorLink
+
+/**
+ * Link type, used to pick the right playback engine
+ */
+export const ExtractorLinkType = {
+    VIDEO: 'VIDEO', // Single stream of bytes no matter the actual file type
+    M3U8: 'M3U8', // HLS playlist split into segments
+    DASH: 'DASH', // MPEG-DASH manifest
+    TORRENT: 'TORRENT', // No support at the moment
+    MAGNET: 'MAGNET', // No support at the moment
+} as const;
+
+export type ExtractorLinkType = typeof ExtractorLinkType[keyof typeof ExtractorLinkType];
+
+/**
+ * Quality values in pixels, Unknown is used when a provider doesn't report one
+ */
+export const Qualities = {
+    Unknown: 400,
+    P144: 144,
+    P240: 240,
+    P360: 360,
+    P480: 480,
+    P720: 720,
+    P1080: 1080,
+    P1440: 1440,
+    P2160: 2160,
+} as const;
+
+export interface AudioFile {
+    url: string;
+    headers?: Record<string, string>;
+}
+
+export interface ExtractorLink {
+    source: string; // Name of the media source, shown in the link picker
+    name: string; // Title of the media
+    url: string;
+    referer: string;
+    quality: number; // One of Qualities, or any pixel height
+    headers?: Record<string, string>;
+    extractorData?: string;
+    type: ExtractorLinkType;
+    audioTracks?: AudioFile[];
+}
+
+/**
+ * Infers the link type from the URL path
+ */
+export function inferTypeFromUrl(url: string): ExtractorLinkType {
+    if (url.startsWith('magnet:')) return ExtractorLinkType.MAGNET;
+
+    let path = url;
+    try {
+        path = new URL(url).pathname;
+    } catch {
+        // Not an absolute URL, match against the raw string
+    }
+
+    if (path.endsWith('.m3u8')) return ExtractorLinkType.M3U8;
+    if (path.endsWith('.mpd')) return ExtractorLinkType.DASH;
+    if (path.endsWith('.torrent')) return ExtractorLinkType.TORRENT;
+    return ExtractorLinkType.VIDEO;
+}
+
+/**
+ * Parses a quality label such as "1080p" or "4K"
+ */
+export function getQualityFromName(qualityName?: string | null): number {
+    if (!qualityName) return Qualities.Unknown;
+
+    const match = qualityName.toLowerCase().replace('p', '').trim();
+    if (match === '4k') return Qualities.P2160;
+    const parsed = parseInt(match, 10);
+    return isNaN(parsed) ? Qualities.Unknown : parsed;
+}
+
+/**
+ * Display label for a quality value
+ */
+export function getQualityString(quality?: number | null): string {
+    switch (quality) {
+        case 0: return 'Auto';
+        case Qualities.Unknown:
+        case null:
+        case undefined:
+            return '';
+        case Qualities.P2160: return '4K';
+        default: return `${quality}p`;
+    }
+}
+
+/**
+ * Headers for the link, with the referer merged in
+ */
+export function getAllHeaders(link: Pick<ExtractorLink, 'headers' | 'referer'>): Record<string, string> {
+    const headers = link.headers ?? {};
+    if (!link.referer || Object.keys(headers).some(key => key.toLowerCase() === 'referer')) {
+        return headers;
+    }
+    return { ...headers, referer: link.referer };
+}
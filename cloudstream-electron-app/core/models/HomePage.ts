@@ -0,0 +1,33 @@
+import type { SearchResponse } from './SearchResponse';
+
+/**
+ * A home page section declared by a provider - mirrors Android MainPageData
+ */
+export interface MainPageData {
+    name: string;
+    data: string; // Provider specific, usually a url
+    horizontalImages?: boolean;
+}
+
+/**
+ * Request passed to MainAPI.getMainPage for one section
+ */
+export interface MainPageRequest {
+    name: string;
+    data: string;
+    horizontalImages: boolean;
+}
+
+/**
+ * A row of items on the home page
+ */
+export interface HomePageList {
+    name: string;
+    list: SearchResponse[];
+    isHorizontalImages?: boolean;
+}
+
+export interface HomePageResponse {
+    items: HomePageList[];
+    hasNext: boolean;
+}
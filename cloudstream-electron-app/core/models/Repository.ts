@@ -18,6 +18,18 @@ export interface Repository {
     pluginLists: string[]; // URLs to plugin list JSON files
 }
 
+/**
+ * SitePlugin.status values - mirrors Android PROVIDER_STATUS_*
+ */
+export const PluginStatus = {
+    Down: 0,
+    Ok: 1,
+    Slow: 2,
+    BetaOnly: 3,
+} as const;
+
+export type PluginStatus = typeof PluginStatus[keyof typeof PluginStatus];
+
 /**
  * Plugin information from repository
  */
@@ -28,8 +40,8 @@ export interface SitePlugin {
     status: number;
     // Version number, any change triggers auto update
     version: number;
-    // API version for backwards compatibility
-    apiVersion: number;
+    // API version for backwards compatibility, checkPluginCompatibility treats a missing one as 1
+    apiVersion?: number;
     // Display name
     name: string;
     // Internal name for referencing
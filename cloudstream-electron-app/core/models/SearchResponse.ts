@@ -30,6 +30,7 @@ export interface SearchResponse {
     posterHeaders?: Record<string, string>;
     id?: number;
     quality?: SearchQuality;
+    syncData?: Record<string, string>; // Tracker ids (imdb, tmdb, mal...) when the provider knows them
     // score?: Score; // TODO: Implement Score if needed, or use number
 }
 
@@ -0,0 +1,28 @@
+// Subtitle cue model - parsed form of a SubtitleFile, shared by the VTT converter and the player
+
+export interface SubtitleSegment {
+    text: string;
+    italic?: boolean;
+    bold?: boolean;
+    underline?: boolean;
+    color?: string; // CSS color
+    fontName?: string;
+}
+
+export interface SubtitlePosition {
+    x?: number;
+    y?: number;
+    align?: 'left' | 'center' | 'right';
+    vertical?: 'top' | 'middle' | 'bottom';
+}
+
+export interface SubtitleCue {
+    start: number; // Seconds
+    end: number; // Seconds
+    text: string; // Plain text, lines separated by \n
+    formattedSegments?: SubtitleSegment[]; // Rich text with formatting
+    position?: SubtitlePosition; // From {\anN} tags or cue settings
+    rawText?: string; // Original text before processing
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'unknown';
@@ -0,0 +1,77 @@
+// JVM plugin provider - MainAPI proxy for one provider a Kotlin (DEX) plugin registered in the JVM bridge
+// A plugin that registers several MainAPIs gets one of these for each
+import type { MainAPI, SubtitleCallback, ExtractorLinkCallback } from '../api/MainAPI';
+import type { SearchResponse } from '../models/SearchResponse';
+import type { LoadResponse } from '../models/LoadResponse';
+import type { TvType } from '../models/TvType';
+import type { MainPageData, MainPageRequest, HomePageResponse } from '../models/HomePage';
+import { jvmBridge, JvmBridgeError, type JvmApiInfo, type JvmApiSettings } from '../services/jvmBridge';
+
+export class JvmPluginProvider implements MainAPI {
+    readonly pluginId: string;
+    name: string;
+    mainUrl: string;
+    supportedTypes: Set<TvType>;
+    lang: string;
+    hasMainPage: boolean;
+    hasQuickSearch: boolean;
+    hasChromecastSupport: boolean;
+    hasDownloadSupport: boolean;
+    mainPage?: MainPageData[];
+    canBeOverridden: boolean;
+    hasCredentials: boolean;
+
+    constructor(pluginId: string, info: JvmApiInfo) {
+        this.pluginId = pluginId;
+        this.name = info.name;
+        this.mainUrl = info.mainUrl;
+        this.supportedTypes = new Set(info.supportedTypes);
+        this.lang = info.lang;
+        this.hasMainPage = info.hasMainPage;
+        this.hasQuickSearch = info.hasQuickSearch;
+        this.hasChromecastSupport = info.hasChromecastSupport;
+        this.hasDownloadSupport = info.hasDownloadSupport;
+        this.mainPage = info.mainPage;
+        this.canBeOverridden = info.canBeOverridden;
+        this.hasCredentials = info.hasCredentials;
+    }
+
+    /**
+     * Saves a domain or credentials change, the bridge applies it right away
+     */
+    async updateSettings(settings: JvmApiSettings): Promise<void> {
+        const info = await jvmBridge.updateApiSettings(this.pluginId, this.name, settings);
+        this.mainUrl = info.mainUrl;
+        this.mainPage = info.mainPage;
+    }
+
+    async search(query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        return jvmBridge.search(this.pluginId, this.name, query, signal);
+    }
+
+    async quickSearch(query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        return jvmBridge.quickSearch(this.pluginId, this.name, query, signal);
+    }
+
+    async getMainPage(page: number, request: MainPageRequest): Promise<HomePageResponse | null> {
+        if (!this.hasMainPage) return null;
+        return jvmBridge.getMainPage(this.pluginId, this.name, page, request);
+    }
+
+    async load(url: string): Promise<LoadResponse> {
+        const response = await jvmBridge.load(this.pluginId, this.name, url);
+        if (!response) {
+            throw new JvmBridgeError('plugin-error', `${this.name} has nothing at ${url}`);
+        }
+        return response;
+    }
+
+    async loadLinks(
+        data: string,
+        isCasting: boolean,
+        subtitleCallback: SubtitleCallback,
+        linkCallback: ExtractorLinkCallback
+    ): Promise<boolean> {
+        return jvmBridge.loadLinks(this.pluginId, this.name, data, isCasting, subtitleCallback, linkCallback);
+    }
+}
@@ -0,0 +1,72 @@
+// Sandboxed plugin provider - MainAPI proxy for a JavaScript plugin running in a PluginSandbox worker
+import type { MainAPI, SubtitleCallback, ExtractorLinkCallback } from '../api/MainAPI';
+import type { SearchResponse } from '../models/SearchResponse';
+import type { LoadResponse } from '../models/LoadResponse';
+import type { TvType } from '../models/TvType';
+import type { SubtitleFile } from '../models/SubtitleFile';
+import type { ExtractorLink } from '../models/ExtractorLink';
+import type { MainPageData, MainPageRequest, HomePageResponse } from '../models/HomePage';
+import type { PluginSandbox } from '../services/pluginSandbox';
+import type { SandboxMethod, SandboxPluginDescriptor } from '../services/pluginSandbox.worker';
+
+export class SandboxedPluginProvider implements MainAPI {
+    readonly sandbox: PluginSandbox;
+    private readonly methods: Set<SandboxMethod>;
+    name: string;
+    mainUrl: string;
+    supportedTypes: Set<TvType>;
+    lang: string;
+    hasMainPage: boolean;
+    hasQuickSearch: boolean;
+    hasChromecastSupport: boolean;
+    hasDownloadSupport: boolean;
+    mainPage?: MainPageData[];
+
+    constructor(sandbox: PluginSandbox, descriptor: SandboxPluginDescriptor) {
+        this.sandbox = sandbox;
+        this.methods = new Set(descriptor.methods);
+        this.name = descriptor.name;
+        this.mainUrl = descriptor.mainUrl;
+        this.supportedTypes = new Set(descriptor.supportedTypes);
+        this.lang = descriptor.lang;
+        this.hasMainPage = descriptor.hasMainPage && this.methods.has('getMainPage');
+        this.hasQuickSearch = descriptor.hasQuickSearch && this.methods.has('quickSearch');
+        this.hasChromecastSupport = descriptor.hasChromecastSupport;
+        this.hasDownloadSupport = descriptor.hasDownloadSupport;
+        this.mainPage = descriptor.mainPage;
+    }
+
+    async search(query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        return this.sandbox.call<SearchResponse[]>('search', [query], undefined, signal);
+    }
+
+    async quickSearch(query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        if (!this.methods.has('quickSearch')) return this.search(query, signal);
+        return this.sandbox.call<SearchResponse[]>('quickSearch', [query], undefined, signal);
+    }
+
+    async getMainPage(page: number, request: MainPageRequest): Promise<HomePageResponse | null> {
+        if (!this.methods.has('getMainPage')) return null;
+        return this.sandbox.call<HomePageResponse | null>('getMainPage', [page, request]);
+    }
+
+    async load(url: string): Promise<LoadResponse> {
+        return this.sandbox.call<LoadResponse>('load', [url]);
+    }
+
+    async loadLinks(
+        data: string,
+        isCasting: boolean,
+        subtitleCallback: SubtitleCallback,
+        linkCallback: ExtractorLinkCallback
+    ): Promise<boolean> {
+        if (!this.methods.has('loadLinks')) return false;
+        return this.sandbox.call<boolean>('loadLinks', [data, isCasting], (kind, value) => {
+            if (kind === 'subtitle') {
+                subtitleCallback(value as SubtitleFile);
+            } else {
+                linkCallback(value as ExtractorLink);
+            }
+        });
+    }
+}
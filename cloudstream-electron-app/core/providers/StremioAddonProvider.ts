@@ -0,0 +1,119 @@
+// Stremio add-on provider - exposes an installed Stremio add-on through the MainAPI interface
+// so pages can browse, load and play it like any plugin provider
+import type { MainAPI, SubtitleCallback, ExtractorLinkCallback } from '../api/MainAPI';
+import type { SearchResponse } from '../models/SearchResponse';
+import type { LoadResponse } from '../models/LoadResponse';
+import type { TvType } from '../models/TvType';
+import type { MainPageData, MainPageRequest, HomePageResponse } from '../models/HomePage';
+import { stremioService, type StremioManifest } from '../services/stremioService';
+
+export class StremioAddonProvider implements MainAPI {
+    readonly manifest: StremioManifest;
+    // Catalogs turned off on the Stremio tab hide the add-on from home rows and search
+    readonly catalogsEnabled: boolean;
+    name: string;
+    mainUrl: string;
+    supportedTypes: Set<TvType>;
+    lang = "en";
+    hasMainPage: boolean;
+    hasQuickSearch = false;
+    hasChromecastSupport = false;
+    hasDownloadSupport = false;
+    mainPage: MainPageData[];
+
+    constructor(manifest: StremioManifest) {
+        this.manifest = manifest;
+        this.name = manifest.name;
+        this.mainUrl = manifest.url ?? '';
+        this.supportedTypes = new Set((manifest.types ?? []).map(type => stremioService.getTvType(type)));
+        this.catalogsEnabled = stremioService.isResourceEnabled(manifest.id, 'catalog');
+
+        // Catalogs that need an extra (search, genre...) can't be listed on their own
+        const catalogs = (this.catalogsEnabled ? manifest.catalogs ?? [] : []).filter(catalog =>
+            !catalog.extraRequired?.length && !catalog.extra?.some(extra => extra.isRequired)
+        );
+        this.mainPage = catalogs.map(catalog => {
+            const sharedName = catalogs.some(other => other !== catalog && other.name === catalog.name);
+            return {
+                name: sharedName ? `${catalog.name} (${catalog.type})` : catalog.name,
+                data: stremioService.toContentUrl(catalog.type, catalog.id),
+            };
+        });
+        this.hasMainPage = this.mainPage.length > 0;
+    }
+
+    /**
+     * Add-on id, used as apiName because add-on names aren't unique
+     */
+    get addonId(): string {
+        return this.manifest.id;
+    }
+
+    async search(query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        if (!this.catalogsEnabled) return [];
+        return stremioService.searchAddon(this.manifest, query, signal);
+    }
+
+    async quickSearch(query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        return this.search(query, signal);
+    }
+
+    async getMainPage(page: number, request: MainPageRequest): Promise<HomePageResponse | null> {
+        const catalog = stremioService.parseContentUrl(request.data);
+        if (!catalog) return null;
+
+        const metas = await stremioService.getCatalog(this.manifest, catalog.type, catalog.id, page);
+        return {
+            items: [{
+                name: request.name,
+                list: metas.map(meta => stremioService.convertMetaToSearchResponse(meta, this.addonId)),
+                isHorizontalImages: request.horizontalImages,
+            }],
+            hasNext: metas.length > 0,
+        };
+    }
+
+    async load(url: string): Promise<LoadResponse> {
+        const content = stremioService.parseContentUrl(url);
+        if (!content) {
+            throw new Error(`Invalid Stremio content: ${url}`);
+        }
+
+        const meta = await stremioService.getMetaDetails(content.type, content.id);
+        if (!meta) {
+            throw new Error(`No metadata found for ${content.id}`);
+        }
+        return stremioService.convertMetaToLoadResponse(meta, this.addonId);
+    }
+
+    async loadLinks(
+        data: string,
+        _isCasting: boolean,
+        subtitleCallback: SubtitleCallback,
+        linkCallback: ExtractorLinkCallback
+    ): Promise<boolean> {
+        const content = stremioService.parseContentUrl(data);
+        if (!content) return false;
+
+        // Catalog only add-ons leave streams to the other installed add-ons
+        const servesStreams = stremioService.getStreamAddons(content.type, content.id).some(addon => addon.id === this.addonId);
+        if (!servesStreams) return false;
+
+        const streams = await stremioService.getAddonStreams(this.manifest, content.type, content.id);
+        let found = false;
+        await Promise.all(streams.map(async (stream) => {
+            let resolved = false;
+            await stremioService.resolveStreamLinks(stream, this.manifest, subtitleCallback, (link) => {
+                linkCallback(link);
+                resolved = true;
+            });
+            if (!resolved) return;
+            found = true;
+
+            for (const subtitle of stream.subtitles ?? []) {
+                subtitleCallback(stremioService.convertSubtitleToSubtitleFile(subtitle));
+            }
+        }));
+        return found;
+    }
+}
@@ -1,7 +1,14 @@
-import type { MainAPI } from '../api/MainAPI';
+import type { MainAPI, SubtitleCallback, ExtractorLinkCallback } from '../api/MainAPI';
 import { type SearchResponse, SearchQuality } from '../models/SearchResponse';
 import type { LoadResponse, TvSeriesLoadResponse } from '../models/LoadResponse';
 import { TvType } from '../models/TvType';
+import { ExtractorLinkType, Qualities } from '../models/ExtractorLink';
+import type { MainPageData, MainPageRequest, HomePageResponse } from '../models/HomePage';
+
+const SAMPLE_VIDEOS: Record<string, string> = {
+    episode1_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4',
+    episode2_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ElephantsDream.mp4',
+};
 
 export class TestProvider implements MainAPI {
     name = "TestProvider";
@@ -12,6 +19,10 @@ export class TestProvider implements MainAPI {
     hasQuickSearch = true;
     hasChromecastSupport = false;
     hasDownloadSupport = false;
+    mainPage: MainPageData[] = [
+        { name: "Trending", data: "trending" },
+        { name: "Latest Episodes", data: "latest", horizontalImages: true },
+    ];
 
     async search(query: string): Promise<SearchResponse[]> {
         return [
@@ -26,6 +37,28 @@ export class TestProvider implements MainAPI {
         ];
     }
 
+    async getMainPage(page: number, request: MainPageRequest): Promise<HomePageResponse> {
+        const pageSize = 10;
+        const list: SearchResponse[] = Array.from({ length: pageSize }, (_, i) => {
+            const index = (page - 1) * pageSize + i + 1;
+            return {
+                name: `${request.name} #${index}`,
+                url: `${this.mainUrl}/${request.data}/${index}`,
+                apiName: this.name,
+                type: TvType.TvSeries,
+                quality: SearchQuality.HD,
+                posterUrl: request.horizontalImages
+                    ? "https://via.placeholder.com/320x180"
+                    : "https://via.placeholder.com/150x225"
+            };
+        });
+
+        return {
+            items: [{ name: request.name, list, isHorizontalImages: request.horizontalImages }],
+            hasNext: page < 3
+        };
+    }
+
     async quickSearch(query: string): Promise<SearchResponse[]> {
         return this.search(query);
     }
@@ -60,4 +93,32 @@ export class TestProvider implements MainAPI {
             ]
         } as TvSeriesLoadResponse;
     }
+
+    async loadLinks(
+        data: string,
+        _isCasting: boolean,
+        _subtitleCallback: SubtitleCallback,
+        linkCallback: ExtractorLinkCallback
+    ): Promise<boolean> {
+        const url = SAMPLE_VIDEOS[data];
+        if (!url) return false;
+
+        linkCallback({
+            source: this.name,
+            name: `${this.name} MP4`,
+            url,
+            referer: this.mainUrl,
+            quality: Qualities.P720,
+            type: ExtractorLinkType.VIDEO,
+        });
+        linkCallback({
+            source: this.name,
+            name: `${this.name} HLS`,
+            url: 'https://test-streams.mux.dev/x36xhzz/x36xhzz.m3u8',
+            referer: this.mainUrl,
+            quality: Qualities.P1080,
+            type: ExtractorLinkType.M3U8,
+        });
+        return true;
+    }
 }
@@ -0,0 +1,133 @@
+// Plugin SDK builders - mirrors the Android MainAPI newXxx helpers
+// apiName is filled in with the plugin's own name, so responses always point back at it
+import { TvType } from '../models/TvType';
+import type { MovieSearchResponse, TvSeriesSearchResponse, AnimeSearchResponse, SearchResponse } from '../models/SearchResponse';
+import type { LoadResponse, MovieLoadResponse, TvSeriesLoadResponse, AnimeLoadResponse } from '../models/LoadResponse';
+import type { Episode } from '../models/Episode';
+import { type ExtractorLink, Qualities, inferTypeFromUrl } from '../models/ExtractorLink';
+import type { SubtitleFile } from '../models/SubtitleFile';
+import type { HomePageResponse, MainPageRequest } from '../models/HomePage';
+
+// Fields every builder sets itself
+type BuilderExtras<T> = Partial<Omit<T, 'name' | 'url' | 'apiName' | 'type'>>;
+
+/**
+ * Turns "//host/path" and "/path" into absolute URLs on mainUrl, like MainAPI.fixUrl
+ */
+export function fixUrl(url: string, mainUrl: string): string {
+    if (!url) return url;
+    if (url.startsWith('http://') || url.startsWith('https://') || url.startsWith('magnet:')) return url;
+    if (url.startsWith('//')) return `https:${url}`;
+    try {
+        return new URL(url, mainUrl).toString();
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Builders bound to a plugin, getApiName is read on every call because the name is only known once the plugin loads
+ */
+export function createBuilders(getApiName: () => string) {
+    const baseLoadResponse = (name: string, url: string, type: TvType): LoadResponse => ({
+        name,
+        url,
+        apiName: getApiName(),
+        type,
+        trailers: [],
+        comingSoon: false,
+        syncData: {},
+    });
+
+    return {
+        newMovieSearchResponse: (
+            name: string,
+            url: string,
+            type: TvType = TvType.Movie,
+            extra: BuilderExtras<MovieSearchResponse> = {}
+        ): MovieSearchResponse => ({ ...extra, name, url, apiName: getApiName(), type }),
+
+        newTvSeriesSearchResponse: (
+            name: string,
+            url: string,
+            type: TvType = TvType.TvSeries,
+            extra: BuilderExtras<TvSeriesSearchResponse> = {}
+        ): TvSeriesSearchResponse => ({ ...extra, name, url, apiName: getApiName(), type }),
+
+        newAnimeSearchResponse: (
+            name: string,
+            url: string,
+            type: TvType = TvType.Anime,
+            extra: BuilderExtras<AnimeSearchResponse> = {}
+        ): AnimeSearchResponse => ({ ...extra, name, url, apiName: getApiName(), type }),
+
+        newMovieLoadResponse: (
+            name: string,
+            url: string,
+            type: TvType = TvType.Movie,
+            dataUrl: string = url,
+            extra: BuilderExtras<MovieLoadResponse> = {}
+        ): MovieLoadResponse => ({ ...baseLoadResponse(name, url, type), ...extra, dataUrl }),
+
+        newTvSeriesLoadResponse: (
+            name: string,
+            url: string,
+            type: TvType = TvType.TvSeries,
+            episodes: Episode[] = [],
+            extra: BuilderExtras<TvSeriesLoadResponse> = {}
+        ): TvSeriesLoadResponse => ({ ...baseLoadResponse(name, url, type), ...extra, episodes }),
+
+        /**
+         * @param episodes Keyed by dub status, like "Subbed" and "Dubbed"
+         */
+        newAnimeLoadResponse: (
+            name: string,
+            url: string,
+            type: TvType = TvType.Anime,
+            episodes: Record<string, Episode[]> = {},
+            extra: BuilderExtras<AnimeLoadResponse> = {}
+        ): AnimeLoadResponse => ({ ...baseLoadResponse(name, url, type), ...extra, episodes }),
+
+        newEpisode: (data: string, extra: Partial<Omit<Episode, 'data'>> = {}): Episode => ({ ...extra, data }),
+
+        /**
+         * The type is inferred from the URL and the quality left Unknown unless extra sets them
+         */
+        newExtractorLink: (
+            source: string,
+            name: string,
+            url: string,
+            extra: Partial<Omit<ExtractorLink, 'source' | 'name' | 'url'>> = {}
+        ): ExtractorLink => ({
+            referer: '',
+            quality: Qualities.Unknown,
+            type: inferTypeFromUrl(url),
+            ...extra,
+            source,
+            name,
+            url,
+        }),
+
+        newSubtitleFile: (lang: string, url: string, extra: Partial<Omit<SubtitleFile, 'lang' | 'url'>> = {}): SubtitleFile => ({
+            ...extra,
+            lang,
+            url,
+        }),
+
+        /**
+         * A single row response for getMainPage, pass the request to keep its name and image orientation
+         */
+        newHomePageResponse: (
+            request: MainPageRequest | string,
+            list: SearchResponse[],
+            hasNext: boolean = false
+        ): HomePageResponse => ({
+            items: [typeof request === 'string'
+                ? { name: request, list }
+                : { name: request.name, list, isHorizontalImages: request.horizontalImages }],
+            hasNext,
+        }),
+    };
+}
+
+export type PluginBuilders = ReturnType<typeof createBuilders>;
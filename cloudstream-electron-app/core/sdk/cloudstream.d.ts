@@ -0,0 +1,375 @@
+// Type declarations for JavaScript plugins - copy this file into a plugin project to compile against the SDK
+// Plugins are CommonJS: export the provider with module.exports and get the SDK from require('cloudstream')
+// or the `cloudstream` and `app` globals. Keep in sync with core/sdk and core/models
+
+declare module 'cloudstream' {
+    export const TvType: {
+        readonly Movie: 'Movie';
+        readonly AnimeMovie: 'AnimeMovie';
+        readonly TvSeries: 'TvSeries';
+        readonly Cartoon: 'Cartoon';
+        readonly Anime: 'Anime';
+        readonly OVA: 'OVA';
+        readonly Torrent: 'Torrent';
+        readonly Documentary: 'Documentary';
+        readonly AsianDrama: 'AsianDrama';
+        readonly Live: 'Live';
+        readonly NSFW: 'NSFW';
+        readonly Others: 'Others';
+        readonly Music: 'Music';
+        readonly AudioBook: 'AudioBook';
+        readonly CustomMedia: 'CustomMedia';
+        readonly Audio: 'Audio';
+        readonly Podcast: 'Podcast';
+    };
+    export type TvType = typeof TvType[keyof typeof TvType];
+
+    export const SearchQuality: {
+        readonly Cam: 'Cam';
+        readonly CamRip: 'CamRip';
+        readonly HdCam: 'HdCam';
+        readonly Telesync: 'Telesync';
+        readonly WorkPrint: 'WorkPrint';
+        readonly Telecine: 'Telecine';
+        readonly HQ: 'HQ';
+        readonly HD: 'HD';
+        readonly HDR: 'HDR';
+        readonly BlueRay: 'BlueRay';
+        readonly DVD: 'DVD';
+        readonly SD: 'SD';
+        readonly FourK: 'FourK';
+        readonly UHD: 'UHD';
+        readonly SDR: 'SDR';
+        readonly WebRip: 'WebRip';
+    };
+    export type SearchQuality = typeof SearchQuality[keyof typeof SearchQuality];
+
+    export const ExtractorLinkType: {
+        readonly VIDEO: 'VIDEO';
+        readonly M3U8: 'M3U8';
+        readonly DASH: 'DASH';
+        readonly TORRENT: 'TORRENT';
+        readonly MAGNET: 'MAGNET';
+    };
+    export type ExtractorLinkType = typeof ExtractorLinkType[keyof typeof ExtractorLinkType];
+
+    // Pixel heights, Unknown when the source doesn't say
+    export const Qualities: {
+        readonly Unknown: 400;
+        readonly P144: 144;
+        readonly P240: 240;
+        readonly P360: 360;
+        readonly P480: 480;
+        readonly P720: 720;
+        readonly P1080: 1080;
+        readonly P1440: 1440;
+        readonly P2160: 2160;
+    };
+
+    export interface SearchResponse {
+        name: string;
+        url: string;
+        apiName: string;
+        type?: TvType;
+        posterUrl?: string;
+        posterHeaders?: Record<string, string>;
+        id?: number;
+        quality?: SearchQuality;
+        /** Tracker ids (imdb, tmdb, mal...), results with the same id are shown as one title */
+        syncData?: Record<string, string>;
+    }
+
+    export interface MovieSearchResponse extends SearchResponse {
+        year?: number;
+    }
+
+    export interface TvSeriesSearchResponse extends SearchResponse {
+        year?: number;
+        episodes?: number;
+    }
+
+    export interface AnimeSearchResponse extends SearchResponse {
+        year?: number;
+        dubStatus?: string[];
+        episodes?: Record<string, number>;
+    }
+
+    export interface Episode {
+        data: string; // Passed to loadLinks
+        name?: string;
+        season?: number;
+        episode?: number;
+        posterUrl?: string;
+        rating?: number;
+        description?: string;
+        date?: number; // Unix timestamp
+        runTime?: number; // Seconds
+    }
+
+    export interface TrailerData {
+        extractorUrl: string;
+        referer?: string;
+        raw: boolean;
+        headers?: Record<string, string>;
+    }
+
+    export interface ActorData {
+        actor: {
+            name: string;
+            image?: string;
+        };
+        role?: string;
+        roleString?: string;
+    }
+
+    export interface LoadResponse {
+        name: string;
+        url: string;
+        apiName: string;
+        type: TvType;
+        posterUrl?: string;
+        year?: number;
+        plot?: string;
+        rating?: number;
+        tags?: string[];
+        duration?: number; // Minutes
+        trailers: TrailerData[];
+        recommendations?: SearchResponse[];
+        actors?: ActorData[];
+        comingSoon: boolean;
+        syncData: Record<string, string>;
+        posterHeaders?: Record<string, string>;
+        backgroundPosterUrl?: string;
+        contentRating?: string;
+    }
+
+    export interface MovieLoadResponse extends LoadResponse {
+        dataUrl: string; // Passed to loadLinks
+    }
+
+    export interface TvSeriesLoadResponse extends LoadResponse {
+        episodes: Episode[];
+        showStatus?: string;
+    }
+
+    export interface AnimeLoadResponse extends LoadResponse {
+        engName?: string;
+        japName?: string;
+        episodes: Record<string, Episode[]>; // Keyed by dub status
+        showStatus?: string;
+    }
+
+    export interface AudioFile {
+        url: string;
+        headers?: Record<string, string>;
+    }
+
+    export interface ExtractorLink {
+        source: string;
+        name: string;
+        url: string;
+        referer: string;
+        quality: number;
+        headers?: Record<string, string>;
+        extractorData?: string;
+        type: ExtractorLinkType;
+        audioTracks?: AudioFile[];
+    }
+
+    export interface SubtitleFile {
+        lang: string;
+        url: string;
+        headers?: Record<string, string>;
+        name?: string;
+    }
+
+    export interface MainPageData {
+        name: string;
+        data: string;
+        horizontalImages?: boolean;
+    }
+
+    export interface MainPageRequest {
+        name: string;
+        data: string;
+        horizontalImages: boolean;
+    }
+
+    export interface HomePageList {
+        name: string;
+        list: SearchResponse[];
+        isHorizontalImages?: boolean;
+    }
+
+    export interface HomePageResponse {
+        items: HomePageList[];
+        hasNext: boolean;
+    }
+
+    /**
+     * What a plugin exports, supportedTypes may be an array or a Set
+     */
+    export interface MainAPI {
+        name: string;
+        mainUrl: string;
+        supportedTypes: TvType[] | Set<TvType>;
+        lang?: string;
+        hasMainPage?: boolean;
+        hasQuickSearch?: boolean;
+        hasChromecastSupport?: boolean;
+        hasDownloadSupport?: boolean;
+        mainPage?: MainPageData[];
+
+        search(query: string): Promise<SearchResponse[]>;
+        quickSearch?(query: string): Promise<SearchResponse[]>;
+        load(url: string): Promise<LoadResponse>;
+        getMainPage?(page: number, request: MainPageRequest): Promise<HomePageResponse | null>;
+        loadLinks?(
+            data: string,
+            isCasting: boolean,
+            subtitleCallback: (subtitle: SubtitleFile) => void,
+            linkCallback: (link: ExtractorLink) => void
+        ): Promise<boolean>;
+    }
+
+    // HTTP
+
+    export interface RequestOptions {
+        headers?: Record<string, string>;
+        referer?: string;
+        cookies?: Record<string, string>;
+        params?: Record<string, string | number | boolean>;
+        timeoutMs?: number;
+    }
+
+    export interface PostOptions extends RequestOptions {
+        data?: Record<string, string>; // Form body
+        json?: unknown; // JSON body
+        requestBody?: string; // Raw body
+    }
+
+    export interface NiceResponse {
+        readonly code: number;
+        readonly url: string;
+        readonly headers: Record<string, string>;
+        readonly cookies: Record<string, string>;
+        readonly text: string;
+        readonly isSuccessful: boolean;
+        readonly document: HtmlDocument;
+        parsed<T>(): T;
+        parsedSafe<T>(): T | null;
+    }
+
+    export interface HttpClient {
+        get(url: string, options?: RequestOptions): Promise<NiceResponse>;
+        head(url: string, options?: RequestOptions): Promise<NiceResponse>;
+        post(url: string, options?: PostOptions): Promise<NiceResponse>;
+        put(url: string, options?: PostOptions): Promise<NiceResponse>;
+        delete(url: string, options?: PostOptions): Promise<NiceResponse>;
+    }
+
+    export const app: HttpClient;
+
+    // HTML, selecting is async because parsing happens outside the sandbox
+
+    export interface HtmlDocument {
+        select(selector: string): Promise<HtmlElement[]>;
+        selectFirst(selector: string): Promise<HtmlElement | null>;
+        location(): string;
+        html(): string;
+    }
+
+    export interface HtmlElement {
+        readonly tagName: string;
+        select(selector: string): Promise<HtmlElement[]>;
+        selectFirst(selector: string): Promise<HtmlElement | null>;
+        text(): string;
+        html(): string;
+        outerHtml(): string;
+        hasAttr(name: string): boolean;
+        attr(name: string): string; // "abs:href" resolves the URL
+        absUrl(name: string): string;
+    }
+
+    export function parseHtml(html: string, baseUrl?: string): HtmlDocument;
+
+    // Helpers
+
+    export function fixUrl(url: string, mainUrl: string): string;
+    export function getQualityFromName(qualityName?: string | null): number;
+
+    /**
+     * Resolves an embed URL (StreamTape, Uqload...) with the app's extractors
+     * Returns true if an extractor is registered for the URL's host, even when it found no links
+     */
+    export function loadExtractor(
+        url: string,
+        referer: string | undefined,
+        subtitleCallback: (subtitle: SubtitleFile) => void,
+        callback: (link: ExtractorLink) => void
+    ): Promise<boolean>;
+
+    type BuilderExtras<T> = Partial<Omit<T, 'name' | 'url' | 'apiName' | 'type'>>;
+
+    export function newMovieSearchResponse(name: string, url: string, type?: TvType, extra?: BuilderExtras<MovieSearchResponse>): MovieSearchResponse;
+    export function newTvSeriesSearchResponse(name: string, url: string, type?: TvType, extra?: BuilderExtras<TvSeriesSearchResponse>): TvSeriesSearchResponse;
+    export function newAnimeSearchResponse(name: string, url: string, type?: TvType, extra?: BuilderExtras<AnimeSearchResponse>): AnimeSearchResponse;
+    export function newMovieLoadResponse(name: string, url: string, type?: TvType, dataUrl?: string, extra?: BuilderExtras<MovieLoadResponse>): MovieLoadResponse;
+    export function newTvSeriesLoadResponse(name: string, url: string, type?: TvType, episodes?: Episode[], extra?: BuilderExtras<TvSeriesLoadResponse>): TvSeriesLoadResponse;
+    export function newAnimeLoadResponse(name: string, url: string, type?: TvType, episodes?: Record<string, Episode[]>, extra?: BuilderExtras<AnimeLoadResponse>): AnimeLoadResponse;
+    export function newEpisode(data: string, extra?: Partial<Omit<Episode, 'data'>>): Episode;
+    export function newExtractorLink(source: string, name: string, url: string, extra?: Partial<Omit<ExtractorLink, 'source' | 'name' | 'url'>>): ExtractorLink;
+    export function newSubtitleFile(lang: string, url: string, extra?: Partial<Omit<SubtitleFile, 'lang' | 'url'>>): SubtitleFile;
+    export function newHomePageResponse(request: MainPageRequest | string, list: SearchResponse[], hasNext?: boolean): HomePageResponse;
+
+    // Low level capabilities
+
+    export interface HttpResponse {
+        status: number;
+        ok: boolean;
+        url: string;
+        headers: Record<string, string>;
+        cookies: Record<string, string>;
+        text: string;
+    }
+
+    export interface HtmlElementData {
+        tagName: string;
+        text: string;
+        html: string;
+        outerHtml: string;
+        attributes: Record<string, string>;
+    }
+
+    export function fetch(
+        url: string,
+        options?: { method?: string; headers?: Record<string, string>; body?: string; timeoutMs?: number }
+    ): Promise<HttpResponse>;
+
+    export const html: {
+        select(html: string, selector: string, options?: { fragment?: boolean }): Promise<HtmlElementData[]>;
+    };
+
+    export const extractors: {
+        load(url: string, referer?: string): Promise<{ handled: boolean; links: ExtractorLink[]; subtitles: SubtitleFile[] }>;
+    };
+
+    export const crypto: {
+        digest(algorithm: 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512', data: string): Promise<string>; // Hex
+        base64Encode(text: string): string;
+        base64Decode(base64: string): string;
+        aesDecrypt(options: { mode: 'CBC' | 'GCM'; key: string; iv: string; data: string }): Promise<string>; // Hex key and iv, base64 data
+        randomUUID(): string;
+    };
+
+    // Saved per plugin across sessions, values must be JSON
+    export const storage: {
+        get<T = unknown>(key: string): T | undefined;
+        set(key: string, value: unknown): void;
+        remove(key: string): void;
+        keys(): string[];
+    };
+}
+
+declare const cloudstream: typeof import('cloudstream');
+declare const app: import('cloudstream').HttpClient;
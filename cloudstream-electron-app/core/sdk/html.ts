@@ -0,0 +1,130 @@
+// Plugin SDK HTML parser - Jsoup style documents for plugins
+// Workers have no DOM, so every select() sends the markup to the host and wraps the matches it returns
+import type { SandboxHtmlElement } from '../services/pluginSandbox.worker';
+
+export type HtmlSelectFn = (html: string, selector: string, options?: { fragment?: boolean }) => Promise<SandboxHtmlElement[]>;
+
+/**
+ * Resolves a possibly relative URL against the page it came from, empty when it can't
+ */
+function resolveUrl(url: string, baseUrl: string): string {
+    if (!url) return '';
+    try {
+        return new URL(url, baseUrl || undefined).toString();
+    } catch {
+        return '';
+    }
+}
+
+abstract class HtmlNode {
+    protected readonly baseUrl: string;
+    protected readonly selectFn: HtmlSelectFn;
+
+    constructor(baseUrl: string, selectFn: HtmlSelectFn) {
+        this.baseUrl = baseUrl;
+        this.selectFn = selectFn;
+    }
+
+    // Markup the selectors run against
+    protected abstract source(): { html: string; fragment: boolean };
+
+    /**
+     * Every element matching a CSS selector, in document order
+     */
+    async select(selector: string): Promise<HtmlElement[]> {
+        const { html, fragment } = this.source();
+        const matches = await this.selectFn(html, selector, { fragment });
+        return matches.map(match => new HtmlElement(match, this.baseUrl, this.selectFn));
+    }
+
+    /**
+     * The first element matching a CSS selector, null when nothing does
+     */
+    async selectFirst(selector: string): Promise<HtmlElement | null> {
+        return (await this.select(selector))[0] ?? null;
+    }
+}
+
+/**
+ * A parsed page, see parseHtml
+ */
+export class HtmlDocument extends HtmlNode {
+    private readonly markup: string;
+
+    constructor(html: string, baseUrl: string, selectFn: HtmlSelectFn) {
+        super(baseUrl, selectFn);
+        this.markup = html;
+    }
+
+    protected source() {
+        return { html: this.markup, fragment: false };
+    }
+
+    /**
+     * The page URL relative links resolve against
+     */
+    location(): string {
+        return this.baseUrl;
+    }
+
+    html(): string {
+        return this.markup;
+    }
+}
+
+/**
+ * A snapshot of one element, selecting inside it also matches the element itself like Jsoup
+ */
+export class HtmlElement extends HtmlNode {
+    private readonly data: SandboxHtmlElement;
+
+    constructor(data: SandboxHtmlElement, baseUrl: string, selectFn: HtmlSelectFn) {
+        super(baseUrl, selectFn);
+        this.data = data;
+    }
+
+    protected source() {
+        // Parsed as a fragment so elements like <tr> survive outside their table
+        return { html: this.data.outerHtml, fragment: true };
+    }
+
+    get tagName(): string {
+        return this.data.tagName;
+    }
+
+    text(): string {
+        return this.data.text;
+    }
+
+    html(): string {
+        return this.data.html;
+    }
+
+    outerHtml(): string {
+        return this.data.outerHtml;
+    }
+
+    hasAttr(name: string): boolean {
+        return name in this.data.attributes;
+    }
+
+    /**
+     * Attribute value, empty when missing
+     * Prefix the name with "abs:" to get a URL resolved against the page, like Jsoup
+     */
+    attr(name: string): string {
+        if (name.startsWith('abs:')) return this.absUrl(name.substring(4));
+        return this.data.attributes[name] ?? '';
+    }
+
+    absUrl(name: string): string {
+        return resolveUrl(this.data.attributes[name] ?? '', this.baseUrl);
+    }
+}
+
+/**
+ * Parses HTML into a document, baseUrl is used to resolve relative links
+ */
+export function createHtmlParser(selectFn: HtmlSelectFn) {
+    return (html: string, baseUrl: string = ''): HtmlDocument => new HtmlDocument(html, baseUrl, selectFn);
+}
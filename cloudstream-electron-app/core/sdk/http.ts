@@ -0,0 +1,126 @@
+// Plugin SDK HTTP client - mirrors Cloudstream's app.get/app.post (NiceHttp) for plugins
+import type { SandboxHttpRequest, SandboxHttpResponse } from '../services/pluginSandbox.worker';
+import type { HtmlDocument } from './html';
+
+export type HttpFetchFn = (url: string, options?: Omit<SandboxHttpRequest, 'url'>) => Promise<SandboxHttpResponse>;
+
+export interface RequestOptions {
+    headers?: Record<string, string>;
+    referer?: string;
+    cookies?: Record<string, string>;
+    params?: Record<string, string | number | boolean>; // Appended to the query string
+    timeoutMs?: number;
+}
+
+export interface PostOptions extends RequestOptions {
+    data?: Record<string, string>; // Sent as application/x-www-form-urlencoded
+    json?: unknown; // Serialized and sent as application/json
+    requestBody?: string; // Sent as is
+}
+
+/**
+ * A finished request, modelled on NiceHttp's NiceResponse
+ */
+export class NiceResponse {
+    readonly code: number;
+    readonly url: string; // After redirects
+    readonly headers: Record<string, string>;
+    readonly cookies: Record<string, string>; // From Set-Cookie
+    readonly text: string;
+    private readonly parseHtml: (html: string, baseUrl: string) => HtmlDocument;
+
+    constructor(response: SandboxHttpResponse, parseHtml: (html: string, baseUrl: string) => HtmlDocument) {
+        this.code = response.status;
+        this.url = response.url;
+        this.headers = response.headers;
+        this.cookies = response.cookies;
+        this.text = response.text;
+        this.parseHtml = parseHtml;
+    }
+
+    get isSuccessful(): boolean {
+        return this.code >= 200 && this.code < 300;
+    }
+
+    /**
+     * The body as an HTML document, relative links resolve against the final URL
+     */
+    get document(): HtmlDocument {
+        return this.parseHtml(this.text, this.url);
+    }
+
+    /**
+     * The body parsed as JSON, throws when it isn't
+     */
+    parsed<T>(): T {
+        return JSON.parse(this.text) as T;
+    }
+
+    /**
+     * The body parsed as JSON, null when it isn't
+     */
+    parsedSafe<T>(): T | null {
+        try {
+            return JSON.parse(this.text) as T;
+        } catch {
+            return null;
+        }
+    }
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+    return Object.keys(headers).some(key => key.toLowerCase() === name.toLowerCase());
+}
+
+function buildUrl(url: string, params?: RequestOptions['params']): string {
+    if (!params || Object.keys(params).length === 0) return url;
+    const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)])).toString();
+    return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+}
+
+function buildHeaders(options: RequestOptions): Record<string, string> {
+    const headers = { ...options.headers };
+    if (options.referer && !hasHeader(headers, 'Referer')) {
+        headers['Referer'] = options.referer;
+    }
+    const cookies = Object.entries(options.cookies ?? {});
+    if (cookies.length > 0 && !hasHeader(headers, 'Cookie')) {
+        headers['Cookie'] = cookies.map(([name, value]) => `${name}=${value}`).join('; ');
+    }
+    return headers;
+}
+
+/**
+ * The app object plugins use for HTTP
+ */
+export function createHttpClient(fetchFn: HttpFetchFn, parseHtml: (html: string, baseUrl: string) => HtmlDocument) {
+    const request = async (method: string, url: string, options: PostOptions = {}): Promise<NiceResponse> => {
+        const headers = buildHeaders(options);
+        let body = options.requestBody;
+        if (options.json !== undefined) {
+            body = JSON.stringify(options.json);
+            if (!hasHeader(headers, 'Content-Type')) headers['Content-Type'] = 'application/json';
+        } else if (options.data) {
+            body = new URLSearchParams(options.data).toString();
+            if (!hasHeader(headers, 'Content-Type')) headers['Content-Type'] = 'application/x-www-form-urlencoded';
+        }
+
+        const response = await fetchFn(buildUrl(url, options.params), {
+            method,
+            headers,
+            body,
+            timeoutMs: options.timeoutMs,
+        });
+        return new NiceResponse(response, parseHtml);
+    };
+
+    return {
+        get: (url: string, options?: RequestOptions) => request('GET', url, options),
+        head: (url: string, options?: RequestOptions) => request('HEAD', url, options),
+        post: (url: string, options?: PostOptions) => request('POST', url, options),
+        put: (url: string, options?: PostOptions) => request('PUT', url, options),
+        delete: (url: string, options?: PostOptions) => request('DELETE', url, options),
+    };
+}
+
+export type HttpClient = ReturnType<typeof createHttpClient>;
@@ -0,0 +1,42 @@
+// Plugin SDK - what JavaScript plugins get as `cloudstream`, require('cloudstream') and `app` inside the sandbox
+// Plugin authors compile against cloudstream.d.ts, update it together with anything exported here
+import { TvType } from '../models/TvType';
+import { SearchQuality } from '../models/SearchResponse';
+import { type ExtractorLink, ExtractorLinkType, Qualities, getQualityFromName } from '../models/ExtractorLink';
+import type { SubtitleFile } from '../models/SubtitleFile';
+import type { PluginCapabilities } from '../services/pluginSandbox.worker';
+import { createHttpClient } from './http';
+import { createHtmlParser } from './html';
+import { createBuilders, fixUrl } from './builders';
+
+export function createPluginSdk(capabilities: PluginCapabilities, getApiName: () => string) {
+    const parseHtml = createHtmlParser(capabilities.html.select);
+    return {
+        ...capabilities,
+        app: createHttpClient(capabilities.fetch, parseHtml),
+        parseHtml,
+        fixUrl,
+        getQualityFromName,
+        /**
+         * Resolves an embed URL with the app's extractors, true if one is registered for its host
+         */
+        loadExtractor: async (
+            url: string,
+            referer: string | undefined,
+            subtitleCallback: (subtitle: SubtitleFile) => void,
+            callback: (link: ExtractorLink) => void
+        ): Promise<boolean> => {
+            const result = await capabilities.extractors.load(url, referer);
+            result.subtitles.forEach(subtitleCallback);
+            result.links.forEach(callback);
+            return result.handled;
+        },
+        ...createBuilders(getApiName),
+        TvType,
+        SearchQuality,
+        ExtractorLinkType,
+        Qualities,
+    };
+}
+
+export type PluginSdk = ReturnType<typeof createPluginSdk>;
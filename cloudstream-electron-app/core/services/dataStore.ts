@@ -0,0 +1,278 @@
+// Data store service - renderer side of the on-disk store kept by the main process
+// Records are cached in memory once hydrateDataStore() resolves, so the storage services stay synchronous
+// Outside Electron (plain browser dev) everything falls back to the old localStorage keys
+import type { PluginMetadata } from './pluginLoader';
+import type { RepositoryData } from '../models/Repository';
+import type { ResumeData } from './resumeService';
+import type { StremioManifest, StremioResource } from './stremioService';
+import type { PluginUpdateLogEntry } from './pluginUpdater';
+import type { JvmBridgeSettings } from './jvmBridge';
+import type { SearchFilters } from './searchFilters';
+import type { PluginSettings } from './pluginSettings';
+
+/**
+ * Every record in the store and the type of its value
+ */
+export interface DataStoreRecords {
+    plugins: PluginMetadata[];
+    repositories: RepositoryData[];
+    resume: Record<string, ResumeData>;
+    stremioAddons: Record<string, StremioManifest>;
+    stremioAddonOrder: string[];
+    stremioDisabledResources: Record<string, StremioResource[]>; // By add-on id
+    pluginUpdateLog: PluginUpdateLogEntry[];
+    pluginStorage: Record<string, Record<string, unknown>>; // Sandboxed plugin storage by internal name
+    jvmBridgeSettings: JvmBridgeSettings;
+    searchFilters: SearchFilters;
+    pluginSettings: PluginSettings;
+    homeSource: string; // Source id of the home page provider
+}
+
+export type DataStoreKey = keyof DataStoreRecords;
+
+interface StoreSnapshot {
+    version: number;
+    legacyImported: boolean;
+    records: Record<string, unknown>;
+}
+
+interface StoreResult {
+    success: boolean;
+    error?: string;
+}
+
+interface DataStoreAPI {
+    getStoreData(): Promise<StoreSnapshot>;
+    setStoreRecord(key: string, value: unknown): Promise<StoreResult>;
+    deleteStoreRecord(key: string): Promise<StoreResult>;
+    readStoreBlob(key: string): Promise<string | null>;
+    writeStoreBlob(key: string, value: string): Promise<StoreResult>;
+    deleteStoreBlob(key: string): Promise<StoreResult>;
+    importLegacyStoreData(records: Record<string, unknown>, blobs: Record<string, string>): Promise<StoreResult & { snapshot?: StoreSnapshot }>;
+}
+
+// localStorage keys the records lived under before the store existed, and still do outside Electron
+const LEGACY_KEYS: Record<DataStoreKey, string> = {
+    plugins: 'cloudstream_plugins',
+    repositories: 'cloudstream_repositories',
+    resume: 'cloudstream_resume_data',
+    stremioAddons: 'stremio-addons',
+    stremioAddonOrder: 'stremio-addon-order',
+    stremioDisabledResources: 'stremio-disabled-resources',
+    pluginUpdateLog: 'cloudstream_plugin_update_log',
+    pluginStorage: 'cloudstream_plugin_storage',
+    jvmBridgeSettings: 'cloudstream_jvm_bridge_settings',
+    searchFilters: 'cloudstream_search_filters',
+    pluginSettings: 'cloudstream_plugin_settings',
+    homeSource: 'cloudstream_home_source',
+};
+
+// Blob keys keep the localStorage key names, keys matching these are imported as blobs:
+// JavaScript plugin code, and files the JVM bridge kept as plugin_<internalName>_<repositoryUrl> plus a _type marker
+const LEGACY_BLOB_PATTERNS = [/^plugin_code_/, /^plugin_.+_https?:\/\//];
+
+let records: Partial<DataStoreRecords> = {};
+let hydrated = false;
+const hydrateListeners: Array<() => void> = [];
+
+/**
+ * The main process store API, undefined outside Electron
+ */
+function getDiskStore(): DataStoreAPI | undefined {
+    if (typeof window === 'undefined') return undefined;
+    const electronAPI = (window as unknown as { electronAPI?: Partial<DataStoreAPI> }).electronAPI;
+    return typeof electronAPI?.getStoreData === 'function' ? electronAPI as DataStoreAPI : undefined;
+}
+
+function readLegacyRecords(): Partial<DataStoreRecords> {
+    const legacy: Record<string, unknown> = {};
+    for (const [key, legacyKey] of Object.entries(LEGACY_KEYS)) {
+        try {
+            const stored = localStorage.getItem(legacyKey);
+            if (stored) legacy[key] = JSON.parse(stored);
+        } catch (error) {
+            console.error(`Failed to read ${legacyKey} from localStorage:`, error);
+        }
+    }
+    return legacy as Partial<DataStoreRecords>;
+}
+
+function readLegacyBlobs(): Record<string, string> {
+    const blobs: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && LEGACY_BLOB_PATTERNS.some(pattern => pattern.test(key))) {
+            blobs[key] = localStorage.getItem(key) ?? '';
+        }
+    }
+    return blobs;
+}
+
+/**
+ * Copies localStorage data into the disk store once, then clears it from localStorage
+ */
+async function importLegacyData(diskStore: DataStoreAPI): Promise<StoreSnapshot | null> {
+    const legacyRecords = readLegacyRecords();
+    const legacyBlobs = readLegacyBlobs();
+
+    const result = await diskStore.importLegacyStoreData(legacyRecords, legacyBlobs);
+    if (!result.success || !result.snapshot) {
+        console.error('Failed to import localStorage data:', result.error);
+        return null;
+    }
+
+    for (const key of Object.keys(legacyRecords) as DataStoreKey[]) {
+        localStorage.removeItem(LEGACY_KEYS[key]);
+    }
+    for (const key of Object.keys(legacyBlobs)) {
+        localStorage.removeItem(key);
+    }
+    console.log(`Imported ${Object.keys(legacyRecords).length} records and ${Object.keys(legacyBlobs).length} blobs from localStorage`);
+    return result.snapshot;
+}
+
+/**
+ * Moves records and blobs an earlier import didn't know about to the disk store,
+ * they would otherwise stay in localStorage. Records already on disk win
+ */
+async function importLeftoverData(diskStore: DataStoreAPI, snapshot: StoreSnapshot): Promise<void> {
+    for (const [key, value] of Object.entries(readLegacyRecords()) as Array<[DataStoreKey, unknown]>) {
+        if (!(key in snapshot.records)) {
+            const result = await diskStore.setStoreRecord(key, value);
+            if (!result.success) {
+                console.error(`Failed to import ${LEGACY_KEYS[key]} from localStorage:`, result.error);
+                continue;
+            }
+            snapshot.records[key] = value;
+        }
+        localStorage.removeItem(LEGACY_KEYS[key]);
+    }
+
+    for (const [key, value] of Object.entries(readLegacyBlobs())) {
+        const result = await diskStore.writeStoreBlob(key, value);
+        if (result.success) {
+            localStorage.removeItem(key);
+        } else {
+            console.error(`Failed to import ${key} from localStorage:`, result.error);
+        }
+    }
+}
+
+/**
+ * Loads every record into memory, importing old localStorage data the first time
+ * Must resolve before the app renders
+ */
+export async function hydrateDataStore(): Promise<void> {
+    const diskStore = getDiskStore();
+    try {
+        if (diskStore) {
+            let snapshot = await diskStore.getStoreData();
+            if (!snapshot.legacyImported) {
+                snapshot = (await importLegacyData(diskStore)) ?? snapshot;
+            } else {
+                await importLeftoverData(diskStore, snapshot);
+            }
+            records = snapshot.records as Partial<DataStoreRecords>;
+        } else {
+            records = readLegacyRecords();
+        }
+    } catch (error) {
+        console.error('Failed to load data store:', error);
+    }
+
+    hydrated = true;
+    hydrateListeners.splice(0).forEach(listener => listener());
+}
+
+/**
+ * Runs a callback once records are available, right away if they already are
+ */
+export function onDataStoreHydrated(listener: () => void): void {
+    if (hydrated) {
+        listener();
+    } else {
+        hydrateListeners.push(listener);
+    }
+}
+
+/**
+ * Get a record from the in-memory cache
+ */
+export function getStoreRecord<K extends DataStoreKey>(key: K): DataStoreRecords[K] | undefined {
+    return records[key];
+}
+
+/**
+ * Update a record, the cache changes immediately and the disk write happens in the background
+ */
+export function setStoreRecord<K extends DataStoreKey>(key: K, value: DataStoreRecords[K]): void {
+    records[key] = value;
+
+    const diskStore = getDiskStore();
+    if (diskStore) {
+        diskStore.setStoreRecord(key, value)
+            .then(result => {
+                if (!result.success) console.error(`Failed to save ${key}:`, result.error);
+            })
+            .catch(error => console.error(`Failed to save ${key}:`, error));
+        return;
+    }
+
+    try {
+        localStorage.setItem(LEGACY_KEYS[key], JSON.stringify(value));
+    } catch (error) {
+        console.error(`Failed to save ${key}:`, error);
+    }
+}
+
+/**
+ * Remove a record
+ */
+export function deleteStoreRecord(key: DataStoreKey): void {
+    delete records[key];
+
+    const diskStore = getDiskStore();
+    if (diskStore) {
+        diskStore.deleteStoreRecord(key).catch(error => console.error(`Failed to delete ${key}:`, error));
+        return;
+    }
+    localStorage.removeItem(LEGACY_KEYS[key]);
+}
+
+/**
+ * Read a blob, null when it doesn't exist
+ */
+export async function readStoreBlob(key: string): Promise<string | null> {
+    const diskStore = getDiskStore();
+    if (diskStore) {
+        return diskStore.readStoreBlob(key);
+    }
+    return localStorage.getItem(key);
+}
+
+/**
+ * Write a blob
+ */
+export async function writeStoreBlob(key: string, value: string): Promise<void> {
+    const diskStore = getDiskStore();
+    if (diskStore) {
+        const result = await diskStore.writeStoreBlob(key, value);
+        if (!result.success) {
+            throw new Error(result.error || `Failed to save ${key}`);
+        }
+        return;
+    }
+    localStorage.setItem(key, value);
+}
+
+/**
+ * Delete a blob
+ */
+export async function deleteStoreBlob(key: string): Promise<void> {
+    const diskStore = getDiskStore();
+    if (diskStore) {
+        await diskStore.deleteStoreBlob(key);
+        return;
+    }
+    localStorage.removeItem(key);
+}
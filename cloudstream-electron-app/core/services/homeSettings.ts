@@ -0,0 +1,13 @@
+// Service for the home page - remembers which provider's home page is shown
+import { getStoreRecord, setStoreRecord } from './dataStore';
+
+/**
+ * Source id (ContentSources.getSourceId) of the provider picked on the home page
+ */
+export function getHomeSource(): string | undefined {
+    return getStoreRecord('homeSource');
+}
+
+export function saveHomeSource(sourceId: string): void {
+    setStoreRecord('homeSource', sourceId);
+}
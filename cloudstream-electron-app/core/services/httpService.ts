@@ -0,0 +1,91 @@
+// HTTP service - requests on behalf of plugins and extractors
+// In Electron they go through the main process, where any header can be set and CORS doesn't apply
+
+export interface HttpRequest {
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+    timeoutMs?: number;
+}
+
+export interface HttpResponse {
+    status: number;
+    ok: boolean;
+    url: string; // After redirects
+    headers: Record<string, string>;
+    cookies: Record<string, string>; // From Set-Cookie
+    text: string;
+}
+
+interface NativeHttpResult {
+    success: boolean;
+    status?: number;
+    url?: string;
+    headers?: Record<string, string>;
+    setCookies?: string[];
+    body?: string;
+    error?: string;
+}
+
+interface NativeHttpAPI {
+    pluginHttpRequest?(request: HttpRequest): Promise<NativeHttpResult>;
+}
+
+const HTTP_TIMEOUT_MS = 30_000;
+
+function getElectronAPI(): NativeHttpAPI | undefined {
+    if (typeof window === 'undefined') return undefined;
+    return (window as unknown as { electronAPI?: NativeHttpAPI }).electronAPI;
+}
+
+/**
+ * Name and value of each Set-Cookie header, attributes like Path and Expires are dropped
+ */
+function parseSetCookies(setCookies: string[]): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    for (const setCookie of setCookies) {
+        const pair = setCookie.split(';')[0];
+        const separator = pair.indexOf('=');
+        if (separator > 0) {
+            cookies[pair.substring(0, separator).trim()] = pair.substring(separator + 1).trim();
+        }
+    }
+    return cookies;
+}
+
+/**
+ * Sends a request, throws when it can't be made at all (bad URL, network error, timeout)
+ * The browser fallback drops forbidden headers like Referer and User-Agent
+ */
+export async function httpRequest(request: HttpRequest): Promise<HttpResponse> {
+    const electronAPI = getElectronAPI();
+    if (electronAPI?.pluginHttpRequest) {
+        const result = await electronAPI.pluginHttpRequest(request);
+        if (!result.success) {
+            throw new Error(result.error || `Request to ${request.url} failed`);
+        }
+        const status = result.status ?? 0;
+        return {
+            status,
+            ok: status >= 200 && status < 300,
+            url: result.url ?? request.url,
+            headers: result.headers ?? {},
+            cookies: parseSetCookies(result.setCookies ?? []),
+            text: result.body ?? '',
+        };
+    }
+
+    const response = await fetch(request.url, {
+        method: request.method ?? 'GET',
+        headers: request.headers,
+        body: request.body,
+        signal: AbortSignal.timeout(request.timeoutMs ?? HTTP_TIMEOUT_MS),
+    });
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+        headers[name] = value;
+    });
+    // Browsers never expose Set-Cookie to scripts
+    return { status: response.status, ok: response.ok, url: response.url, headers, cookies: {}, text: await response.text() };
+}
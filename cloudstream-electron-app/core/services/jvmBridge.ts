@@ -8,31 +8,142 @@
  * Architecture:
  * 1. Downloads .cs3 plugin files (which are DEX files)
  * 2. Stores them locally
- * 3. Communicates with a JVM bridge process (to be implemented)
- * 4. Executes plugin methods (search, load) via IPC
+ * 3. Communicates with the JVM bridge process the main process keeps running (electron/jvmBridge.ts)
+ * 4. Executes plugin methods (search, load, getMainPage, loadLinks) over HTTP on the port the bridge was started with
+ *
+ * A plugin can register several MainAPIs, calls name the one they are for with apiName
+ *
+ * Failures throw JvmBridgeError, so callers can tell "the bridge is down" apart from "no results"
  */
 
 import { downloadPlugin } from './repositoryService';
+import { writeStoreBlob, getStoreRecord, setStoreRecord } from './dataStore';
 import type { SitePlugin } from '../models/Repository';
 import type { SearchResponse } from '../models/SearchResponse';
 import type { LoadResponse } from '../models/LoadResponse';
+import type { TvType } from '../models/TvType';
+import type { MainPageData, MainPageRequest, HomePageResponse } from '../models/HomePage';
+import type { ExtractorLink } from '../models/ExtractorLink';
+import type { SubtitleFile } from '../models/SubtitleFile';
+import type { SubtitleCallback, ExtractorLinkCallback } from '../api/MainAPI';
 
 // Note: File operations will be handled via Electron IPC from main process
 // This service runs in the renderer process and communicates with main process
 
 export interface PluginBridgeResponse {
     success: boolean;
-    data?: any;
+    message?: string;
     error?: string;
+    apis?: JvmApiInfo[];
 }
 
+/**
+ * A MainAPI a plugin registered in the bridge, with its real name and capabilities
+ */
+export interface JvmApiInfo {
+    name: string;
+    mainUrl: string;
+    lang: string;
+    supportedTypes: TvType[];
+    hasMainPage: boolean;
+    hasQuickSearch: boolean;
+    hasChromecastSupport: boolean;
+    hasDownloadSupport: boolean;
+    mainPage: MainPageData[];
+    canBeOverridden: boolean; // mainUrl can be changed
+    hasCredentials: boolean;
+}
+
+/**
+ * What a user can change on a provider, saved and applied again every time the plugin loads
+ */
+export interface JvmApiSettings {
+    mainUrl?: string; // Mirror domain
+    credentials?: string;
+}
+
+export interface JvmBridgeSettings {
+    enableAdult: boolean;
+    providers: Record<string, Record<string, JvmApiSettings>>; // By plugin id, then provider name
+}
+
+const DEFAULT_BRIDGE_SETTINGS: JvmBridgeSettings = { enableAdult: false, providers: {} };
+
+/**
+ * One line of the /plugin/load-links stream, "done" or "error" ends it
+ */
+type JvmLinkEvent =
+    | { type: 'link'; link: ExtractorLink }
+    | { type: 'subtitle'; subtitle: SubtitleFile }
+    | { type: 'done'; success: boolean }
+    | { type: 'error'; error: string };
+
+/**
+ * Mirrors electron/jvmBridge.ts
+ */
+export type JvmBridgeStatus = 'stopped' | 'unavailable' | 'starting' | 'running' | 'restarting' | 'failed';
+
+export interface JvmBridgeState {
+    status: JvmBridgeStatus;
+    port: number | null;
+    jarPath: string | null;
+    javaPath: string | null;
+    error?: string;
+    restarts: number;
+    nextRestartAt?: number; // Epoch ms
+}
+
+/**
+ * unavailable: the bridge isn't running or stopped answering
+ * timeout: the bridge is up but the plugin took too long
+ * plugin-error: the bridge answered with an error from the plugin
+ * bad-response: the bridge answered with something that isn't the expected JSON
+ */
+export type JvmBridgeErrorCode = 'unavailable' | 'timeout' | 'plugin-error' | 'bad-response';
+
+export class JvmBridgeError extends Error {
+    readonly code: JvmBridgeErrorCode;
+
+    constructor(code: JvmBridgeErrorCode, message: string) {
+        super(message);
+        this.name = 'JvmBridgeError';
+        this.code = code;
+    }
+}
+
+interface JvmBridgeAPI {
+    savePluginFile(pluginId: string, repositoryUrl: string, data: ArrayBuffer): Promise<{ success: true; path: string } | { success: false; error?: string }>;
+    getPluginPath(pluginId: string, repositoryUrl: string): Promise<string>;
+    pluginFileExists(pluginId: string, repositoryUrl: string): Promise<boolean>;
+    getJvmBridgeState(): Promise<JvmBridgeState>;
+    restartJvmBridge(): Promise<JvmBridgeState>;
+    onJvmBridgeState(callback: (state: JvmBridgeState) => void): () => void;
+}
+
+function getElectronAPI(): JvmBridgeAPI | undefined {
+    if (typeof window === 'undefined') return undefined;
+    return (window as unknown as { electronAPI?: JvmBridgeAPI }).electronAPI;
+}
+
+// How long a call waits for a bridge that is starting or restarting
+const STARTUP_WAIT_MS = 60_000;
+const SEARCH_TIMEOUT_MS = 30_000;
+const LOAD_TIMEOUT_MS = 30_000;
+const LOAD_PLUGIN_TIMEOUT_MS = 30_000;
+const MAIN_PAGE_TIMEOUT_MS = 30_000;
+const SETTINGS_TIMEOUT_MS = 5_000;
+// loadLinks can run for minutes across many hosts, it only times out when no link arrives for this long
+const LINKS_IDLE_TIMEOUT_MS = 60_000;
+
 export interface PluginSearchRequest {
     pluginId: string;
+    apiName?: string;
     query: string;
 }
 
 export interface PluginLoadRequest {
     pluginId: string;
+    apiName?: string;
     url: string;
 }
 
@@ -42,11 +153,23 @@ export interface PluginLoadRequest {
  */
 class JVMBridgeService {
     private static instance: JVMBridgeService;
-    private isInitialized: boolean = false;
-    private pluginInstances: Map<string, any> = new Map();
+    private state: JvmBridgeState = { status: 'stopped', port: null, jarPath: null, javaPath: null, restarts: 0 };
+    private listeners = new Set<(state: JvmBridgeState) => void>();
+    private stateLoaded: Promise<void>;
+    // What the bridge should have loaded, by plugin id, so a restarted bridge can be given them again
+    private loadedPlugins = new Map<string, { plugin: SitePlugin; repositoryUrl: string }>();
 
     private constructor() {
-        // Service initialization
+        const electronAPI = getElectronAPI();
+        if (!electronAPI?.getJvmBridgeState) {
+            this.state = { ...this.state, status: 'unavailable', error: 'The JVM bridge needs the desktop app' };
+            this.stateLoaded = Promise.resolve();
+            return;
+        }
+        electronAPI.onJvmBridgeState(state => this.setState(state));
+        this.stateLoaded = electronAPI.getJvmBridgeState()
+            .then(state => this.setState(state))
+            .catch(error => console.error('Failed to get JVM bridge state:', error));
     }
 
     public static getInstance(): JVMBridgeService {
@@ -56,14 +179,58 @@ class JVMBridgeService {
         return JVMBridgeService.instance;
     }
 
+    getState(): JvmBridgeState {
+        return this.state;
+    }
+
+    subscribe(listener: (state: JvmBridgeState) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private setState(state: JvmBridgeState) {
+        const previousPort = this.state.port;
+        this.state = state;
+        this.listeners.forEach(listener => listener(state));
+
+        // A restarted bridge starts empty, give it back the settings and plugins the previous one had
+        if (state.status === 'running' && state.port !== previousPort) {
+            this.restoreBridge();
+        }
+    }
+
+    private async restoreBridge() {
+        if (this.getSettings().enableAdult) {
+            await this.setEnableAdult(true).catch(error => console.error('Failed to apply JVM bridge settings:', error));
+        }
+        for (const { plugin, repositoryUrl } of [...this.loadedPlugins.values()]) {
+            try {
+                await this.loadPlugin(plugin, repositoryUrl);
+            } catch (error) {
+                console.error(`Failed to reload plugin ${plugin.name} into the restarted JVM bridge:`, error);
+            }
+        }
+    }
+
+    /**
+     * Restarts the bridge by hand, also after it gave up restarting itself
+     */
+    async restart(): Promise<void> {
+        const electronAPI = getElectronAPI();
+        if (!electronAPI?.restartJvmBridge) return;
+        this.setState(await electronAPI.restartJvmBridge());
+    }
+
     /**
      * Download and store plugin file
      * Uses Electron IPC to communicate with main process for file operations
      */
-    async downloadPlugin(plugin: SitePlugin, repositoryUrl: string): Promise<string> {
+    async downloadPlugin(plugin: SitePlugin, repositoryUrl: string, force: boolean = false): Promise<string> {
         // Check if plugin already exists on disk
         const pluginPath = await this.getPluginPath(plugin, repositoryUrl);
-        if (pluginPath && await this.pluginFileExists(plugin.internalName, repositoryUrl)) {
+        if (!force && pluginPath && await this.pluginFileExists(plugin.internalName, repositoryUrl)) {
             console.log(`Plugin ${plugin.name} already downloaded at ${pluginPath}`);
             return pluginPath;
         }
@@ -77,12 +244,13 @@ class JVMBridgeService {
         }
 
         // Send to main process via IPC to save file
-        if (typeof window !== 'undefined' && (window as any).electronAPI) {
+        const electronAPI = getElectronAPI();
+        if (electronAPI) {
             const data = pluginData instanceof ArrayBuffer 
                 ? pluginData 
                 : new TextEncoder().encode(pluginData).buffer;
             
-            const result = await (window as any).electronAPI.savePluginFile(
+            const result = await electronAPI.savePluginFile(
                 plugin.internalName,
                 repositoryUrl,
                 data
@@ -95,21 +263,21 @@ class JVMBridgeService {
                 throw new Error(result.error || 'Failed to save plugin file');
             }
         } else {
-            // Fallback to localStorage if IPC not available
+            // Fallback to the data store if the plugin file IPC is not available
             const pluginKey = `plugin_${plugin.internalName}_${repositoryUrl}`;
             
             if (pluginData instanceof ArrayBuffer) {
                 const bytes = new Uint8Array(pluginData);
                 const binary = String.fromCharCode(...bytes);
                 const base64 = btoa(binary);
-                localStorage.setItem(pluginKey, base64);
-                localStorage.setItem(`${pluginKey}_type`, 'binary');
+                await writeStoreBlob(pluginKey, base64);
+                await writeStoreBlob(`${pluginKey}_type`, 'binary');
             } else {
-                localStorage.setItem(pluginKey, pluginData);
-                localStorage.setItem(`${pluginKey}_type`, 'text');
+                await writeStoreBlob(pluginKey, pluginData);
+                await writeStoreBlob(`${pluginKey}_type`, 'text');
             }
 
-            console.log(`Plugin ${plugin.name} downloaded and stored in localStorage`);
+            console.log(`Plugin ${plugin.name} downloaded and stored in the data store`);
             return pluginKey;
         }
     }
@@ -118,8 +286,9 @@ class JVMBridgeService {
      * Get plugin file path via IPC
      */
     private async getPluginPath(plugin: SitePlugin, repositoryUrl: string): Promise<string | null> {
-        if (typeof window !== 'undefined' && (window as any).electronAPI) {
-            return await (window as any).electronAPI.getPluginPath(plugin.internalName, repositoryUrl);
+        const electronAPI = getElectronAPI();
+        if (electronAPI) {
+            return await electronAPI.getPluginPath(plugin.internalName, repositoryUrl);
         }
         return null;
     }
@@ -128,155 +297,357 @@ class JVMBridgeService {
      * Check if plugin file exists via IPC
      */
     private async pluginFileExists(pluginId: string, repositoryUrl: string): Promise<boolean> {
-        if (typeof window !== 'undefined' && (window as any).electronAPI) {
-            return await (window as any).electronAPI.pluginFileExists(pluginId, repositoryUrl);
+        const electronAPI = getElectronAPI();
+        if (electronAPI) {
+            return await electronAPI.pluginFileExists(pluginId, repositoryUrl);
         }
         return false;
     }
 
     /**
-     * Initialize JVM bridge process
-     * Checks if bridge is available and running
+     * Waits for the bridge to be running, through a start or restart in progress
+     * @returns The port the bridge listens on
+     * @throws JvmBridgeError unavailable when it isn't running and isn't about to be
      */
-    async initializeBridge(): Promise<void> {
-        if (this.isInitialized) {
-            return;
+    async initializeBridge(): Promise<number> {
+        await this.stateLoaded;
+        if (this.state.status === 'running' && this.state.port) {
+            return this.state.port;
+        }
+        if (this.state.status !== 'starting' && this.state.status !== 'restarting') {
+            throw this.unavailableError();
         }
 
-        // Check if bridge is running
-        try {
-            const response = await fetch('http://127.0.0.1:8765/health', {
-                method: 'GET',
-                signal: AbortSignal.timeout(2000) // 2 second timeout
+        return new Promise<number>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                unsubscribe();
+                reject(new JvmBridgeError('unavailable', `The JVM bridge did not start within ${STARTUP_WAIT_MS / 1000}s`));
+            }, STARTUP_WAIT_MS);
+            const unsubscribe = this.subscribe((state) => {
+                if (state.status === 'starting' || state.status === 'restarting') return;
+                clearTimeout(timer);
+                unsubscribe();
+                if (state.status === 'running' && state.port) {
+                    resolve(state.port);
+                } else {
+                    reject(this.unavailableError());
+                }
             });
+        });
+    }
 
-            if (response.ok) {
-                const health = await response.json();
-                console.log('JVM bridge is running:', health);
-                this.isInitialized = true;
-                return;
-            }
-        } catch (error) {
-            // Bridge not available - this is OK, plugins just won't work
-            console.warn('JVM bridge is not available. Cloudstream plugins will not work.');
-            console.warn('To enable plugins, build the bridge: cd jvm-bridge && gradlew.bat build');
-        }
-
-        this.isInitialized = true;
+    private unavailableError(): JvmBridgeError {
+        const reason = this.state.error ? `: ${this.state.error}` : '';
+        return new JvmBridgeError('unavailable', `The JVM bridge is down${reason}`);
     }
 
     /**
-     * Load plugin in JVM
+     * POSTs to the bridge, network failures and timeouts become JvmBridgeError
+     */
+    /**
+     * @param signal Aborts the request early, the abort reason is thrown as is
      */
-    async loadPlugin(plugin: SitePlugin, repositoryUrl: string): Promise<boolean> {
+    private async post(path: string, body: unknown, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+        const port = await this.initializeBridge();
+        signal?.throwIfAborted();
         try {
-            await this.initializeBridge();
-            
-            if (!this.isInitialized) {
-                throw new Error('JVM bridge is not available. Please build the bridge first.');
-            }
-            
-            // Download plugin if not already downloaded
-            const filePath = await this.downloadPlugin(plugin, repositoryUrl);
-
-            // Send load request to JVM bridge
-            const response = await fetch(`http://127.0.0.1:8765/plugin/load`, {
+            return await fetch(`http://127.0.0.1:${port}${path}`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({
-                    pluginPath: filePath,
-                    pluginId: plugin.internalName,
-                    repositoryUrl: repositoryUrl
-                }),
-                signal: AbortSignal.timeout(30000) // 30 second timeout
+                body: JSON.stringify(body),
+                signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs)
             });
-
-            if (!response.ok) {
-                const error = await response.text();
-                throw new Error(`JVM bridge error: ${error}`);
-            }
-
-            const result = await response.json() as PluginBridgeResponse;
-            return result.success;
         } catch (error) {
-            console.error(`Failed to load plugin ${plugin.name}:`, error);
-            if (error instanceof Error && error.name === 'AbortError') {
-                throw new Error('JVM bridge request timed out. Make sure the bridge is running.');
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
+            if (error instanceof DOMException && error.name === 'TimeoutError') {
+                throw new JvmBridgeError('timeout', `The JVM bridge did not answer ${path} within ${timeoutMs / 1000}s`);
             }
-            return false;
+            throw new JvmBridgeError('unavailable', `The JVM bridge is down: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private async readJson<T>(response: Response): Promise<T> {
+        try {
+            return await response.json() as T;
+        } catch {
+            throw new JvmBridgeError('bad-response', `The JVM bridge sent an invalid response (HTTP ${response.status})`);
         }
     }
 
     /**
-     * Execute search on plugin
+     * The error a failed bridge response carries, the bridge answers with { error } or plain text
      */
-    async search(pluginId: string, query: string): Promise<SearchResponse[]> {
+    private async readError(response: Response): Promise<JvmBridgeError> {
+        const text = await response.text().catch(() => '');
+        let message = text || response.statusText;
         try {
-            const response = await fetch(`http://127.0.0.1:8765/plugin/search`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    pluginId: pluginId,
-                    query: query
-                })
-            });
+            message = (JSON.parse(text) as { error?: string }).error ?? message;
+        } catch {
+            // Plain text
+        }
+        return new JvmBridgeError('plugin-error', message || `HTTP ${response.status}`);
+    }
 
-            if (!response.ok) {
-                console.error(`Search failed: ${response.statusText}`);
-                return [];
+    /**
+     * POSTs and reads the JSON answer, error statuses become JvmBridgeError plugin-error
+     */
+    private async postJson<T>(path: string, body: unknown, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+        const response = await this.post(path, body, timeoutMs, signal);
+        if (!response.ok) {
+            throw await this.readError(response);
+        }
+        return this.readJson<T>(response);
+    }
+
+    /**
+     * Load plugin in JVM, a plugin loaded under the same id is replaced
+     * @param forceDownload Download the file again even if it's on disk, for updates
+     * @returns Every provider the plugin registered, with saved settings applied
+     * @throws JvmBridgeError when the bridge is down or refuses the plugin
+     */
+    async loadPlugin(plugin: SitePlugin, repositoryUrl: string, forceDownload: boolean = false): Promise<JvmApiInfo[]> {
+        await this.initializeBridge();
+
+        // Download plugin if not already downloaded
+        const filePath = await this.downloadPlugin(plugin, repositoryUrl, forceDownload);
+
+        // Send load request to JVM bridge
+        const result = await this.postJson<PluginBridgeResponse>('/plugin/load', {
+            pluginPath: filePath,
+            pluginId: plugin.internalName,
+            repositoryUrl: repositoryUrl
+        }, LOAD_PLUGIN_TIMEOUT_MS);
+        if (!result.success) {
+            throw new JvmBridgeError('plugin-error', result.error || `The JVM bridge could not load ${plugin.name}`);
+        }
+        if (!result.apis || result.apis.length === 0) {
+            throw new JvmBridgeError('plugin-error', `${plugin.name} did not register any provider`);
+        }
+        this.loadedPlugins.set(plugin.internalName, { plugin, repositoryUrl });
+
+        // Saved settings only live in the bridge until it restarts or the plugin loads again
+        const saved = this.getSettings().providers[plugin.internalName] ?? {};
+        return Promise.all(result.apis.map(async (info) => {
+            if (!saved[info.name]) return info;
+            try {
+                return await this.postJson<JvmApiInfo>('/plugin/settings', {
+                    pluginId: plugin.internalName,
+                    apiName: info.name,
+                    ...saved[info.name]
+                }, SETTINGS_TIMEOUT_MS);
+            } catch (error) {
+                console.error(`Failed to apply saved settings to ${info.name}:`, error);
+                return info;
             }
+        }));
+    }
 
-            const results = await response.json() as SearchResponse[];
-            return results;
-        } catch (error) {
-            console.error(`Search failed for plugin ${pluginId}:`, error);
-            return [];
+    /**
+     * Execute search on plugin
+     * @throws JvmBridgeError, an empty list always means the plugin found nothing
+     */
+    async search(pluginId: string, apiName: string | undefined, query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        const request: PluginSearchRequest = { pluginId, apiName, query };
+        const results = await this.postJson<SearchResponse[]>('/plugin/search', request, SEARCH_TIMEOUT_MS, signal);
+        if (!Array.isArray(results)) {
+            throw new JvmBridgeError('bad-response', `The JVM bridge sent an invalid search response for ${pluginId}`);
         }
+        return results;
+    }
+
+    /**
+     * Quick search, providers without one run their full search
+     * @throws JvmBridgeError
+     */
+    async quickSearch(pluginId: string, apiName: string | undefined, query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        const request: PluginSearchRequest = { pluginId, apiName, query };
+        const results = await this.postJson<SearchResponse[]>('/plugin/quick-search', request, SEARCH_TIMEOUT_MS, signal);
+        if (!Array.isArray(results)) {
+            throw new JvmBridgeError('bad-response', `The JVM bridge sent an invalid search response for ${pluginId}`);
+        }
+        return results;
+    }
+
+    /**
+     * One home page section
+     * @returns null when the provider has no main page
+     * @throws JvmBridgeError
+     */
+    async getMainPage(
+        pluginId: string,
+        apiName: string | undefined,
+        page: number,
+        request: MainPageRequest
+    ): Promise<HomePageResponse | null> {
+        const response = await this.post('/plugin/main-page', { pluginId, apiName, page, ...request }, MAIN_PAGE_TIMEOUT_MS);
+        if (response.status === 404) {
+            return null;
+        }
+        if (!response.ok) {
+            throw await this.readError(response);
+        }
+        return this.readJson<HomePageResponse>(response);
     }
 
     /**
      * Execute load on plugin
+     * @returns null only when the plugin has nothing at the URL
+     * @throws JvmBridgeError
+     */
+    async load(pluginId: string, apiName: string | undefined, url: string): Promise<LoadResponse | null> {
+        const request: PluginLoadRequest = { pluginId, apiName, url };
+        const response = await this.post('/plugin/load-content', request, LOAD_TIMEOUT_MS);
+        if (response.status === 404) {
+            return null;
+        }
+        if (!response.ok) {
+            throw await this.readError(response);
+        }
+
+        return await this.readJson<LoadResponse>(response);
+    }
+
+    /**
+     * Execute loadLinks on plugin, links reach the callbacks while the provider is still looking for more
+     * @returns true if the provider reported success or found any link
+     * @throws JvmBridgeError
      */
-    async load(pluginId: string, url: string): Promise<LoadResponse | null> {
+    async loadLinks(
+        pluginId: string,
+        apiName: string | undefined,
+        data: string,
+        isCasting: boolean,
+        subtitleCallback: SubtitleCallback,
+        linkCallback: ExtractorLinkCallback
+    ): Promise<boolean> {
+        const port = await this.initializeBridge();
+        const controller = new AbortController();
+        let timedOut = false;
+        let idleTimer: ReturnType<typeof setTimeout> | undefined;
+        const resetIdleTimer = () => {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, LINKS_IDLE_TIMEOUT_MS);
+        };
+
+        resetIdleTimer();
         try {
-            const response = await fetch(`http://127.0.0.1:8765/plugin/load-content`, {
+            const response = await fetch(`http://127.0.0.1:${port}/plugin/load-links`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({
-                    pluginId: pluginId,
-                    url: url
-                })
+                body: JSON.stringify({ pluginId, apiName, data, isCasting }),
+                signal: controller.signal
             });
+            if (!response.ok || !response.body) {
+                throw await this.readError(response);
+            }
 
-            if (!response.ok) {
-                if (response.status === 404) {
-                    return null;
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffered = '';
+            let found = false;
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                resetIdleTimer();
+
+                buffered += value;
+                const lines = buffered.split('\n');
+                buffered = lines.pop() ?? '';
+                for (const line of lines) {
+                    if (!line.trim()) continue;
+                    const event = this.parseLinkEvent(line);
+                    switch (event.type) {
+                        case 'link':
+                            found = true;
+                            linkCallback(event.link);
+                            break;
+                        case 'subtitle':
+                            subtitleCallback(event.subtitle);
+                            break;
+                        case 'done':
+                            return event.success || found;
+                        case 'error':
+                            throw new JvmBridgeError('plugin-error', event.error);
+                    }
                 }
-                console.error(`Load failed: ${response.statusText}`);
-                return null;
             }
-
-            const result = await response.json() as LoadResponse;
-            return result;
+            throw new JvmBridgeError('unavailable', 'The JVM bridge closed the link stream before it finished');
         } catch (error) {
-            console.error(`Load failed for plugin ${pluginId}:`, error);
-            return null;
+            if (error instanceof JvmBridgeError) throw error;
+            if (timedOut) {
+                throw new JvmBridgeError('timeout', `${apiName ?? pluginId} found no link for ${LINKS_IDLE_TIMEOUT_MS / 1000}s`);
+            }
+            throw new JvmBridgeError('unavailable', `The JVM bridge is down: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            clearTimeout(idleTimer);
+            // Stops a stream left open after "done" or an error
+            controller.abort();
         }
     }
 
+    private parseLinkEvent(line: string): JvmLinkEvent {
+        try {
+            return JSON.parse(line) as JvmLinkEvent;
+        } catch {
+            throw new JvmBridgeError('bad-response', 'The JVM bridge sent an invalid link stream');
+        }
+    }
+
+    getSettings(): JvmBridgeSettings {
+        return { ...DEFAULT_BRIDGE_SETTINGS, ...getStoreRecord('jvmBridgeSettings') };
+    }
+
     /**
-     * Unload plugin
+     * Changes a provider's domain or credentials, saved so it applies on every load
+     * Empty values go back to what the plugin ships with on its next load
+     * @returns The provider as the bridge now reports it
+     * @throws JvmBridgeError
+     */
+    async updateApiSettings(pluginId: string, apiName: string, apiSettings: JvmApiSettings): Promise<JvmApiInfo> {
+        const settings = this.getSettings();
+        const pluginSettings = { ...settings.providers[pluginId] };
+        const merged = { ...pluginSettings[apiName], ...apiSettings };
+        if (!merged.mainUrl) delete merged.mainUrl;
+        if (!merged.credentials) delete merged.credentials;
+        if (Object.keys(merged).length > 0) {
+            pluginSettings[apiName] = merged;
+        } else {
+            delete pluginSettings[apiName];
+        }
+        setStoreRecord('jvmBridgeSettings', { ...settings, providers: { ...settings.providers, [pluginId]: pluginSettings } });
+
+        return this.postJson<JvmApiInfo>('/plugin/settings', { pluginId, apiName, ...apiSettings }, SETTINGS_TIMEOUT_MS);
+    }
+
+    /**
+     * Lets providers return NSFW content, like the Android setting
+     * @throws JvmBridgeError when the bridge is down, the setting is saved either way
+     */
+    async setEnableAdult(enableAdult: boolean): Promise<void> {
+        setStoreRecord('jvmBridgeSettings', { ...this.getSettings(), enableAdult });
+        await this.postJson('/settings', { enableAdult }, SETTINGS_TIMEOUT_MS);
+    }
+
+    /**
+     * Unload plugin, it won't be loaded again when the bridge restarts
      */
     async unloadPlugin(pluginId: string): Promise<void> {
+        if (!this.loadedPlugins.delete(pluginId) || this.state.status !== 'running' || !this.state.port) {
+            return;
+        }
         try {
-            // TODO: Unload plugin from JVM
-            this.pluginInstances.delete(pluginId);
+            await fetch(`http://127.0.0.1:${this.state.port}/plugin/${encodeURIComponent(pluginId)}`, {
+                method: 'DELETE',
+                signal: AbortSignal.timeout(LOAD_TIMEOUT_MS)
+            });
         } catch (error) {
             console.error(`Failed to unload plugin ${pluginId}:`, error);
         }
@@ -0,0 +1,46 @@
+// Link loading service - mirrors Android RepoLinkGenerator behavior
+import type { MainAPI } from '../api/MainAPI';
+import type { ExtractorLink } from '../models/ExtractorLink';
+import type { SubtitleFile } from '../models/SubtitleFile';
+
+export interface LoadedLinks {
+    links: ExtractorLink[];
+    subtitles: SubtitleFile[];
+}
+
+/**
+ * Sorts links by quality, best first
+ */
+export function sortLinksByQuality(links: ExtractorLink[]): ExtractorLink[] {
+    return [...links].sort((a, b) => b.quality - a.quality);
+}
+
+/**
+ * Calls provider.loadLinks and collects everything it emits
+ * Duplicate URLs are dropped, like the Android link generator does
+ */
+export async function collectLinks(
+    provider: MainAPI,
+    data: string,
+    isCasting: boolean = false
+): Promise<LoadedLinks> {
+    const links: ExtractorLink[] = [];
+    const subtitles: SubtitleFile[] = [];
+
+    await provider.loadLinks(
+        data,
+        isCasting,
+        (subtitle) => {
+            if (!subtitles.some(s => s.url === subtitle.url)) {
+                subtitles.push(subtitle);
+            }
+        },
+        (link) => {
+            if (!links.some(l => l.url === link.url)) {
+                links.push(link);
+            }
+        }
+    );
+
+    return { links: sortLinksByQuality(links), subtitles };
+}
@@ -0,0 +1,176 @@
+// Service for subtitle files loaded from disk
+// Files are remembered per episode URL by path and read again through the main process next session
+import type { SubtitleFile } from '../models/SubtitleFile';
+
+interface LocalSubtitleEntry {
+    path: string;
+    name: string;
+    lang: string;
+}
+
+export interface LocalSubtitle {
+    path: string | null; // Null when the file isn't on disk, it can't be restored next session
+    fileName: string;
+    subtitle: SubtitleFile;
+}
+
+interface SubtitleFileResult {
+    success: boolean;
+    canceled?: boolean;
+    path?: string;
+    name?: string;
+    data?: Uint8Array<ArrayBuffer>; // Node Buffer, cloned over IPC
+    error?: string;
+}
+
+interface LocalSubtitlesAPI {
+    openSubtitleFile?(): Promise<SubtitleFileResult>;
+    readSubtitleFile?(filePath: string): Promise<SubtitleFileResult>;
+    getPathForFile?(file: File): string;
+}
+
+export const LOCAL_SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa'];
+
+const STORAGE_KEY = 'cloudstream_local_subtitles';
+
+function getElectronAPI(): LocalSubtitlesAPI | undefined {
+    if (typeof window === 'undefined') return undefined;
+    return (window as unknown as { electronAPI?: LocalSubtitlesAPI }).electronAPI;
+}
+
+/**
+ * Guesses the language from names like "Movie.2020.en.srt", "und" when there is none
+ */
+function guessLanguage(fileName: string): string {
+    const parts = fileName.toLowerCase().split('.');
+    const candidate = parts.length >= 3 ? parts[parts.length - 2] : '';
+    return /^[a-z]{2,3}(-[a-z]{2})?$/.test(candidate) ? candidate : 'und';
+}
+
+/**
+ * Whether a file name looks like a subtitle the parser understands
+ */
+export function isSubtitleFileName(fileName: string): boolean {
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    return LOCAL_SUBTITLE_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Wraps file bytes in a SubtitleFile backed by an object URL
+ * The file name goes in the fragment so format detection still sees the extension
+ * Revoke the URL with URL.revokeObjectURL when the subtitle is no longer listed
+ */
+export function createLocalSubtitle(fileName: string, data: BlobPart): SubtitleFile {
+    const url = URL.createObjectURL(new Blob([data]));
+    return {
+        lang: guessLanguage(fileName),
+        url: `${url}#${encodeURIComponent(fileName)}`,
+        name: `${fileName} (local)`,
+    };
+}
+
+/**
+ * Revokes the object URL behind a local SubtitleFile
+ */
+export function releaseLocalSubtitle(subtitle: SubtitleFile): void {
+    if (subtitle.url.startsWith('blob:')) {
+        URL.revokeObjectURL(subtitle.url.split('#')[0]);
+    }
+}
+
+function getAllLocalSubtitles(): Record<string, LocalSubtitleEntry[]> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.error('Failed to get local subtitles:', error);
+        return {};
+    }
+}
+
+function saveAllLocalSubtitles(allEntries: Record<string, LocalSubtitleEntry[]>): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(allEntries));
+    } catch (error) {
+        console.error('Failed to save local subtitles:', error);
+    }
+}
+
+/**
+ * Remembers a subtitle file for an episode
+ */
+export function saveLocalSubtitle(episodeUrl: string, filePath: string, fileName: string): void {
+    const allEntries = getAllLocalSubtitles();
+    const entries = (allEntries[episodeUrl] ?? []).filter(entry => entry.path !== filePath);
+    entries.push({ path: filePath, name: fileName, lang: guessLanguage(fileName) });
+    allEntries[episodeUrl] = entries;
+    saveAllLocalSubtitles(allEntries);
+}
+
+/**
+ * Forgets a subtitle file for an episode
+ */
+export function removeLocalSubtitle(episodeUrl: string, filePath: string): void {
+    const allEntries = getAllLocalSubtitles();
+    const entries = (allEntries[episodeUrl] ?? []).filter(entry => entry.path !== filePath);
+    if (entries.length > 0) {
+        allEntries[episodeUrl] = entries;
+    } else {
+        delete allEntries[episodeUrl];
+    }
+    saveAllLocalSubtitles(allEntries);
+}
+
+/**
+ * Shows the native open dialog and returns the picked file, null when canceled
+ */
+export async function pickSubtitleFile(): Promise<LocalSubtitle | null> {
+    const electronAPI = getElectronAPI();
+    if (!electronAPI?.openSubtitleFile) {
+        throw new Error('Opening files is only available in the desktop app');
+    }
+
+    const result = await electronAPI.openSubtitleFile();
+    if (result.canceled) return null;
+    if (!result.success || !result.data || !result.path || !result.name) {
+        throw new Error(result.error || 'Failed to open subtitle file');
+    }
+    return { path: result.path, fileName: result.name, subtitle: createLocalSubtitle(result.name, result.data) };
+}
+
+/**
+ * Reads a dropped file
+ */
+export async function readDroppedSubtitle(file: File): Promise<LocalSubtitle> {
+    if (!isSubtitleFileName(file.name)) {
+        throw new Error(`Unsupported subtitle file: ${file.name}`);
+    }
+    const path = getElectronAPI()?.getPathForFile?.(file) || null;
+    return { path, fileName: file.name, subtitle: createLocalSubtitle(file.name, await file.arrayBuffer()) };
+}
+
+/**
+ * Loads the subtitle files remembered for an episode
+ * Files that were moved or deleted are forgotten
+ */
+export async function loadSavedLocalSubtitles(episodeUrl: string): Promise<LocalSubtitle[]> {
+    const electronAPI = getElectronAPI();
+    const entries = getAllLocalSubtitles()[episodeUrl] ?? [];
+    if (!electronAPI?.readSubtitleFile || entries.length === 0) return [];
+
+    const loaded: LocalSubtitle[] = [];
+    for (const entry of entries) {
+        try {
+            const result = await electronAPI.readSubtitleFile(entry.path);
+            if (result.success && result.data) {
+                loaded.push({ path: entry.path, fileName: entry.name, subtitle: createLocalSubtitle(entry.name, result.data) });
+            } else {
+                console.warn(`Forgetting local subtitle ${entry.path}: ${result.error}`);
+                removeLocalSubtitle(episodeUrl, entry.path);
+            }
+        } catch (error) {
+            console.error(`Failed to read local subtitle ${entry.path}:`, error);
+        }
+    }
+    return loaded;
+}
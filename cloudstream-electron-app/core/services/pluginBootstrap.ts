@@ -0,0 +1,160 @@
+// Plugin bootstrap service - mirrors Android PluginManager.loadAllOnlinePlugins on app start
+// Loads every enabled plugin from the store concurrently, search waits for it through whenSettled()
+import { type SitePlugin, PluginStatus } from '../models/Repository';
+import { apiHolder } from '../api/ApiHolder';
+import { TestProvider } from '../providers/TestProvider';
+import { getStoredPlugins, loadPlugin, PLUGIN_LOAD_STAGES, type PluginMetadata, type PluginLoadError } from './pluginLoader';
+
+export interface PluginBootstrapFailure {
+    internalName: string;
+    name: string;
+    repositoryUrl: string;
+    error: PluginLoadError;
+}
+
+export interface PluginBootstrapState {
+    status: 'idle' | 'loading' | 'done';
+    total: number;
+    completed: number; // Loaded or failed
+    current: string[]; // Names of the plugins still loading
+    failures: PluginBootstrapFailure[];
+}
+
+/**
+ * Rebuilds the SitePlugin loadPlugin needs from what was saved at install time
+ * The stored code is used, so url is only needed when it has to be downloaded again
+ */
+function toSitePlugin(metadata: PluginMetadata): SitePlugin {
+    return {
+        url: metadata.url,
+        status: PluginStatus.Ok,
+        version: metadata.version,
+        apiVersion: metadata.apiVersion,
+        name: metadata.name ?? metadata.internalName,
+        internalName: metadata.internalName,
+        authors: [],
+    };
+}
+
+/**
+ * Stage of a thrown PluginLoadError, undefined for anything else
+ */
+function getThrownStage(err: unknown): PluginLoadError['stage'] | undefined {
+    const stage = (err as Partial<PluginLoadError> | null)?.stage;
+    return typeof stage === 'string' && PLUGIN_LOAD_STAGES.includes(stage) ? stage : undefined;
+}
+
+class PluginBootstrap {
+    private static instance: PluginBootstrap;
+    private status: PluginBootstrapState['status'] = 'idle';
+    private total = 0;
+    private completed = 0;
+    private current = new Set<string>();
+    private failures: PluginBootstrapFailure[] = [];
+    private listeners = new Set<(state: PluginBootstrapState) => void>();
+    private promise: Promise<void> | null = null;
+
+    private constructor() {
+        // Loading begins with start()
+    }
+
+    public static getInstance(): PluginBootstrap {
+        if (!PluginBootstrap.instance) {
+            PluginBootstrap.instance = new PluginBootstrap();
+        }
+        return PluginBootstrap.instance;
+    }
+
+    getState(): PluginBootstrapState {
+        return {
+            status: this.status,
+            total: this.total,
+            completed: this.completed,
+            current: [...this.current],
+            failures: [...this.failures],
+        };
+    }
+
+    /**
+     * Listen for state changes, returns the unsubscribe function
+     */
+    subscribe(listener: (state: PluginBootstrapState) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private notify(): void {
+        const state = this.getState();
+        this.listeners.forEach(listener => listener(state));
+    }
+
+    /**
+     * Load the enabled plugins, later calls return the same promise
+     * Call once the data store is hydrated
+     */
+    start(): Promise<void> {
+        if (!this.promise) {
+            this.promise = this.loadEnabledPlugins();
+        }
+        return this.promise;
+    }
+
+    /**
+     * Resolves once every plugin finished loading or failed, right away if start() was never called
+     */
+    whenSettled(): Promise<void> {
+        return this.promise ?? Promise.resolve();
+    }
+
+    private async loadEnabledPlugins(): Promise<void> {
+        const enabled = getStoredPlugins().filter(p => p.enabled);
+
+        this.status = 'loading';
+        this.total = enabled.length;
+        this.notify();
+
+        await Promise.all(enabled.map(async (metadata) => {
+            const plugin = toSitePlugin(metadata);
+            this.current.add(plugin.name);
+            this.notify();
+
+            let error: PluginLoadError | undefined;
+            try {
+                const result = await loadPlugin(plugin, metadata.repositoryUrl);
+                error = result.success ? undefined : result.error ?? { message: 'Failed to load plugin', stage: 'unknown' };
+            } catch (err) {
+                // loadPlugin reports its own failures, a throw is unexpected and has no stage of its own
+                error = {
+                    message: err instanceof Error ? err.message : 'Failed to load plugin',
+                    stage: getThrownStage(err) ?? 'unknown',
+                };
+            }
+
+            if (error) {
+                console.error(`Failed to load plugin ${plugin.name} on startup (${error.stage}):`, error);
+                this.failures.push({
+                    internalName: metadata.internalName,
+                    name: plugin.name,
+                    repositoryUrl: metadata.repositoryUrl,
+                    error,
+                });
+            }
+            this.current.delete(plugin.name);
+            this.completed++;
+            this.notify();
+        }));
+
+        // Keep something to search with in development when no plugin is installed
+        if (apiHolder.getAllApis().length === 0) {
+            apiHolder.addPlugin(new TestProvider());
+        }
+
+        console.log(`Loaded ${this.total - this.failures.length} of ${this.total} plugins on startup`);
+        this.status = 'done';
+        this.notify();
+    }
+}
+
+export const pluginBootstrap = PluginBootstrap.getInstance();
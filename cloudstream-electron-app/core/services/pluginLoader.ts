@@ -2,7 +2,11 @@ import type { MainAPI } from '../api/MainAPI';
 import { apiHolder } from '../api/ApiHolder';
 import type { SitePlugin } from '../models/Repository';
 import { downloadPlugin } from './repositoryService';
-import { jvmBridge } from './jvmBridge';
+import { jvmBridge, JvmBridgeError } from './jvmBridge';
+import { getStoreRecord, setStoreRecord, readStoreBlob, writeStoreBlob, deleteStoreBlob } from './dataStore';
+import { PluginSandbox } from './pluginSandbox';
+import { SandboxedPluginProvider } from '../providers/SandboxedPluginProvider';
+import { JvmPluginProvider } from '../providers/JvmPluginProvider';
 
 /**
  * Plugin metadata stored locally
@@ -13,22 +17,40 @@ export interface PluginMetadata {
     version: number;
     repositoryUrl: string;
     enabled: boolean;
+    name?: string; // Display name, missing for plugins installed before it was saved
+    apiVersion?: number;
 }
 
-const PLUGINS_STORAGE_KEY = 'cloudstream_plugins';
 const PLUGIN_CODE_STORAGE_PREFIX = 'plugin_code_';
 
+// Highest SitePlugin.apiVersion this app knows how to load
+export const SUPPORTED_PLUGIN_API_VERSION = 1;
+
+export interface PluginCompatibility {
+    compatible: boolean;
+    reason?: string;
+}
+
+/**
+ * Checks whether a plugin was built for an API this app supports
+ * Plugins without an apiVersion are treated as version 1
+ */
+export function checkPluginCompatibility(plugin: SitePlugin): PluginCompatibility {
+    const apiVersion = plugin.apiVersion ?? 1;
+    if (apiVersion > SUPPORTED_PLUGIN_API_VERSION) {
+        return {
+            compatible: false,
+            reason: `${plugin.name} needs plugin API v${apiVersion}, this app supports up to v${SUPPORTED_PLUGIN_API_VERSION}. Update the app to use it.`,
+        };
+    }
+    return { compatible: true };
+}
+
 /**
  * Gets all stored plugin metadata
  */
 export function getStoredPlugins(): PluginMetadata[] {
-    try {
-        const stored = localStorage.getItem(PLUGINS_STORAGE_KEY);
-        if (!stored) return [];
-        return JSON.parse(stored) as PluginMetadata[];
-    } catch {
-        return [];
-    }
+    return [...(getStoreRecord('plugins') ?? [])];
 }
 
 /**
@@ -42,7 +64,7 @@ export function savePluginMetadata(plugin: PluginMetadata): void {
     } else {
         plugins.push(plugin);
     }
-    localStorage.setItem(PLUGINS_STORAGE_KEY, JSON.stringify(plugins));
+    setStoreRecord('plugins', plugins);
 }
 
 /**
@@ -51,25 +73,29 @@ export function savePluginMetadata(plugin: PluginMetadata): void {
 export function removePluginMetadata(internalName: string, repositoryUrl: string): void {
     const plugins = getStoredPlugins();
     const filtered = plugins.filter(p => !(p.internalName === internalName && p.repositoryUrl === repositoryUrl));
-    localStorage.setItem(PLUGINS_STORAGE_KEY, JSON.stringify(filtered));
+    setStoreRecord('plugins', filtered);
     // Also remove stored code
-    localStorage.removeItem(`${PLUGIN_CODE_STORAGE_PREFIX}${internalName}_${repositoryUrl}`);
+    deleteStoreBlob(`${PLUGIN_CODE_STORAGE_PREFIX}${internalName}_${repositoryUrl}`)
+        .catch(error => console.error(`Failed to remove stored code for ${internalName}:`, error));
 }
 
 /**
  * Stores plugin code
  */
-function storePluginCode(internalName: string, repositoryUrl: string, code: string): void {
-    localStorage.setItem(`${PLUGIN_CODE_STORAGE_PREFIX}${internalName}_${repositoryUrl}`, code);
+async function storePluginCode(internalName: string, repositoryUrl: string, code: string): Promise<void> {
+    await writeStoreBlob(`${PLUGIN_CODE_STORAGE_PREFIX}${internalName}_${repositoryUrl}`, code);
 }
 
 /**
  * Gets stored plugin code
  */
-function getStoredPluginCode(internalName: string, repositoryUrl: string): string | null {
-    return localStorage.getItem(`${PLUGIN_CODE_STORAGE_PREFIX}${internalName}_${repositoryUrl}`);
+async function getStoredPluginCode(internalName: string, repositoryUrl: string): Promise<string | null> {
+    return readStoreBlob(`${PLUGIN_CODE_STORAGE_PREFIX}${internalName}_${repositoryUrl}`);
 }
 
+// 'unknown' is for unexpected errors that didn't come from one of the other stages
+export const PLUGIN_LOAD_STAGES = ['download', 'parse', 'execute', 'validate', 'register', 'unknown'] as const;
+
 /**
  * Loads and executes a TypeScript/JavaScript plugin
  * Note: In a production environment, you'd want to use a proper module bundler or transpiler
@@ -77,21 +103,46 @@ function getStoredPluginCode(internalName: string, repositoryUrl: string): strin
  */
 export interface PluginLoadError {
     message: string;
-    stage: 'download' | 'parse' | 'execute' | 'validate' | 'register';
+    stage: typeof PLUGIN_LOAD_STAGES[number];
     details?: any;
 }
 
-export async function loadPlugin(plugin: SitePlugin, repositoryUrl: string): Promise<{ success: boolean; error?: PluginLoadError }> {
+export interface LoadPluginOptions {
+    // Download the plugin again and replace the loaded instance, used by the updater
+    // The old instance keeps serving requests until the new one registers
+    forceUpdate?: boolean;
+}
+
+export async function loadPlugin(
+    plugin: SitePlugin,
+    repositoryUrl: string,
+    options: LoadPluginOptions = {}
+): Promise<{ success: boolean; error?: PluginLoadError }> {
+    const { forceUpdate = false } = options;
+
+    const compatibility = checkPluginCompatibility(plugin);
+    if (!compatibility.compatible) {
+        const error: PluginLoadError = {
+            message: compatibility.reason ?? `${plugin.name} is not compatible with this app`,
+            stage: 'validate',
+            details: { apiVersion: plugin.apiVersion, supportedApiVersion: SUPPORTED_PLUGIN_API_VERSION }
+        };
+        console.warn(`Refusing to load plugin ${plugin.name}:`, error);
+        return { success: false, error };
+    }
+
     try {
         // Check if plugin is already loaded
-        const existing = apiHolder.getApi(plugin.internalName);
-        if (existing) {
+        const existing = getPluginProviders(plugin.internalName);
+        if (existing.length > 0 && !forceUpdate) {
             console.log(`Plugin ${plugin.internalName} is already loaded`);
             return { success: true };
         }
 
-        // Check if we have stored code
-        let code: string | null = getStoredPluginCode(plugin.internalName, repositoryUrl);
+        // Check if we have stored code, a plugin that was disabled while an update came out downloads the new version
+        const stored = getStoredPlugins().find(p => p.internalName === plugin.internalName && p.repositoryUrl === repositoryUrl);
+        const outdated = stored !== undefined && stored.version !== plugin.version;
+        let code: string | null = forceUpdate || outdated ? null : await getStoredPluginCode(plugin.internalName, repositoryUrl);
         let isBinaryFile = false;
         
         if (!code) {
@@ -117,8 +168,12 @@ export async function loadPlugin(plugin: SitePlugin, repositoryUrl: string): Pro
                 code = downloaded;
             }
             
-            // Store the code
-            storePluginCode(plugin.internalName, repositoryUrl, code);
+            // Store the code, a failed write only means downloading again next time
+            try {
+                await storePluginCode(plugin.internalName, repositoryUrl, code);
+            } catch (error) {
+                console.warn(`Failed to store code for ${plugin.name}:`, error);
+            }
         } else {
             // Check if stored code is binary (from previous download)
             isBinaryFile = code.startsWith('PK') || code.startsWith('dex\n');
@@ -142,133 +197,66 @@ export async function loadPlugin(plugin: SitePlugin, repositoryUrl: string): Pro
         if (isBinary(code)) {
             // This is a DEX file - use JVM bridge to load it
             console.log(`Plugin ${plugin.name} is a DEX file, using JVM bridge to load it`);
+            let apis;
             try {
-                const loaded = await jvmBridge.loadPlugin(plugin, repositoryUrl);
-                if (loaded) {
-                    // Create a proxy MainAPI that communicates with JVM bridge
-                    const proxyApi: MainAPI = {
-                        name: plugin.internalName,
-                        mainUrl: plugin.url,
-                        search: async (query: string) => {
-                            return await jvmBridge.search(plugin.internalName, query);
-                        },
-                        load: async (url: string) => {
-                            return await jvmBridge.load(plugin.internalName, url);
-                        },
-                        quickSearch: async (query: string) => {
-                            return await jvmBridge.search(plugin.internalName, query);
-                        }
-                    };
-
-                    // Register the proxy
-                    apiHolder.addPlugin(proxyApi);
-
-                    // Save metadata
-                    savePluginMetadata({
-                        internalName: plugin.internalName,
-                        url: plugin.url,
-                        version: plugin.version,
-                        repositoryUrl,
-                        enabled: true
-                    });
-
-                    console.log(`Successfully loaded DEX plugin via JVM bridge: ${plugin.name}`);
-                    return { success: true };
-                } else {
-                    const error: PluginLoadError = {
-                        message: `Failed to load DEX plugin via JVM bridge. JVM bridge may not be fully implemented yet.`,
-                        stage: 'parse',
-                        details: {
-                            pluginType: 'Android/Kotlin (DEX)',
-                            suggestion: 'JVM bridge is required to run Cloudstream plugins. This feature is being implemented.',
-                            pluginUrl: plugin.url
-                        }
-                    };
-                    return { success: false, error };
-                }
+                apis = await jvmBridge.loadPlugin(plugin, repositoryUrl, forceUpdate);
             } catch (error: any) {
+                const bridgeDown = error instanceof JvmBridgeError && error.code === 'unavailable';
                 const loadError: PluginLoadError = {
-                    message: `Error loading DEX plugin via JVM bridge: ${error?.message || 'Unknown error'}`,
-                    stage: 'parse',
+                    message: bridgeDown
+                        ? `${error.message}. Kotlin plugins need the JVM bridge (cd jvm-bridge && ./gradlew build)`
+                        : `Error loading DEX plugin via JVM bridge: ${error?.message || 'Unknown error'}`,
+                    stage: bridgeDown ? 'execute' : 'parse',
                     details: {
                         pluginType: 'Android/Kotlin (DEX)',
+                        bridgeError: error instanceof JvmBridgeError ? error.code : undefined,
                         error: error?.toString()
                     }
                 };
                 console.error(`Failed to load DEX plugin ${plugin.name}:`, loadError);
                 return { success: false, error: loadError };
             }
-        }
 
-        // Execute the plugin code
-        // In a real implementation, you'd want to:
-        // 1. Transpile TypeScript if needed
-        // 2. Use a proper module system
-        // 3. Sandbox the execution
-        // For now, we'll create a safe execution context
-        const pluginExports: { default?: MainAPI; [key: string]: any } = {};
-        
-        // Create a function that mimics module.exports
-        const module = { exports: pluginExports };
-        const exports = pluginExports;
-        
-        // Execute the plugin code in a function scope
-        // This is a simplified version - in production, use a proper module loader
-        try {
-            // Wrap the code in a function to create a scope
-            const pluginFunction = new Function('module', 'exports', 'require', code);
-            pluginFunction(module, exports, () => {
-                throw new Error('require() is not supported in plugins');
+            // One proxy per MainAPI the plugin registered, the previous version's are replaced
+            existing.forEach(api => apiHolder.removePlugin(api));
+            apis.forEach(info => apiHolder.addPlugin(new JvmPluginProvider(plugin.internalName, info)));
+
+            // Save metadata
+            savePluginMetadata({
+                internalName: plugin.internalName,
+                url: plugin.url,
+                version: plugin.version,
+                repositoryUrl,
+                enabled: true,
+                name: plugin.name,
+                apiVersion: plugin.apiVersion
             });
-        } catch (error: any) {
-            const loadError: PluginLoadError = {
-                message: `Error executing plugin code: ${error?.message || 'Unknown error'}`,
-                stage: 'execute',
-                details: {
-                    error: error?.toString(),
-                    stack: error?.stack,
-                    codePreview: code.substring(0, 200)
-                }
-            };
-            console.error(`Error executing plugin ${plugin.name}:`, loadError);
-            return { success: false, error: loadError };
-        }
 
-        // Get the plugin instance
-        const pluginInstance = module.exports.default || module.exports;
-        
-        if (!pluginInstance || typeof pluginInstance !== 'object') {
-            const error: PluginLoadError = {
-                message: `Plugin ${plugin.name} did not export a valid MainAPI instance. Expected an object with search() and load() methods.`,
-                stage: 'validate',
-                details: {
-                    exported: typeof pluginInstance,
-                    exportsKeys: Object.keys(module.exports)
-                }
-            };
-            console.error(`Plugin ${plugin.name} validation failed:`, error);
-            return { success: false, error };
+            console.log(`Successfully loaded DEX plugin via JVM bridge: ${plugin.name}`);
+            return { success: true };
         }
 
-        // Verify it implements MainAPI interface
-        if (typeof pluginInstance.search !== 'function' || typeof pluginInstance.load !== 'function') {
-            const error: PluginLoadError = {
-                message: `Plugin ${plugin.name} does not implement MainAPI interface. Missing search() or load() methods.`,
-                stage: 'validate',
-                details: {
-                    hasSearch: typeof pluginInstance.search === 'function',
-                    hasLoad: typeof pluginInstance.load === 'function',
-                    availableMethods: Object.keys(pluginInstance).filter(k => typeof pluginInstance[k] === 'function')
-                }
-            };
-            console.error(`Plugin ${plugin.name} interface validation failed:`, error);
-            return { success: false, error };
+        // Run the plugin in its own worker, it never sees window, localStorage or electronAPI
+        const sandbox = new PluginSandbox(plugin.internalName, code);
+        const started = await sandbox.start();
+        if (!started.success) {
+            console.error(`Error loading plugin ${plugin.name}:`, started.error);
+            return { success: false, error: started.error };
         }
+        const pluginInstance = new SandboxedPluginProvider(sandbox, started.descriptor);
 
-        // Register the plugin
+        // Register the plugin, an updated version replaces the running one even when it was renamed
         try {
-            apiHolder.addPlugin(pluginInstance as MainAPI);
+            const previous = getPluginProviders(plugin.internalName);
+            previous.forEach(api => apiHolder.removePlugin(api));
+            apiHolder.addPlugin(pluginInstance);
+            for (const api of previous) {
+                if (api instanceof SandboxedPluginProvider) {
+                    api.sandbox.dispose();
+                }
+            }
         } catch (error: any) {
+            sandbox.dispose();
             const loadError: PluginLoadError = {
                 message: `Error registering plugin: ${error?.message || 'Unknown error'}`,
                 stage: 'register',
@@ -284,7 +272,9 @@ export async function loadPlugin(plugin: SitePlugin, repositoryUrl: string): Pro
             url: plugin.url,
             version: plugin.version,
             repositoryUrl,
-            enabled: true
+            enabled: true,
+            name: plugin.name,
+            apiVersion: plugin.apiVersion
         });
 
         console.log(`Successfully loaded plugin: ${plugin.name}`);
@@ -292,7 +282,7 @@ export async function loadPlugin(plugin: SitePlugin, repositoryUrl: string): Pro
     } catch (error: any) {
         const loadError: PluginLoadError = {
             message: `Unexpected error loading plugin: ${error?.message || 'Unknown error'}`,
-            stage: 'parse',
+            stage: 'unknown',
             details: { error: error?.toString(), stack: error?.stack }
         };
         console.error(`Error loading plugin ${plugin.name}:`, loadError);
@@ -300,6 +290,18 @@ export async function loadPlugin(plugin: SitePlugin, repositoryUrl: string): Pro
     }
 }
 
+/**
+ * Providers a plugin registered
+ * Sandboxed plugins register under the name they export and Kotlin plugins can register several,
+ * so they are matched by the plugin they came from and never by name
+ */
+export function getPluginProviders(internalName: string): MainAPI[] {
+    return apiHolder.getAllApis().filter(api =>
+        (api instanceof SandboxedPluginProvider && api.sandbox.internalName === internalName)
+        || (api instanceof JvmPluginProvider && api.pluginId === internalName)
+    );
+}
+
 /**
  * Unloads a plugin
  */
@@ -308,10 +310,13 @@ export function unloadPlugin(internalName: string): void {
     const plugin = plugins.find(p => p.internalName === internalName);
     if (plugin) {
         // Remove from API holder
-        const api = apiHolder.getApi(internalName);
-        if (api) {
+        for (const api of getPluginProviders(internalName)) {
             apiHolder.removePlugin(api);
+            if (api instanceof SandboxedPluginProvider) {
+                api.sandbox.dispose();
+            }
         }
+        jvmBridge.unloadPlugin(internalName);
         
         // Update metadata
         plugin.enabled = false;
@@ -325,7 +330,7 @@ export function unloadPlugin(internalName: string): void {
 export async function reloadPlugin(plugin: SitePlugin, repositoryUrl: string): Promise<{ success: boolean; error?: PluginLoadError }> {
     unloadPlugin(plugin.internalName);
     // Clear stored code to force re-download
-    localStorage.removeItem(`${PLUGIN_CODE_STORAGE_PREFIX}${plugin.internalName}_${repositoryUrl}`);
+    await deleteStoreBlob(`${PLUGIN_CODE_STORAGE_PREFIX}${plugin.internalName}_${repositoryUrl}`);
     return await loadPlugin(plugin, repositoryUrl);
 }
 
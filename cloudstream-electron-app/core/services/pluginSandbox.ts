@@ -0,0 +1,281 @@
+// Plugin sandbox service - runs a JavaScript plugin in its own worker and answers its capability requests
+// Calls into the plugin are marshalled as messages, a call that stops responding terminates the worker
+import type { PluginLoadError } from './pluginLoader';
+import { getStoreRecord, setStoreRecord } from './dataStore';
+import type {
+    SandboxMethod,
+    SandboxPluginDescriptor,
+    SandboxRequest,
+    SandboxResponse,
+    SandboxCapability,
+    SandboxHttpRequest,
+    SandboxHtmlElement,
+    SandboxExtractorResult,
+} from './pluginSandbox.worker';
+import { httpRequest } from './httpService';
+import { loadExtractor } from '../extractors/ExtractorRegistry';
+
+export type SandboxStartResult =
+    | { success: true; descriptor: SandboxPluginDescriptor }
+    | { success: false; error: PluginLoadError };
+
+export type SandboxCallback = (kind: 'subtitle' | 'link', value: unknown) => void;
+
+interface PendingCall {
+    method: SandboxMethod;
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+    onCallback?: SandboxCallback;
+}
+
+const INIT_TIMEOUT_MS = 15_000;
+// Restarted by every link or subtitle loadLinks emits, so only a plugin that makes no progress is stopped
+const CALL_TIMEOUT_MS = 60_000;
+
+/**
+ * Workers have no DOMParser, so plugins send HTML here to be queried
+ * Parsed documents are inert, scripts in them never run
+ * @param fragment Parse through a template, which keeps elements like <tr> that need a parent in a document
+ */
+function selectHtml(html: string, selector: string, fragment: boolean): SandboxHtmlElement[] {
+    const document = new DOMParser().parseFromString(fragment ? '' : html, 'text/html');
+    let root: ParentNode = document;
+    if (fragment) {
+        const template = document.createElement('template');
+        template.innerHTML = html;
+        root = template.content;
+    }
+    return [...root.querySelectorAll(selector)].map(element => ({
+        tagName: element.tagName.toLowerCase(),
+        text: element.textContent?.trim() ?? '',
+        html: element.innerHTML,
+        outerHtml: element.outerHTML,
+        attributes: Object.fromEntries([...element.attributes].map(attribute => [attribute.name, attribute.value])),
+    }));
+}
+
+/**
+ * Runs an extractor for a plugin, collecting what it emits so it can be posted back in one message
+ */
+async function runExtractor(url: string, referer?: string): Promise<SandboxExtractorResult> {
+    const result: SandboxExtractorResult = { handled: false, links: [], subtitles: [] };
+    result.handled = await loadExtractor(
+        url,
+        referer,
+        subtitle => result.subtitles.push(subtitle),
+        link => result.links.push(link)
+    );
+    return result;
+}
+
+function getPluginStorage(internalName: string): Record<string, unknown> {
+    return getStoreRecord('pluginStorage')?.[internalName] ?? {};
+}
+
+function savePluginStorage(internalName: string, values: Record<string, unknown>): void {
+    setStoreRecord('pluginStorage', { ...getStoreRecord('pluginStorage'), [internalName]: values });
+}
+
+/**
+ * One JavaScript plugin running in a worker
+ * The worker starts again on the next call after kill(), dispose() stops it for good
+ */
+export class PluginSandbox {
+    readonly internalName: string;
+    private readonly code: string;
+    private worker: Worker | null = null;
+    private starting: Promise<SandboxStartResult> | null = null;
+    private pending = new Map<number, PendingCall>();
+    private nextCallId = 1;
+    private disposed = false;
+
+    constructor(internalName: string, code: string) {
+        this.internalName = internalName;
+        this.code = code;
+    }
+
+    get running(): boolean {
+        return this.worker !== null;
+    }
+
+    /**
+     * Runs the plugin code, resolves with what the plugin exports once it's ready
+     */
+    start(): Promise<SandboxStartResult> {
+        if (this.disposed) {
+            return Promise.resolve({ success: false, error: { message: `Plugin ${this.internalName} was unloaded`, stage: 'register' } });
+        }
+        if (!this.starting) {
+            this.starting = this.spawn();
+        }
+        return this.starting;
+    }
+
+    private spawn(): Promise<SandboxStartResult> {
+        return new Promise<SandboxStartResult>((resolve) => {
+            const worker = new Worker(new URL('./pluginSandbox.worker.ts', import.meta.url), {
+                type: 'module',
+                name: `plugin:${this.internalName}`,
+            });
+            this.worker = worker;
+
+            const fail = (error: PluginLoadError) => {
+                clearTimeout(timer);
+                this.kill(error.message);
+                resolve({ success: false, error });
+            };
+            const timer = setTimeout(() => fail({
+                message: `Plugin ${this.internalName} did not finish loading within ${INIT_TIMEOUT_MS / 1000}s`,
+                stage: 'execute',
+            }), INIT_TIMEOUT_MS);
+
+            worker.onmessage = (event: MessageEvent<SandboxResponse>) => {
+                const message = event.data;
+                if (message.type === 'ready') {
+                    clearTimeout(timer);
+                    resolve({ success: true, descriptor: message.descriptor });
+                } else if (message.type === 'init-error') {
+                    fail({ message: message.message, stage: message.stage, details: message.details });
+                } else {
+                    this.handleMessage(message);
+                }
+            };
+            worker.onerror = (event) => {
+                event.preventDefault();
+                fail({ message: event.message || `Plugin ${this.internalName} crashed`, stage: 'execute' });
+            };
+
+            this.post({ type: 'init', code: this.code, storage: getPluginStorage(this.internalName) });
+        });
+    }
+
+    /**
+     * Calls a MainAPI method inside the worker
+     * @param onCallback Receives the links and subtitles loadLinks emits
+     * @param signal Rejects the call when aborted, whatever the plugin still answers is dropped and
+     * its timeout no longer counts against the worker
+     */
+    async call<T>(method: SandboxMethod, args: unknown[], onCallback?: SandboxCallback, signal?: AbortSignal): Promise<T> {
+        const started = await this.start();
+        if (!started.success) {
+            throw new Error(started.error.message);
+        }
+        signal?.throwIfAborted();
+
+        const id = this.nextCallId++;
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                const pending = this.pending.get(id);
+                if (!pending) return;
+                clearTimeout(pending.timer);
+                this.pending.delete(id);
+                reject(signal?.reason);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.pending.set(id, {
+                method,
+                resolve: value => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(value as T);
+                },
+                reject: error => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+                timer: this.startCallTimer(method),
+                onCallback,
+            });
+            this.post({ type: 'call', id, method, args });
+        });
+    }
+
+    private startCallTimer(method: SandboxMethod): ReturnType<typeof setTimeout> {
+        return setTimeout(() => this.kill(`${method}() did not respond within ${CALL_TIMEOUT_MS / 1000}s`), CALL_TIMEOUT_MS);
+    }
+
+    private post(message: SandboxRequest): void {
+        this.worker?.postMessage(message);
+    }
+
+    private handleMessage(message: SandboxResponse): void {
+        switch (message.type) {
+            case 'result': {
+                const pending = this.pending.get(message.id);
+                if (!pending) return;
+                clearTimeout(pending.timer);
+                this.pending.delete(message.id);
+                if (message.error !== undefined) {
+                    pending.reject(new Error(message.error));
+                } else {
+                    pending.resolve(message.result);
+                }
+                break;
+            }
+            case 'callback': {
+                const pending = this.pending.get(message.id);
+                if (!pending) return;
+                clearTimeout(pending.timer);
+                pending.timer = this.startCallTimer(pending.method);
+                pending.onCallback?.(message.kind, message.value);
+                break;
+            }
+            case 'capability':
+                this.handleCapability(message.id, message.name, message.args);
+                break;
+            case 'storage':
+                savePluginStorage(this.internalName, message.values);
+                break;
+        }
+    }
+
+    private async handleCapability(id: number, name: SandboxCapability, args: unknown[]): Promise<void> {
+        try {
+            let result: unknown;
+            switch (name) {
+                case 'http.request':
+                    result = await httpRequest(args[0] as SandboxHttpRequest);
+                    break;
+                case 'html.select':
+                    result = selectHtml(String(args[0]), String(args[1]), Boolean(args[2]));
+                    break;
+                case 'extractor.load':
+                    result = await runExtractor(String(args[0]), typeof args[1] === 'string' ? args[1] : undefined);
+                    break;
+                default:
+                    throw new Error(`Unknown capability: ${name}`);
+            }
+            this.post({ type: 'capability-result', id, result });
+        } catch (error) {
+            this.post({ type: 'capability-result', id, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    /**
+     * Terminates the worker and fails every call in progress
+     */
+    kill(reason: string = 'Stopped'): void {
+        if (!this.worker) return;
+
+        this.worker.terminate();
+        this.worker = null;
+        this.starting = null;
+        console.warn(`Stopped plugin ${this.internalName}: ${reason}`);
+
+        const error = new Error(`Plugin ${this.internalName} was stopped: ${reason}`);
+        for (const pending of this.pending.values()) {
+            clearTimeout(pending.timer);
+            pending.reject(error);
+        }
+        this.pending.clear();
+    }
+
+    /**
+     * Stops the worker for good, used when the plugin is unloaded or replaced
+     */
+    dispose(): void {
+        this.kill('Unloaded');
+        this.disposed = true;
+    }
+}
@@ -0,0 +1,312 @@
+// Plugin sandbox worker - runs one JavaScript plugin away from window, localStorage and electronAPI
+// The plugin only gets the capability API below, everything else goes through messages to PluginSandbox
+import type { TvType } from '../models/TvType';
+import type { MainPageData } from '../models/HomePage';
+import type { ExtractorLink } from '../models/ExtractorLink';
+import type { SubtitleFile } from '../models/SubtitleFile';
+import type { HttpRequest, HttpResponse } from './httpService';
+import { createPluginSdk } from '../sdk';
+import { lockDownGlobals } from './pluginSandboxGlobals';
+
+export type SandboxMethod = 'search' | 'quickSearch' | 'load' | 'getMainPage' | 'loadLinks';
+
+/**
+ * What the host needs to build the MainAPI proxy, copied from the plugin instance once it loads
+ */
+export interface SandboxPluginDescriptor {
+    name: string;
+    mainUrl: string;
+    supportedTypes: TvType[];
+    lang: string;
+    hasMainPage: boolean;
+    hasQuickSearch: boolean;
+    hasChromecastSupport: boolean;
+    hasDownloadSupport: boolean;
+    mainPage?: MainPageData[];
+    methods: SandboxMethod[];
+}
+
+export type SandboxHttpRequest = HttpRequest;
+export type SandboxHttpResponse = HttpResponse;
+
+export interface SandboxHtmlElement {
+    tagName: string; // Lower case
+    text: string;
+    html: string; // Inner HTML, query it again to go deeper
+    outerHtml: string;
+    attributes: Record<string, string>;
+}
+
+export interface SandboxExtractorResult {
+    handled: boolean; // An extractor is registered for the URL's host
+    links: ExtractorLink[];
+    subtitles: SubtitleFile[];
+}
+
+export interface SandboxAesOptions {
+    mode: 'CBC' | 'GCM';
+    key: string; // Hex
+    iv: string; // Hex
+    data: string; // Base64 cipher text
+}
+
+/**
+ * Everything a sandboxed plugin can do besides computing, the SDK in core/sdk is built on top of it
+ */
+export interface PluginCapabilities {
+    fetch(url: string, options?: Omit<SandboxHttpRequest, 'url'>): Promise<SandboxHttpResponse>;
+    html: {
+        // fragment parses the markup without wrapping it in a document, keeping elements like <tr> intact
+        select(html: string, selector: string, options?: { fragment?: boolean }): Promise<SandboxHtmlElement[]>;
+    };
+    extractors: {
+        load(url: string, referer?: string): Promise<SandboxExtractorResult>;
+    };
+    crypto: {
+        digest(algorithm: 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512', data: string): Promise<string>;
+        base64Encode(text: string): string;
+        base64Decode(base64: string): string;
+        aesDecrypt(options: SandboxAesOptions): Promise<string>;
+        randomUUID(): string;
+    };
+    // Kept per plugin and saved across sessions, values must be JSON
+    storage: {
+        get<T = unknown>(key: string): T | undefined;
+        set(key: string, value: unknown): void;
+        remove(key: string): void;
+        keys(): string[];
+    };
+}
+
+export type SandboxCapability = 'http.request' | 'html.select' | 'extractor.load';
+
+// Host -> worker
+export type SandboxRequest =
+    | { type: 'init'; code: string; storage: Record<string, unknown> }
+    | { type: 'call'; id: number; method: SandboxMethod; args: unknown[] }
+    | { type: 'capability-result'; id: number; result?: unknown; error?: string };
+
+// Worker -> host
+export type SandboxResponse =
+    | { type: 'ready'; descriptor: SandboxPluginDescriptor }
+    | { type: 'init-error'; stage: 'execute' | 'validate'; message: string; details?: Record<string, unknown> }
+    | { type: 'result'; id: number; result?: unknown; error?: string }
+    | { type: 'callback'; id: number; kind: 'subtitle' | 'link'; value: unknown }
+    | { type: 'capability'; id: number; name: SandboxCapability; args: unknown[] }
+    | { type: 'storage'; values: Record<string, unknown> };
+
+const SANDBOX_METHODS: SandboxMethod[] = ['search', 'quickSearch', 'load', 'getMainPage', 'loadLinks'];
+
+// Worker globals a plugin shouldn't use directly, it talks to the host through the capability API only
+// Shadowing keeps plugins from depending on the message protocol, the network is taken away by lockDownGlobals
+const SHADOWED_GLOBALS = ['self', 'globalThis', 'postMessage', 'onmessage', 'close'];
+
+const scope = self as unknown as {
+    postMessage(message: SandboxResponse): void;
+    onmessage: ((event: MessageEvent<SandboxRequest>) => void) | null;
+};
+
+type PluginInstance = Record<string, unknown> & Partial<Record<SandboxMethod, (...args: unknown[]) => Promise<unknown>>>;
+
+let plugin: PluginInstance | null = null;
+let pluginName = '';
+let storage: Record<string, unknown> = {};
+let nextCapabilityId = 1;
+const pendingCapabilities = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+function post(message: SandboxResponse): void {
+    scope.postMessage(message);
+}
+
+/**
+ * Plugin results can hold class instances or functions, which can't be posted as is
+ */
+function toCloneable(value: unknown): unknown {
+    try {
+        return structuredClone(value);
+    } catch {
+        return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+    }
+}
+
+function callHost<T>(name: SandboxCapability, args: unknown[]): Promise<T> {
+    const id = nextCapabilityId++;
+    return new Promise<T>((resolve, reject) => {
+        pendingCapabilities.set(id, { resolve: value => resolve(value as T), reject });
+        post({ type: 'capability', id, name, args });
+    });
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+}
+
+const capabilities: PluginCapabilities = {
+    fetch: async (url, options = {}) => callHost<SandboxHttpResponse>('http.request', [{ ...options, url }]),
+    html: {
+        select: (html, selector, options = {}) => callHost<SandboxHtmlElement[]>('html.select', [html, selector, options.fragment ?? false]),
+    },
+    extractors: {
+        load: (url, referer) => callHost<SandboxExtractorResult>('extractor.load', [url, referer]),
+    },
+    crypto: {
+        digest: async (algorithm, data) => {
+            const hash = await crypto.subtle.digest(algorithm, new TextEncoder().encode(data));
+            return [...new Uint8Array(hash)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+        },
+        base64Encode: text => bytesToBase64(new TextEncoder().encode(text)),
+        base64Decode: base64 => new TextDecoder().decode(base64ToBytes(base64)),
+        aesDecrypt: async ({ mode, key, iv, data }) => {
+            const algorithm = mode === 'GCM' ? 'AES-GCM' : 'AES-CBC';
+            const cryptoKey = await crypto.subtle.importKey('raw', hexToBytes(key), algorithm, false, ['decrypt']);
+            const plain = await crypto.subtle.decrypt({ name: algorithm, iv: hexToBytes(iv) }, cryptoKey, base64ToBytes(data));
+            return new TextDecoder().decode(plain);
+        },
+        randomUUID: () => crypto.randomUUID(),
+    },
+    storage: {
+        get: <T>(key: string) => storage[key] as T | undefined,
+        set: (key, value) => {
+            storage = { ...storage, [key]: value === undefined ? undefined : JSON.parse(JSON.stringify(value)) };
+            post({ type: 'storage', values: storage });
+        },
+        remove: (key) => {
+            storage = { ...storage };
+            delete storage[key];
+            post({ type: 'storage', values: storage });
+        },
+        keys: () => Object.keys(storage),
+    },
+};
+
+const sdk = createPluginSdk(capabilities, () => pluginName);
+
+/**
+ * Runs the plugin code CommonJS style and checks it exported a MainAPI
+ */
+function init(code: string, initialStorage: Record<string, unknown>): void {
+    storage = initialStorage;
+
+    const module: { exports: Record<string, unknown> & { default?: PluginInstance } } = { exports: {} };
+    const require = (name: string) => {
+        if (name === 'cloudstream') return sdk;
+        throw new Error(`require('${name}') is not supported in plugins`);
+    };
+
+    try {
+        const pluginFunction = new Function('module', 'exports', 'require', 'cloudstream', 'app', ...SHADOWED_GLOBALS, code);
+        pluginFunction.call(module.exports, module, module.exports, require, sdk, sdk.app);
+    } catch (error) {
+        post({
+            type: 'init-error',
+            stage: 'execute',
+            message: `Error executing plugin code: ${error instanceof Error ? error.message : String(error)}`,
+            details: { stack: error instanceof Error ? error.stack : undefined, codePreview: code.substring(0, 200) },
+        });
+        return;
+    }
+
+    const instance = (module.exports.default ?? module.exports) as PluginInstance;
+    if (!instance || typeof instance !== 'object' || typeof instance.search !== 'function' || typeof instance.load !== 'function') {
+        post({
+            type: 'init-error',
+            stage: 'validate',
+            message: 'Plugin does not implement MainAPI interface. Expected an object with search() and load() methods.',
+            details: {
+                exported: typeof instance,
+                exportsKeys: Object.keys(module.exports),
+            },
+        });
+        return;
+    }
+
+    plugin = instance;
+    pluginName = String(instance.name ?? '');
+    const supportedTypes = instance.supportedTypes;
+    post({
+        type: 'ready',
+        descriptor: toCloneable({
+            name: pluginName,
+            mainUrl: String(instance.mainUrl ?? ''),
+            supportedTypes: supportedTypes instanceof Set || Array.isArray(supportedTypes) ? [...supportedTypes] : [],
+            lang: String(instance.lang ?? 'en'),
+            hasMainPage: Boolean(instance.hasMainPage),
+            hasQuickSearch: Boolean(instance.hasQuickSearch),
+            hasChromecastSupport: Boolean(instance.hasChromecastSupport),
+            hasDownloadSupport: Boolean(instance.hasDownloadSupport),
+            mainPage: instance.mainPage,
+            methods: SANDBOX_METHODS.filter(method => typeof instance[method] === 'function'),
+        }) as SandboxPluginDescriptor,
+    });
+}
+
+async function call(id: number, method: SandboxMethod, args: unknown[]): Promise<void> {
+    try {
+        const fn = plugin?.[method];
+        if (!plugin || typeof fn !== 'function') {
+            throw new Error(`Plugin does not implement ${method}()`);
+        }
+
+        // Link and subtitle callbacks can't cross the worker boundary, each one becomes a message
+        const callArgs = method === 'loadLinks'
+            ? [
+                args[0],
+                args[1],
+                (subtitle: unknown) => post({ type: 'callback', id, kind: 'subtitle', value: toCloneable(subtitle) }),
+                (link: unknown) => post({ type: 'callback', id, kind: 'link', value: toCloneable(link) }),
+            ]
+            : args;
+
+        const result = await fn.apply(plugin, callArgs);
+        post({ type: 'result', id, result: toCloneable(result) });
+    } catch (error) {
+        post({ type: 'result', id, error: error instanceof Error ? error.message : String(error) });
+    }
+}
+
+// Before the first message, plugin code only ever runs in a worker without network access
+lockDownGlobals(self);
+
+scope.onmessage = (event) => {
+    const message = event.data;
+    switch (message.type) {
+        case 'init':
+            init(message.code, message.storage);
+            break;
+        case 'call':
+            call(message.id, message.method, message.args);
+            break;
+        case 'capability-result': {
+            const pending = pendingCapabilities.get(message.id);
+            if (!pending) break;
+            pendingCapabilities.delete(message.id);
+            if (message.error !== undefined) {
+                pending.reject(new Error(message.error));
+            } else {
+                pending.resolve(message.result);
+            }
+            break;
+        }
+    }
+};
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import vm from 'node:vm';
+import { BLOCKED_GLOBALS, lockDownGlobals } from './pluginSandboxGlobals';
+
+// A realm laid out like a worker: fetch and XMLHttpRequest inherited from the scope prototypes, WebSocket on the global
+const WORKER_SETUP = `
+class EventTarget {}
+class WorkerGlobalScope extends EventTarget {}
+WorkerGlobalScope.prototype.fetch = function fetch() { return 'network'; };
+WorkerGlobalScope.prototype.XMLHttpRequest = class XMLHttpRequest {};
+Object.setPrototypeOf(globalThis, WorkerGlobalScope.prototype);
+globalThis.WebSocket = class WebSocket {};
+`;
+
+describe('lockDownGlobals', () => {
+    let context: vm.Context;
+    const run = (code: string) => vm.runInContext(code, context);
+
+    beforeEach(() => {
+        context = vm.createContext({});
+        run(WORKER_SETUP);
+        lockDownGlobals(run('globalThis'));
+    });
+
+    it('leaves no fetch on the global plugin code can reach', () => {
+        expect(run(`Function('return this')().fetch`)).toBeUndefined();
+        expect(run(`(function () { return this; })().fetch`)).toBeUndefined();
+        expect(run(`typeof fetch`)).toBe('undefined');
+    });
+
+    it('removes the APIs from the prototypes too', () => {
+        expect(run(`Object.getPrototypeOf(globalThis).fetch`)).toBeUndefined();
+        expect(run(`Object.getPrototypeOf(globalThis).XMLHttpRequest`)).toBeUndefined();
+        expect(run(`(function () { return this; })().WebSocket`)).toBeUndefined();
+    });
+
+    it('keeps them from being put back', () => {
+        expect(() => run(`'use strict'; globalThis.fetch = () => 'network'`)).toThrow();
+        expect(() => run(`'use strict'; Object.getPrototypeOf(globalThis).fetch = () => 'network'`)).toThrow();
+        expect(run(`Function('return this')().fetch`)).toBeUndefined();
+    });
+
+    it('pins every blocked name', () => {
+        for (const name of BLOCKED_GLOBALS) {
+            expect(run(`typeof globalThis[${JSON.stringify(name)}]`)).toBe('undefined');
+        }
+    });
+});
@@ -0,0 +1,42 @@
+// Plugin sandbox globals - takes the network away from the worker before any plugin code runs
+// Plugin code reaches the real global through Function('return this')() whatever it is shadowed with,
+// so the APIs have to be gone from the global and its prototypes, not just hidden
+
+// Everything a worker can open a connection or reach other contexts with
+export const BLOCKED_GLOBALS = [
+    'fetch',
+    'XMLHttpRequest',
+    'WebSocket',
+    'WebSocketStream',
+    'WebTransport',
+    'EventSource',
+    'indexedDB',
+    'caches',
+    'importScripts',
+    'Worker',
+    'SharedWorker',
+    'BroadcastChannel',
+];
+
+/**
+ * Removes BLOCKED_GLOBALS from the global and its prototype chain, then pins them to undefined
+ * The prototypes are frozen so nothing can be put back on them, throws when an API can't be removed
+ */
+export function lockDownGlobals(scope: object): void {
+    for (let target: object | null = scope; target !== null; target = Object.getPrototypeOf(target)) {
+        for (const name of BLOCKED_GLOBALS) {
+            if (Object.prototype.hasOwnProperty.call(target, name) && !Reflect.deleteProperty(target, name)) {
+                throw new Error(`Plugin sandbox could not remove ${name}`);
+            }
+        }
+        // Object.prototype ends the chain and stays as it is
+        if (target !== scope && Object.getPrototypeOf(target) !== null) {
+            Object.freeze(target);
+        }
+    }
+
+    // The global itself can't be frozen, each name is made read-only instead
+    for (const name of BLOCKED_GLOBALS) {
+        Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false, enumerable: false });
+    }
+}
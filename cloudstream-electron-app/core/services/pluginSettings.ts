@@ -0,0 +1,27 @@
+// Service for extension list preferences
+// Controls how plugins flagged down or beta only in their repository are listed
+import { getStoreRecord, setStoreRecord } from './dataStore';
+
+export interface PluginSettings {
+    showDownPlugins: boolean; // List plugins with status Down (they can't be installed)
+    showBetaPlugins: boolean; // List plugins with status Beta only
+}
+
+export const DEFAULT_PLUGIN_SETTINGS: PluginSettings = {
+    showDownPlugins: false,
+    showBetaPlugins: false,
+};
+
+/**
+ * Get extension list settings, filling in defaults for anything missing
+ */
+export function getPluginSettings(): PluginSettings {
+    return { ...DEFAULT_PLUGIN_SETTINGS, ...getStoreRecord('pluginSettings') };
+}
+
+/**
+ * Save extension list settings
+ */
+export function savePluginSettings(settings: PluginSettings): void {
+    setStoreRecord('pluginSettings', settings);
+}
@@ -0,0 +1,205 @@
+// Plugin update service - mirrors Android PluginManager.updateAllOnlinePluginsAndLoadThem
+// Compares SitePlugin.version from the repositories with the installed version and hot-swaps changed plugins
+import { type SitePlugin, PluginStatus } from '../models/Repository';
+import { getRepoPlugins } from './repositoryService';
+import { getStoredRepositories } from './repositoryStorage';
+import { getStoredPlugins, loadPlugin } from './pluginLoader';
+import { getStoreRecord, setStoreRecord } from './dataStore';
+
+export interface PluginUpdate {
+    plugin: SitePlugin; // Latest version from the repository
+    repositoryUrl: string;
+    installedVersion: number;
+    enabled: boolean; // Disabled plugins are listed but only picked up when they are enabled again
+    error?: string; // Why the last attempt to apply it failed
+}
+
+export interface PluginUpdateLogEntry {
+    internalName: string;
+    name: string;
+    repositoryUrl: string;
+    fromVersion: number;
+    toVersion: number;
+    updatedAt: number; // Unix timestamp
+}
+
+export interface PluginUpdaterState {
+    checking: boolean;
+    lastChecked?: number; // Unix timestamp
+    available: PluginUpdate[];
+    updating: string[]; // Keys from getPluginUpdateKey
+    log: PluginUpdateLogEntry[]; // Newest first
+}
+
+const UPDATE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const MAX_LOG_ENTRIES = 50;
+
+/**
+ * Identifies a plugin across repositories
+ */
+export function getPluginUpdateKey(update: PluginUpdate): string {
+    return `${update.plugin.internalName}_${update.repositoryUrl}`;
+}
+
+class PluginUpdater {
+    private static instance: PluginUpdater;
+    private checking = false;
+    private lastChecked?: number;
+    private available: PluginUpdate[] = [];
+    private updating = new Set<string>();
+    private listeners = new Set<(state: PluginUpdaterState) => void>();
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    private constructor() {
+        // Checks begin with start()
+    }
+
+    public static getInstance(): PluginUpdater {
+        if (!PluginUpdater.instance) {
+            PluginUpdater.instance = new PluginUpdater();
+        }
+        return PluginUpdater.instance;
+    }
+
+    getState(): PluginUpdaterState {
+        return {
+            checking: this.checking,
+            lastChecked: this.lastChecked,
+            available: [...this.available],
+            updating: [...this.updating],
+            log: getStoreRecord('pluginUpdateLog') ?? [],
+        };
+    }
+
+    /**
+     * Listen for state changes, returns the unsubscribe function
+     */
+    subscribe(listener: (state: PluginUpdaterState) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private notify(): void {
+        const state = this.getState();
+        this.listeners.forEach(listener => listener(state));
+    }
+
+    /**
+     * Check and apply updates now and then every UPDATE_INTERVAL_MS
+     */
+    start(): void {
+        if (this.timer) return;
+        this.checkForUpdates().catch(error => console.error('Plugin update check failed:', error));
+        this.timer = setInterval(() => {
+            this.checkForUpdates().catch(error => console.error('Plugin update check failed:', error));
+        }, UPDATE_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Re-fetches every repository and lists installed plugins whose version changed
+     * @param apply Also download and hot-swap the changed plugins that are enabled
+     */
+    async checkForUpdates(apply: boolean = true): Promise<PluginUpdate[]> {
+        if (this.checking) return this.available;
+
+        this.checking = true;
+        this.notify();
+        try {
+            const installed = getStoredPlugins();
+            const repositories = getStoredRepositories();
+
+            const repoPlugins = installed.length === 0 ? [] : (await Promise.all(
+                repositories.map(async (repo) => {
+                    try {
+                        return await getRepoPlugins(repo.url) ?? [];
+                    } catch (error) {
+                        console.warn(`Failed to check ${repo.name} for updates:`, error);
+                        return [];
+                    }
+                })
+            )).flat();
+
+            this.available = installed.flatMap((metadata): PluginUpdate[] => {
+                const latest = repoPlugins.find(({ plugin, repositoryUrl }) =>
+                    plugin.internalName === metadata.internalName && repositoryUrl === metadata.repositoryUrl
+                );
+                if (!latest || latest.plugin.version === metadata.version) return [];
+                return [{
+                    plugin: latest.plugin,
+                    repositoryUrl: latest.repositoryUrl,
+                    installedVersion: metadata.version,
+                    enabled: metadata.enabled,
+                }];
+            });
+            this.lastChecked = Date.now();
+        } finally {
+            this.checking = false;
+            this.notify();
+        }
+
+        if (apply) {
+            // Plugins marked down in the repository keep their working version
+            await this.applyUpdates(this.available.filter(update => update.plugin.status !== PluginStatus.Down));
+        }
+        return this.available;
+    }
+
+    /**
+     * Downloads and hot-swaps one plugin, the old version keeps running if this fails
+     */
+    async applyUpdate(update: PluginUpdate): Promise<boolean> {
+        const key = getPluginUpdateKey(update);
+        if (this.updating.has(key)) return false;
+
+        this.updating.add(key);
+        this.notify();
+        try {
+            const result = await loadPlugin(update.plugin, update.repositoryUrl, { forceUpdate: true });
+            if (result.success) {
+                this.available = this.available.filter(u => getPluginUpdateKey(u) !== key);
+                this.addLogEntry({
+                    internalName: update.plugin.internalName,
+                    name: update.plugin.name,
+                    repositoryUrl: update.repositoryUrl,
+                    fromVersion: update.installedVersion,
+                    toVersion: update.plugin.version,
+                    updatedAt: Date.now(),
+                });
+                console.log(`Updated plugin ${update.plugin.name} from v${update.installedVersion} to v${update.plugin.version}`);
+            } else {
+                const error = result.error?.message ?? 'Update failed';
+                this.available = this.available.map(u => getPluginUpdateKey(u) === key ? { ...u, error } : u);
+                console.error(`Failed to update plugin ${update.plugin.name}:`, result.error);
+            }
+            return result.success;
+        } finally {
+            this.updating.delete(key);
+            this.notify();
+        }
+    }
+
+    /**
+     * Applies updates one at a time, loading a disabled plugin would enable it so those are skipped
+     */
+    async applyUpdates(updates: PluginUpdate[] = this.available): Promise<void> {
+        for (const update of updates.filter(u => u.enabled)) {
+            await this.applyUpdate(update);
+        }
+    }
+
+    private addLogEntry(entry: PluginUpdateLogEntry): void {
+        const log = getStoreRecord('pluginUpdateLog') ?? [];
+        setStoreRecord('pluginUpdateLog', [entry, ...log].slice(0, MAX_LOG_ENTRIES));
+    }
+}
+
+export const pluginUpdater = PluginUpdater.getInstance();
@@ -1,18 +1,11 @@
 import type { RepositoryData } from '../models/Repository';
-
-const REPOSITORIES_STORAGE_KEY = 'cloudstream_repositories';
+import { getStoreRecord, setStoreRecord } from './dataStore';
 
 /**
  * Gets all stored repositories
  */
 export function getStoredRepositories(): RepositoryData[] {
-    try {
-        const stored = localStorage.getItem(REPOSITORIES_STORAGE_KEY);
-        if (!stored) return [];
-        return JSON.parse(stored) as RepositoryData[];
-    } catch {
-        return [];
-    }
+    return [...(getStoreRecord('repositories') ?? [])];
 }
 
 /**
@@ -26,7 +19,7 @@ export function addRepository(repository: RepositoryData): void {
         return;
     }
     repos.push(repository);
-    localStorage.setItem(REPOSITORIES_STORAGE_KEY, JSON.stringify(repos));
+    setStoreRecord('repositories', repos);
 }
 
 /**
@@ -35,6 +28,6 @@ export function addRepository(repository: RepositoryData): void {
 export function removeRepository(url: string): void {
     const repos = getStoredRepositories();
     const filtered = repos.filter(r => r.url !== url);
-    localStorage.setItem(REPOSITORIES_STORAGE_KEY, JSON.stringify(filtered));
+    setStoreRecord('repositories', filtered);
 }
 
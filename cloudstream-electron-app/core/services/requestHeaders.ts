@@ -0,0 +1,152 @@
+// Request header service - forwards per-link headers to the main process
+// The main process attaches them through session webRequest, so <img>, <track>,
+// <video> and hls.js/dash.js requests all carry them like they do on Android
+import type { SubtitleFile } from '../models/SubtitleFile';
+
+export interface RequestHeaderRule {
+    id: string;
+    urlPrefixes: string[];
+    hosts?: string[]; // Every request to these hosts gets the headers too, e.g. the segment hosts of a manifest
+    headers: Record<string, string>;
+}
+
+const PLAYBACK_RULE_ID = 'playback';
+
+// Rules registered for the page being shown, cleared when it unmounts
+const posterRuleIds = new Set<string>();
+const subtitleRuleIds = new Set<string>();
+let playbackRule: RequestHeaderRule | null = null;
+
+interface HeaderRulesAPI {
+    setRequestHeaders?(rule: RequestHeaderRule): Promise<unknown>;
+    clearRequestHeaders?(id: string): Promise<unknown>;
+}
+
+function getElectronAPI(): HeaderRulesAPI | undefined {
+    if (typeof window === 'undefined') return undefined;
+    return (window as unknown as { electronAPI?: HeaderRulesAPI }).electronAPI;
+}
+
+function hasHeaders(headers?: Record<string, string>): headers is Record<string, string> {
+    return !!headers && Object.keys(headers).length > 0;
+}
+
+/**
+ * Adds or replaces a header rule, no-op outside Electron
+ */
+export async function setRequestHeaders(rule: RequestHeaderRule): Promise<void> {
+    const electronAPI = getElectronAPI();
+    if (!electronAPI?.setRequestHeaders) return;
+
+    try {
+        await electronAPI.setRequestHeaders(rule);
+    } catch (error) {
+        console.error(`Failed to set request headers for ${rule.id}:`, error);
+    }
+}
+
+/**
+ * Removes a header rule
+ */
+export async function clearRequestHeaders(id: string): Promise<void> {
+    const electronAPI = getElectronAPI();
+    if (!electronAPI?.clearRequestHeaders) return;
+
+    try {
+        await electronAPI.clearRequestHeaders(id);
+    } catch (error) {
+        console.error(`Failed to clear request headers for ${id}:`, error);
+    }
+}
+
+/**
+ * Registers posterHeaders for SearchResponse / LoadResponse posters
+ * Await before rendering so the first image request already has them
+ */
+export async function registerPosterHeaders(
+    items: Array<{ posterUrl?: string; backgroundPosterUrl?: string; posterHeaders?: Record<string, string> }>
+): Promise<void> {
+    const rules: RequestHeaderRule[] = [];
+    for (const item of items) {
+        if (!hasHeaders(item.posterHeaders)) continue;
+        for (const url of [item.posterUrl, item.backgroundPosterUrl]) {
+            if (url) {
+                rules.push({ id: `poster:${url}`, urlPrefixes: [url], headers: item.posterHeaders });
+            }
+        }
+    }
+    rules.forEach(rule => posterRuleIds.add(rule.id));
+    await Promise.all(rules.map(setRequestHeaders));
+}
+
+/**
+ * Removes every poster rule, called when the page showing them unmounts
+ */
+export async function clearPosterHeaders(): Promise<void> {
+    const ids = Array.from(posterRuleIds);
+    posterRuleIds.clear();
+    await Promise.all(ids.map(clearRequestHeaders));
+}
+
+/**
+ * Registers SubtitleFile.headers for each subtitle URL
+ * Subtitles without headers still get a rule, subtitle hosts rarely send CORS headers for fetch()
+ */
+export async function registerSubtitleHeaders(subtitles: SubtitleFile[]): Promise<void> {
+    await Promise.all(subtitles.map(subtitle => {
+        const id = `subtitle:${subtitle.url}`;
+        subtitleRuleIds.add(id);
+        return setRequestHeaders({ id, urlPrefixes: [subtitle.url], headers: subtitle.headers ?? {} });
+    }));
+}
+
+/**
+ * Removes every subtitle rule, called when the player unmounts
+ */
+export async function clearSubtitleHeaders(): Promise<void> {
+    const ids = Array.from(subtitleRuleIds);
+    subtitleRuleIds.clear();
+    await Promise.all(ids.map(clearRequestHeaders));
+}
+
+function getHost(url: string): string | null {
+    try {
+        return new URL(url).host;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Registers the headers of the link being played for the host of its URL
+ * Segment and key hosts are added by allowPlaybackHost as the player requests them
+ */
+export async function registerPlaybackHeaders(url: string, headers?: Record<string, string>): Promise<void> {
+    const host = getHost(url);
+    if (!hasHeaders(headers) || !host) {
+        await clearPlaybackHeaders();
+        return;
+    }
+    playbackRule = { id: PLAYBACK_RULE_ID, urlPrefixes: [url], hosts: [host], headers };
+    await setRequestHeaders(playbackRule);
+}
+
+/**
+ * Extends the playback headers to the host of a manifest, segment or key URL
+ * Passed to the streaming engine, which awaits it before each request
+ */
+export async function allowPlaybackHost(url: string): Promise<void> {
+    const host = getHost(url);
+    if (!playbackRule || !host || playbackRule.hosts?.includes(host)) return;
+
+    playbackRule = { ...playbackRule, hosts: [...(playbackRule.hosts ?? []), host] };
+    await setRequestHeaders(playbackRule);
+}
+
+/**
+ * Stops applying the playback headers
+ */
+export async function clearPlaybackHeaders(): Promise<void> {
+    playbackRule = null;
+    await clearRequestHeaders(PLAYBACK_RULE_ID);
+}
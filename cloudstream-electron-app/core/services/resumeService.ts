@@ -1,7 +1,8 @@
 // Service for saving and restoring video playback positions
 // Mirrors the Android app's resume watching functionality
+import { getStoreRecord, setStoreRecord, deleteStoreRecord } from './dataStore';
 
-interface ResumeData {
+export interface ResumeData {
     position: number; // Position in seconds
     duration: number; // Total duration in seconds
     lastUpdated: number; // Unix timestamp
@@ -9,8 +10,6 @@ interface ResumeData {
     episodeName?: string;
 }
 
-const STORAGE_KEY = 'cloudstream_resume_data';
-
 /**
  * Save playback position for an episode
  */
@@ -32,7 +31,7 @@ export function saveResumePosition(
         const allData = getAllResumeData();
         allData[episodeUrl] = resumeData;
 
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(allData));
+        setStoreRecord('resume', allData);
     } catch (error) {
         console.error('Failed to save resume position:', error);
     }
@@ -55,13 +54,7 @@ export function getResumePosition(episodeUrl: string): ResumeData | null {
  * Get all saved resume positions
  */
 export function getAllResumeData(): Record<string, ResumeData> {
-    try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        return stored ? JSON.parse(stored) : {};
-    } catch (error) {
-        console.error('Failed to get all resume data:', error);
-        return {};
-    }
+    return { ...(getStoreRecord('resume') ?? {}) };
 }
 
 /**
@@ -71,7 +64,7 @@ export function clearResumePosition(episodeUrl: string): void {
     try {
         const allData = getAllResumeData();
         delete allData[episodeUrl];
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(allData));
+        setStoreRecord('resume', allData);
     } catch (error) {
         console.error('Failed to clear resume position:', error);
     }
@@ -82,7 +75,7 @@ export function clearResumePosition(episodeUrl: string): void {
  */
 export function clearAllResumeData(): void {
     try {
-        localStorage.removeItem(STORAGE_KEY);
+        deleteStoreRecord('resume');
     } catch (error) {
         console.error('Failed to clear all resume data:', error);
     }
@@ -0,0 +1,90 @@
+// Service for search filters - which providers are searched and which results are shown
+// The selection is saved in the data store and restored on the next search
+import type { MainAPI } from '../api/MainAPI';
+import { contentSources } from '../api/ContentSources';
+import { TvType } from '../models/TvType';
+import type { SearchResponse } from '../models/SearchResponse';
+import { getStoreRecord, setStoreRecord } from './dataStore';
+
+export interface SearchFilters {
+    providers: string[]; // Source ids (ContentSources.getSourceId), empty searches all of them
+    types: TvType[]; // Type chips, empty allows every type
+    language?: string; // MainAPI.lang
+    yearFrom?: number;
+    yearTo?: number;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+    providers: [],
+    types: [],
+};
+
+/**
+ * Types offered as chips, each one also matches the types listed with it
+ */
+export const SEARCH_FILTER_TYPES: Array<{ type: TvType; label: string; matches: TvType[] }> = [
+    { type: TvType.Movie, label: 'Movies', matches: [TvType.Movie] },
+    { type: TvType.TvSeries, label: 'TV Series', matches: [TvType.TvSeries, TvType.Cartoon] },
+    { type: TvType.Anime, label: 'Anime', matches: [TvType.Anime, TvType.AnimeMovie, TvType.OVA] },
+    { type: TvType.AsianDrama, label: 'Asian Drama', matches: [TvType.AsianDrama] },
+    { type: TvType.Documentary, label: 'Documentaries', matches: [TvType.Documentary] },
+    { type: TvType.Live, label: 'Live', matches: [TvType.Live] },
+];
+
+/**
+ * Get saved search filters, filling in defaults for anything missing
+ */
+export function getSearchFilters(): SearchFilters {
+    return { ...DEFAULT_SEARCH_FILTERS, ...getStoreRecord('searchFilters') };
+}
+
+export function saveSearchFilters(filters: SearchFilters): void {
+    setStoreRecord('searchFilters', filters);
+}
+
+function getMatchingTypes(filters: SearchFilters): Set<TvType> {
+    return new Set(SEARCH_FILTER_TYPES
+        .filter(chip => filters.types.includes(chip.type))
+        .flatMap(chip => chip.matches));
+}
+
+/**
+ * Whether a provider should be searched at all
+ * Providers that don't declare their types are kept, there is nothing to rule them out with
+ */
+export function providerMatchesFilters(provider: MainAPI, filters: SearchFilters): boolean {
+    if (filters.providers.length > 0 && !filters.providers.includes(contentSources.getSourceId(provider))) return false;
+    if (filters.language && provider.lang !== filters.language) return false;
+
+    if (filters.types.length > 0 && provider.supportedTypes.size > 0) {
+        const matchingTypes = getMatchingTypes(filters);
+        if (![...provider.supportedTypes].some(type => matchingTypes.has(type))) return false;
+    }
+    return true;
+}
+
+/**
+ * Whether a result passes the type and year filters
+ * Results without a type or year are kept, most providers leave them out
+ */
+export function resultMatchesFilters(result: SearchResponse, filters: SearchFilters): boolean {
+    if (filters.types.length > 0 && result.type && !getMatchingTypes(filters).has(result.type)) return false;
+
+    const year = 'year' in result && typeof result.year === 'number' ? result.year : undefined;
+    if (year !== undefined) {
+        if (filters.yearFrom !== undefined && year < filters.yearFrom) return false;
+        if (filters.yearTo !== undefined && year > filters.yearTo) return false;
+    }
+    return true;
+}
+
+/**
+ * Whether anything narrows the search
+ */
+export function hasActiveFilters(filters: SearchFilters): boolean {
+    return filters.providers.length > 0
+        || filters.types.length > 0
+        || !!filters.language
+        || filters.yearFrom !== undefined
+        || filters.yearTo !== undefined;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { groupSearchResults, normalizeTitle } from './searchGrouping';
+import { TvType } from '../models/TvType';
+import type { MovieSearchResponse } from '../models/SearchResponse';
+
+function result(apiName: string, name: string, extra: Partial<MovieSearchResponse> = {}): MovieSearchResponse {
+    return { apiName, name, url: `${apiName}/${name}`, type: TvType.Movie, ...extra };
+}
+
+function groupNames(results: MovieSearchResponse[]): string[][] {
+    return groupSearchResults(results).map(group => group.sources.map(source => `${source.apiName}: ${source.name}`));
+}
+
+describe('normalizeTitle', () => {
+    it('drops punctuation and case', () => {
+        expect(normalizeTitle('Spider-Man: No Way Home')).toBe('spider man no way home');
+        expect(normalizeTitle('Spider Man No Way Home')).toBe('spider man no way home');
+        expect(normalizeTitle("Ocean's Eleven")).toBe('oceans eleven');
+    });
+
+    it('drops accents, a leading "the" and a trailing year', () => {
+        expect(normalizeTitle('Amélie')).toBe('amelie');
+        expect(normalizeTitle('The Matrix (1999)')).toBe('matrix');
+        expect(normalizeTitle('Fast & Furious')).toBe('fast and furious');
+    });
+
+    it('turns roman sequel numbers into digits', () => {
+        expect(normalizeTitle('Frozen II')).toBe('frozen 2');
+        expect(normalizeTitle('Frozen 2')).toBe('frozen 2');
+        expect(normalizeTitle('Rocky IV')).toBe('rocky 4');
+    });
+
+    it('keeps a roman numeral that starts the title', () => {
+        expect(normalizeTitle('V for Vendetta')).toBe('v for vendetta');
+    });
+
+    it('keeps letters of other scripts', () => {
+        expect(normalizeTitle('千と千尋の神隠し')).toBe('千と千尋の神隠し');
+        expect(normalizeTitle('Унесённые призраками')).toBe('унесенные призраками');
+    });
+});
+
+describe('groupSearchResults', () => {
+    it('groups titles that only differ in punctuation', () => {
+        expect(groupNames([
+            result('A', 'Spider-Man: No Way Home'),
+            result('B', 'Spider Man No Way Home'),
+        ])).toEqual([['A: Spider-Man: No Way Home', 'B: Spider Man No Way Home']]);
+    });
+
+    it('groups roman and digit sequels, keeps different sequels apart', () => {
+        expect(groupNames([
+            result('A', 'Frozen II'),
+            result('B', 'Frozen 2'),
+            result('C', 'Frozen'),
+        ])).toEqual([['A: Frozen II', 'B: Frozen 2'], ['C: Frozen']]);
+    });
+
+    it('keeps "Alien" and "Aliens" apart', () => {
+        expect(groupNames([
+            result('A', 'Alien'),
+            result('B', 'Aliens'),
+        ])).toEqual([['A: Alien'], ['B: Aliens']]);
+    });
+
+    it('groups "V for Vendetta" without reading V as a numeral', () => {
+        expect(groupNames([
+            result('A', 'V for Vendetta'),
+            result('B', 'V For Vendetta (2005)'),
+            result('C', '5 for Vendetta'),
+        ])).toEqual([['A: V for Vendetta', 'B: V For Vendetta (2005)'], ['C: 5 for Vendetta']]);
+    });
+
+    it('keeps the same title in different scripts apart without ids', () => {
+        expect(groupNames([
+            result('A', 'Spirited Away'),
+            result('B', '千と千尋の神隠し'),
+        ])).toEqual([['A: Spirited Away'], ['B: 千と千尋の神隠し']]);
+    });
+
+    it('groups the same title in different scripts on a shared id', () => {
+        expect(groupNames([
+            result('A', 'Spirited Away', { syncData: { imdb: 'tt0245429' } }),
+            result('B', '千と千尋の神隠し', { syncData: { imdb: 'tt0245429' } }),
+        ])).toEqual([['A: Spirited Away', 'B: 千と千尋の神隠し']]);
+    });
+
+    it('keeps equal titles apart when their ids differ', () => {
+        expect(groupNames([
+            result('A', 'Dune', { year: 2021, syncData: { imdb: 'tt1160419' } }),
+            result('B', 'Dune', { year: 2021, syncData: { imdb: 'tt0087182' } }),
+            result('C', 'Dune', { year: 2021 }),
+        ])).toEqual([['A: Dune', 'C: Dune'], ['B: Dune']]);
+    });
+
+    it('ignores ids of different trackers', () => {
+        expect(groupNames([
+            result('A', 'Dune', { syncData: { imdb: 'tt1160419' } }),
+            result('B', 'Dune', { syncData: { tmdb: '438631' } }),
+        ])).toEqual([['A: Dune', 'B: Dune']]);
+    });
+
+    it('allows years one apart and no further', () => {
+        expect(groupNames([
+            result('A', 'Dune', { year: 2021 }),
+            result('B', 'Dune', { year: 2020 }),
+            result('C', 'Dune', { year: 1984 }),
+            result('D', 'Dune'),
+        ])).toEqual([['A: Dune', 'B: Dune', 'D: Dune'], ['C: Dune']]);
+    });
+
+    it('keeps movies and series with the same title apart, Anime and TvSeries together', () => {
+        expect(groupNames([
+            result('A', 'Fargo', { type: TvType.Movie }),
+            result('B', 'Fargo', { type: TvType.TvSeries }),
+            result('C', 'Fargo', { type: TvType.Anime }),
+        ])).toEqual([['A: Fargo'], ['B: Fargo', 'C: Fargo']]);
+    });
+
+    it('keeps two same-titled entries of one provider in different groups', () => {
+        const groups = groupSearchResults([
+            result('A', 'Hamlet', { url: 'A/hamlet-1948' }),
+            result('A', 'Hamlet', { url: 'A/hamlet-1996' }),
+            result('B', 'Hamlet'),
+        ]);
+        expect(groups.map(group => group.sources.map(source => source.url))).toEqual([
+            ['A/hamlet-1948', 'B/Hamlet'],
+            ['A/hamlet-1996'],
+        ]);
+    });
+
+    it('drops a result a provider returned twice', () => {
+        expect(groupNames([
+            result('A', 'Alien'),
+            result('A', 'Alien'),
+        ])).toEqual([['A: Alien']]);
+    });
+
+    it('shows the first source with a poster', () => {
+        const [group] = groupSearchResults([
+            result('A', 'Alien'),
+            result('B', 'Alien', { posterUrl: 'https://img/alien.jpg' }),
+        ]);
+        expect(group.primary.apiName).toBe('B');
+    });
+});
@@ -0,0 +1,141 @@
+// Search result grouping - one card per title when several providers find the same one
+// Results match on a shared tracker id (syncData), otherwise on normalized title, year and type
+import { TvType } from '../models/TvType';
+import type { SearchResponse } from '../models/SearchResponse';
+
+export interface SearchResultGroup {
+    key: string;
+    primary: SearchResponse; // Shown on the card, the first member with a poster
+    sources: SearchResponse[]; // One per provider, in merge order
+}
+
+// Years differ by one between providers that use the release and the premiere date
+const YEAR_TOLERANCE = 1;
+
+const ROMAN_NUMERALS: Record<string, string> = {
+    ii: '2', iii: '3', iv: '4', v: '5', vi: '6', vii: '7', viii: '8', ix: '9', x: '10',
+};
+
+/**
+ * Types that describe the same kind of entry, providers disagree on Anime vs TvSeries
+ */
+const TYPE_KINDS: Partial<Record<TvType, string>> = {
+    [TvType.Movie]: 'movie',
+    [TvType.AnimeMovie]: 'movie',
+    [TvType.TvSeries]: 'series',
+    [TvType.Anime]: 'series',
+    [TvType.Cartoon]: 'series',
+    [TvType.AsianDrama]: 'series',
+    [TvType.OVA]: 'series',
+};
+
+/**
+ * Title reduced to what providers agree on: lowercase words without accents or punctuation,
+ * "&" as "and", roman sequel numbers as digits and no leading "the" or trailing "(year)"
+ * Letters of every script are kept, titles in different languages stay different
+ */
+export function normalizeTitle(title: string): string {
+    const words = title
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/\s*\(\d{4}\)\s*$/, '')
+        .replace(/&/g, ' and ')
+        .replace(/['’`]/g, '')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim()
+        .split(' ')
+        .filter(Boolean)
+        // Only after the first word, "V for Vendetta" keeps its V
+        .map((word, index) => index > 0 ? ROMAN_NUMERALS[word] ?? word : word);
+
+    if (words.length > 1 && words[0] === 'the') words.shift();
+    return words.join(' ');
+}
+
+function getYear(result: SearchResponse): number | undefined {
+    if ('year' in result && typeof result.year === 'number') return result.year;
+    const match = result.name.match(/\((\d{4})\)\s*$/);
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+interface GroupState {
+    group: SearchResultGroup;
+    titles: Set<string>;
+    year?: number;
+    kind?: string;
+    syncData: Record<string, string>;
+    apiNames: Set<string>;
+}
+
+/**
+ * true or false when both sides have an id for the same tracker, undefined when they can't be compared
+ */
+function compareSyncData(a: Record<string, string>, b: Record<string, string> | undefined): boolean | undefined {
+    if (!b) return undefined;
+    let compared: boolean | undefined;
+    for (const [tracker, id] of Object.entries(b)) {
+        if (!id || !a[tracker]) continue;
+        if (a[tracker] !== id) return false;
+        compared = true;
+    }
+    return compared;
+}
+
+function matchesGroup(state: GroupState, result: SearchResponse, title: string): boolean {
+    // A provider listing two entries with the same title means they are different entries
+    if (state.apiNames.has(result.apiName)) return false;
+
+    // Shared ids win over titles, they also tell remakes with the same title apart
+    const sameIds = compareSyncData(state.syncData, result.syncData);
+    if (sameIds !== undefined) return sameIds;
+
+    if (!state.titles.has(title)) return false;
+
+    const year = getYear(result);
+    if (state.year !== undefined && year !== undefined && Math.abs(state.year - year) > YEAR_TOLERANCE) return false;
+
+    const kind = result.type ? TYPE_KINDS[result.type] ?? result.type : undefined;
+    if (state.kind !== undefined && kind !== undefined && state.kind !== kind) return false;
+
+    return true;
+}
+
+/**
+ * Groups equivalent results from different providers, groups keep the order of their first result
+ * Results a provider returned twice are dropped
+ */
+export function groupSearchResults(results: SearchResponse[]): SearchResultGroup[] {
+    const states: GroupState[] = [];
+    const seen = new Set<string>();
+
+    for (const result of results) {
+        const resultKey = `${result.apiName}\n${result.url}`;
+        if (seen.has(resultKey)) continue;
+        seen.add(resultKey);
+
+        const title = normalizeTitle(result.name);
+        const state = states.find(candidate => matchesGroup(candidate, result, title));
+        if (!state) {
+            states.push({
+                group: { key: resultKey, primary: result, sources: [result] },
+                titles: new Set([title]),
+                year: getYear(result),
+                kind: result.type ? TYPE_KINDS[result.type] ?? result.type : undefined,
+                syncData: { ...result.syncData },
+                apiNames: new Set([result.apiName]),
+            });
+            continue;
+        }
+
+        state.group.sources.push(result);
+        if (!state.group.primary.posterUrl && result.posterUrl) state.group.primary = result;
+        state.titles.add(title);
+        state.year ??= getYear(result);
+        state.kind ??= result.type ? TYPE_KINDS[result.type] ?? result.type : undefined;
+        state.syncData = { ...result.syncData, ...state.syncData };
+        state.apiNames.add(result.apiName);
+    }
+
+    return states.map(state => state.group);
+}
@@ -1,108 +1,142 @@
 // Search orchestration service - mirrors Android SearchViewModel behavior
 import { apiHolder } from '../api/ApiHolder';
+import { contentSources } from '../api/ContentSources';
+import type { MainAPI } from '../api/MainAPI';
 import type { SearchResponse } from '../models/SearchResponse';
-import { stremioService } from './stremioService';
-
-export interface SearchResultState {
-  status: 'idle' | 'loading' | 'success' | 'error';
-  query: string;
-  mergedResults: SearchResponse[];
-  perProviderResults: Record<string, SearchResponse[]>;
-  error?: string;
-}
+import { pluginBootstrap } from './pluginBootstrap';
+import { JvmBridgeError } from './jvmBridge';
+import { providerMatchesFilters, resultMatchesFilters, type SearchFilters } from './searchFilters';
 
 export interface SearchOptions {
-  activeProviders?: string[];
+  activeProviders?: string[]; // Source ids
   quick?: boolean;
+  filters?: SearchFilters; // Providers that can't match are not searched, results are filtered
+  timeoutMs?: number; // Per provider
 }
 
+export type ProviderSearchStatus = 'loading' | 'done' | 'error' | 'timeout';
+
 /**
- * Runs search across all active providers in parallel and aggregates results
- * Similar to SearchViewModel.search() in Android app
+ * Providers are reported by source id (ContentSources.getSourceId), names aren't unique
  */
-export async function runSearch(
-  query: string,
-  options: SearchOptions = {}
-): Promise<SearchResultState> {
-  const trimmed = query.trim();
-  if (trimmed.length <= 1) {
-    return {
-      status: 'idle',
-      query: trimmed,
-      mergedResults: [],
-      perProviderResults: {},
-    };
-  }
+export interface SearchListener {
+  // Every provider that will be searched, in display order, before any of them answers
+  onProviders(sourceIds: string[]): void;
+  onResults(sourceId: string, results: SearchResponse[]): void;
+  onStatus(sourceId: string, status: ProviderSearchStatus, error?: string): void;
+}
+
+const DEFAULT_PROVIDER_TIMEOUT_MS = 20_000;
 
-  const { activeProviders = [], quick = false } = options;
+class SearchTimeoutError extends Error {}
 
-  try {
-    const providers = apiHolder.getAllApis().filter((p) => {
-      if (activeProviders.length === 0) return true;
-      return activeProviders.includes(p.name);
+/**
+ * Merge results in round-robin fashion (like bundleSearch in Android)
+ * @param providers Order of the lists, providers without results are skipped
+ */
+export function mergeSearchResults(
+  providers: string[],
+  perProviderResults: Record<string, SearchResponse[]>
+): SearchResponse[] {
+  const allLists = providers.map((sourceId) => perProviderResults[sourceId] ?? []);
+  const mergedResults: SearchResponse[] = [];
+  let index = 0;
+  while (true) {
+    let added = 0;
+    for (const list of allLists) {
+      if (list.length > index) {
+        mergedResults.push(list[index]);
+        added++;
+      }
+    }
+    if (added === 0) break;
+    index++;
+  }
+  return mergedResults;
+}
+
+/**
+ * Runs one provider's search with a signal that aborts on timeout or when the search is cancelled,
+ * so the provider stops its requests instead of finishing them in the background
+ */
+function runWithTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new SearchTimeoutError();
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+    const onAbort = () => {
+      clearTimeout(timer);
+      controller.abort(signal?.reason);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    run(controller.signal).then(resolve, reject).finally(() => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     });
+  });
+}
 
-    const perProviderResults: Record<string, SearchResponse[]> = {};
+/**
+ * Searches every active provider and Stremio add-on in parallel, each one reports on its own as it answers
+ * Nothing is reported after the signal aborts, so a newer query can't be overwritten by an older one
+ * Resolves once every provider has settled or the signal aborted
+ */
+export async function searchProviders(
+  query: string,
+  options: SearchOptions,
+  listener: SearchListener,
+  signal?: AbortSignal
+): Promise<void> {
+  const trimmed = query.trim();
+  const { activeProviders = [], quick = false, filters, timeoutMs = DEFAULT_PROVIDER_TIMEOUT_MS } = options;
 
-    // Run searches in parallel (like Android's amap)
-    await Promise.all(
-      providers.map(async (provider) => {
-        try {
-          const searchFn = quick ? provider.quickSearch : provider.search;
-          if (!searchFn) return;
+  // Plugins enabled last session are still registering right after startup
+  await pluginBootstrap.whenSettled();
+  if (signal?.aborted) return;
 
-          const results = await searchFn.call(provider, trimmed);
-          if (results && Array.isArray(results)) {
-            perProviderResults[provider.name] = results;
-          }
-        } catch (err) {
-          console.error(`Search failed for provider ${provider.name}:`, err);
-          // Continue with other providers even if one fails
-        }
-      })
-    );
+  // Stremio add-ons are searched like any provider, each one is listed as its own provider
+  const providers = [...apiHolder.getAllApis(), ...contentSources.getStremioProviders()].filter((provider) =>
+    (activeProviders.length === 0 || activeProviders.includes(contentSources.getSourceId(provider)))
+    && (!filters || providerMatchesFilters(provider, filters))
+  );
+  listener.onProviders(providers.map((provider) => contentSources.getSourceId(provider)));
 
-    // Also search Stremio add-ons
-    try {
-      const stremioResults = await stremioService.search(trimmed);
-      if (stremioResults.length > 0) {
-        perProviderResults['stremio'] = stremioResults;
-      }
-    } catch (err) {
-      console.error('Stremio search failed:', err);
-      // Continue even if Stremio search fails
-    }
+  // Run searches in parallel (like Android's amap)
+  await Promise.all(
+    providers.map(async (provider: MainAPI) => {
+      const sourceId = contentSources.getSourceId(provider);
+      listener.onStatus(sourceId, 'loading');
+      try {
+        const searchFn = quick ? provider.quickSearch : provider.search;
+        const results = searchFn
+          ? await runWithTimeout((providerSignal) => searchFn.call(provider, trimmed, providerSignal), timeoutMs, signal)
+          : [];
+        if (signal?.aborted) return;
 
-    // Merge results in round-robin fashion (like bundleSearch in Android)
-    const allLists = Object.values(perProviderResults);
-    const mergedResults: SearchResponse[] = [];
-    let index = 0;
-    while (true) {
-      let added = 0;
-      for (const list of allLists) {
-        if (list.length > index) {
-          mergedResults.push(list[index]);
-          added++;
+        const list = Array.isArray(results) ? results : [];
+        listener.onResults(sourceId, filters ? list.filter((result) => resultMatchesFilters(result, filters)) : list);
+        listener.onStatus(sourceId, 'done');
+      } catch (err) {
+        if (signal?.aborted) return;
+        if (err instanceof SearchTimeoutError) {
+          console.warn(`Search timed out for provider ${provider.name}`);
+          listener.onStatus(sourceId, 'timeout', `No answer after ${timeoutMs / 1000}s`);
+          return;
         }
+        console.error(`Search failed for provider ${provider.name}:`, err);
+        // Continue with other providers even if one fails
+        listener.onStatus(
+          sourceId,
+          'error',
+          err instanceof JvmBridgeError && err.code === 'unavailable'
+            ? 'JVM bridge is down'
+            : err instanceof Error ? err.message : 'Unknown error'
+        );
       }
-      if (added === 0) break;
-      index++;
-    }
-
-    return {
-      status: 'success',
-      query: trimmed,
-      mergedResults,
-      perProviderResults,
-    };
-  } catch (err) {
-    return {
-      status: 'error',
-      query: trimmed,
-      mergedResults: [],
-      perProviderResults: {},
-      error: err instanceof Error ? err.message : 'Unknown search error',
-    };
-  }
+    })
+  );
 }
-
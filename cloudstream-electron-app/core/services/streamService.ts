@@ -0,0 +1,149 @@
+// Stream orchestration service - fans out link loading to every source
+import { contentSources } from '../api/ContentSources';
+import { StremioAddonProvider } from '../providers/StremioAddonProvider';
+import { type ExtractorLink, ExtractorLinkType } from '../models/ExtractorLink';
+import type { SubtitleFile } from '../models/SubtitleFile';
+import { stremioService } from './stremioService';
+
+export interface StreamSource {
+    id: string;
+    name: string;
+    kind: 'provider' | 'stremio';
+}
+
+export interface StreamEntry {
+    sourceId: string;
+    link: ExtractorLink;
+    size?: number; // Bytes, when the source reports it
+}
+
+export type StreamSourceStatus = 'loading' | 'done' | 'error';
+
+export interface StreamRequest {
+    // Cloudstream provider and its Episode.data / MovieLoadResponse.dataUrl
+    apiName?: string;
+    data?: string;
+    // Stremio type ("movie", "series") and id ("tt123" or "tt123:1:2")
+    stremioType?: string;
+    stremioId?: string;
+}
+
+export interface StreamListener {
+    onSources(sources: StreamSource[]): void;
+    onStreams(sourceId: string, entries: StreamEntry[]): void;
+    onSubtitles(subtitles: SubtitleFile[]): void;
+    onStatus(sourceId: string, status: StreamSourceStatus, error?: string): void;
+}
+
+/**
+ * Link types the player can open
+ */
+export function isPlayableLink(link: ExtractorLink): boolean {
+    return link.type === ExtractorLinkType.VIDEO
+        || link.type === ExtractorLinkType.M3U8
+        || link.type === ExtractorLinkType.DASH;
+}
+
+/**
+ * Picks the highest quality playable entry, earlier entries win ties
+ */
+export function pickBestStream(entries: StreamEntry[]): StreamEntry | null {
+    let best: StreamEntry | null = null;
+    for (const entry of entries) {
+        if (!isPlayableLink(entry.link)) continue;
+        if (!best || entry.link.quality > best.link.quality) {
+            best = entry;
+        }
+    }
+    return best;
+}
+
+/**
+ * Loads streams from every source in parallel and reports them as they arrive
+ * Resolves once all sources have settled
+ */
+export async function loadStreams(
+    request: StreamRequest,
+    listener: StreamListener,
+    signal?: AbortSignal
+): Promise<void> {
+    const tasks: Array<{ source: StreamSource; run: () => Promise<void> }> = [];
+    let subtitles: Promise<void> = Promise.resolve();
+
+    const provider = request.apiName ? contentSources.getSource(request.apiName) : undefined;
+    if (provider && request.data) {
+        const source: StreamSource = { id: `provider:${provider.name}`, name: provider.name, kind: 'provider' };
+        const data = request.data;
+        tasks.push({
+            source,
+            run: async () => {
+                await provider.loadLinks(
+                    data,
+                    false,
+                    (subtitle) => {
+                        if (!signal?.aborted) listener.onSubtitles([subtitle]);
+                    },
+                    (link) => {
+                        if (!signal?.aborted) listener.onStreams(source.id, [{ sourceId: source.id, link }]);
+                    }
+                );
+            },
+        });
+    }
+
+    if (request.stremioType && request.stremioId) {
+        const type = request.stremioType;
+        const id = request.stremioId;
+
+        // Subtitle add-ons aren't stream sources, what they find is added to every stream's subtitles
+        subtitles = stremioService.getSubtitles(type, id)
+            .then((found) => {
+                if (!signal?.aborted && found.length > 0) {
+                    listener.onSubtitles(found.map(subtitle => stremioService.convertSubtitleToSubtitleFile(subtitle)));
+                }
+            })
+            .catch(err => console.warn('Failed to load Stremio subtitles:', err));
+        // The add-on the content was loaded from is already queried as the provider
+        const providerAddonId = provider instanceof StremioAddonProvider ? provider.addonId : undefined;
+        // Sources follow the add-on order from the Stremio tab
+        for (const addon of stremioService.getStreamAddons(type, id).filter(addon => addon.id !== providerAddonId)) {
+            const source: StreamSource = { id: `stremio:${addon.id}`, name: addon.name, kind: 'stremio' };
+            tasks.push({
+                source,
+                run: async () => {
+                    const streams = await stremioService.getAddonStreams(addon, type, id);
+                    if (signal?.aborted) return;
+
+                    const entries: StreamEntry[] = [];
+                    await Promise.all(streams.map(stream => stremioService.resolveStreamLinks(
+                        stream,
+                        addon,
+                        (subtitle) => {
+                            if (!signal?.aborted) listener.onSubtitles([subtitle]);
+                        },
+                        (link) => {
+                            entries.push({ sourceId: source.id, link, size: stremioService.getStreamSize(stream) });
+                        }
+                    )));
+                    if (signal?.aborted) return;
+                    listener.onStreams(source.id, entries);
+                },
+            });
+        }
+    }
+
+    listener.onSources(tasks.map(task => task.source));
+
+    await Promise.all([subtitles, ...tasks.map(async ({ source, run }) => {
+        listener.onStatus(source.id, 'loading');
+        try {
+            await run();
+            if (!signal?.aborted) listener.onStatus(source.id, 'done');
+        } catch (err) {
+            console.error(`Failed to load streams from ${source.name}:`, err);
+            if (!signal?.aborted) {
+                listener.onStatus(source.id, 'error', err instanceof Error ? err.message : 'Failed to load streams');
+            }
+        }
+    })]);
+}
@@ -0,0 +1,330 @@
+// Streaming engine - attaches progressive, HLS and DASH sources to a video element
+import Hls, { type ErrorData } from 'hls.js';
+import { MediaPlayer, type MediaPlayerClass } from 'dashjs';
+import { ExtractorLinkType, inferTypeFromUrl } from '../models/ExtractorLink';
+
+export interface QualityLevel {
+    index: number;
+    height?: number;
+    bitrate?: number; // Bits per second
+    label: string;
+}
+
+export interface AudioRendition {
+    index: number;
+    label: string;
+    lang?: string;
+}
+
+export interface StreamingEngine {
+    readonly type: ExtractorLinkType;
+    /** Variants of the stream, empty for progressive files */
+    getLevels(): QualityLevel[];
+    /** Selected level index, -1 while automatic selection is on */
+    getCurrentLevel(): number;
+    setLevel(index: number): void;
+    getAudioTracks(): AudioRendition[];
+    getCurrentAudioTrack(): number;
+    setAudioTrack(index: number): void;
+    /** Called whenever levels, audio tracks or the current selection change */
+    onChange(listener: () => void): void;
+    onError(listener: (message: string) => void): void;
+    destroy(): void;
+}
+
+/** Awaited before each manifest, segment and key request the engine makes */
+export type BeforeRequest = (url: string) => Promise<void>;
+
+const HLS_CONTENT_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl', 'audio/x-mpegurl'];
+const DASH_CONTENT_TYPES = ['application/dash+xml'];
+const PROGRESSIVE_EXTENSIONS = ['.mp4', '.m4v', '.webm', '.mkv', '.mov', '.ogv'];
+
+function formatLevelLabel(height?: number, bitrate?: number): string {
+    if (height) return `${height}p`;
+    if (bitrate) return `${Math.round(bitrate / 1000)} kbps`;
+    return 'Unknown';
+}
+
+/**
+ * Maps a Content-Type header to a link type, null when it says nothing useful
+ */
+export function typeFromContentType(contentType?: string | null): ExtractorLinkType | null {
+    if (!contentType) return null;
+    const mime = contentType.split(';')[0].trim().toLowerCase();
+    if (HLS_CONTENT_TYPES.includes(mime)) return ExtractorLinkType.M3U8;
+    if (DASH_CONTENT_TYPES.includes(mime)) return ExtractorLinkType.DASH;
+    if (mime.startsWith('video/') || mime.startsWith('audio/')) return ExtractorLinkType.VIDEO;
+    return null;
+}
+
+/**
+ * Resolves which engine should play a URL
+ * The link type from the provider wins, then the URL extension, then a HEAD request for the content type
+ */
+export async function detectManifestType(url: string, hint?: string | null): Promise<ExtractorLinkType> {
+    if (hint === ExtractorLinkType.M3U8 || hint === ExtractorLinkType.DASH) return hint;
+
+    const inferred = inferTypeFromUrl(url);
+    if (inferred !== ExtractorLinkType.VIDEO) return inferred;
+
+    let path = url;
+    try {
+        path = new URL(url).pathname.toLowerCase();
+    } catch {
+        // Not an absolute URL, nothing to probe
+        return inferred;
+    }
+    if (PROGRESSIVE_EXTENSIONS.some(ext => path.endsWith(ext))) return inferred;
+
+    try {
+        const response = await fetch(url, { method: 'HEAD' });
+        return typeFromContentType(response.headers.get('content-type')) ?? inferred;
+    } catch {
+        return inferred;
+    }
+}
+
+/**
+ * Plain <video src> playback for progressive files and native HLS
+ */
+class NativeEngine implements StreamingEngine {
+    readonly type: ExtractorLinkType;
+    private video: HTMLVideoElement;
+
+    constructor(video: HTMLVideoElement, url: string, type: ExtractorLinkType) {
+        this.video = video;
+        this.type = type;
+        video.src = url;
+    }
+
+    getLevels(): QualityLevel[] {
+        return [];
+    }
+
+    getCurrentLevel(): number {
+        return -1;
+    }
+
+    setLevel(): void {
+        // Single variant
+    }
+
+    getAudioTracks(): AudioRendition[] {
+        return [];
+    }
+
+    getCurrentAudioTrack(): number {
+        return -1;
+    }
+
+    setAudioTrack(): void {
+        // Chromium doesn't expose HTMLMediaElement.audioTracks
+    }
+
+    onChange(): void {
+        // Nothing ever changes
+    }
+
+    onError(listener: (message: string) => void): void {
+        this.video.addEventListener('error', () => {
+            listener(this.video.error?.message || 'Failed to load video');
+        }, { once: true });
+    }
+
+    destroy(): void {
+        this.video.removeAttribute('src');
+        this.video.load();
+    }
+}
+
+class HlsEngine implements StreamingEngine {
+    readonly type = ExtractorLinkType.M3U8;
+    private hls: Hls;
+    private changeListeners: Array<() => void> = [];
+    private errorListeners: Array<(message: string) => void> = [];
+    private mediaErrorRecoveries = 0;
+
+    constructor(video: HTMLVideoElement, url: string, beforeRequest?: BeforeRequest) {
+        // hls.js waits for xhrSetup before sending, playlists, fragments and keys all go through it
+        this.hls = new Hls(beforeRequest ? { xhrSetup: (_xhr, requestUrl) => beforeRequest(requestUrl) } : {});
+
+        const notify = () => this.changeListeners.forEach(listener => listener());
+        this.hls.on(Hls.Events.MANIFEST_PARSED, notify);
+        this.hls.on(Hls.Events.LEVEL_SWITCHED, notify);
+        this.hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, notify);
+        this.hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, notify);
+        this.hls.on(Hls.Events.ERROR, (_event, data) => this.handleError(data));
+
+        this.hls.loadSource(url);
+        this.hls.attachMedia(video);
+    }
+
+    private handleError(data: ErrorData): void {
+        if (!data.fatal) return;
+
+        // Same recovery steps as the hls.js demo player, give up after repeated media errors
+        if (data.type === Hls.ErrorTypes.NETWORK_ERROR && data.details !== Hls.ErrorDetails.MANIFEST_LOAD_ERROR) {
+            this.hls.startLoad();
+            return;
+        }
+        if (data.type === Hls.ErrorTypes.MEDIA_ERROR && this.mediaErrorRecoveries < 2) {
+            this.mediaErrorRecoveries++;
+            this.hls.recoverMediaError();
+            return;
+        }
+
+        const message = data.error?.message || data.details;
+        this.errorListeners.forEach(listener => listener(message));
+        this.hls.destroy();
+    }
+
+    getLevels(): QualityLevel[] {
+        return this.hls.levels.map((level, index) => ({
+            index,
+            height: level.height || undefined,
+            bitrate: level.bitrate || undefined,
+            label: formatLevelLabel(level.height, level.bitrate),
+        }));
+    }
+
+    getCurrentLevel(): number {
+        return this.hls.autoLevelEnabled ? -1 : this.hls.currentLevel;
+    }
+
+    setLevel(index: number): void {
+        // currentLevel flushes the buffer so the switch is visible right away
+        this.hls.currentLevel = index;
+        this.changeListeners.forEach(listener => listener());
+    }
+
+    getAudioTracks(): AudioRendition[] {
+        return this.hls.audioTracks.map((track, index) => ({
+            index,
+            label: track.name || track.lang || `Track ${index + 1}`,
+            lang: track.lang,
+        }));
+    }
+
+    getCurrentAudioTrack(): number {
+        return this.hls.audioTrack;
+    }
+
+    setAudioTrack(index: number): void {
+        this.hls.audioTrack = index;
+    }
+
+    onChange(listener: () => void): void {
+        this.changeListeners.push(listener);
+    }
+
+    onError(listener: (message: string) => void): void {
+        this.errorListeners.push(listener);
+    }
+
+    destroy(): void {
+        this.changeListeners = [];
+        this.errorListeners = [];
+        this.hls.destroy();
+    }
+}
+
+class DashEngine implements StreamingEngine {
+    readonly type = ExtractorLinkType.DASH;
+    private player: MediaPlayerClass;
+    private autoLevel = true;
+    private changeListeners: Array<() => void> = [];
+
+    constructor(video: HTMLVideoElement, url: string, beforeRequest?: BeforeRequest) {
+        this.player = MediaPlayer().create();
+        if (beforeRequest) {
+            this.player.addRequestInterceptor(async (request) => {
+                await beforeRequest(request.url);
+                return request;
+            });
+        }
+
+        const notify = () => this.changeListeners.forEach(listener => listener());
+        this.player.on(MediaPlayer.events.STREAM_INITIALIZED, notify);
+        this.player.on(MediaPlayer.events.QUALITY_CHANGE_RENDERED, notify);
+        this.player.on(MediaPlayer.events.TRACK_CHANGE_RENDERED, notify);
+
+        this.player.initialize(video, url, false);
+    }
+
+    getLevels(): QualityLevel[] {
+        return this.player.getRepresentationsByType('video').map(representation => ({
+            index: representation.index,
+            height: representation.height || undefined,
+            bitrate: representation.bandwidth || undefined,
+            label: formatLevelLabel(representation.height, representation.bandwidth),
+        }));
+    }
+
+    getCurrentLevel(): number {
+        if (this.autoLevel) return -1;
+        return this.player.getCurrentRepresentationForType('video')?.index ?? -1;
+    }
+
+    setLevel(index: number): void {
+        this.autoLevel = index < 0;
+        this.player.updateSettings({
+            streaming: { abr: { autoSwitchBitrate: { video: this.autoLevel } } },
+        });
+        if (!this.autoLevel) {
+            this.player.setRepresentationForTypeByIndex('video', index, true);
+        }
+        this.changeListeners.forEach(listener => listener());
+    }
+
+    getAudioTracks(): AudioRendition[] {
+        return this.player.getTracksFor('audio').map((track, index) => ({
+            index,
+            label: track.labels[0]?.text || track.lang || `Track ${index + 1}`,
+            lang: track.lang ?? undefined,
+        }));
+    }
+
+    getCurrentAudioTrack(): number {
+        const current = this.player.getCurrentTrackFor('audio');
+        if (!current) return -1;
+        return this.player.getTracksFor('audio').findIndex(track => track.id === current.id && track.lang === current.lang);
+    }
+
+    setAudioTrack(index: number): void {
+        const track = this.player.getTracksFor('audio')[index];
+        if (track) {
+            this.player.setCurrentTrack(track);
+        }
+    }
+
+    onChange(listener: () => void): void {
+        this.changeListeners.push(listener);
+    }
+
+    onError(listener: (message: string) => void): void {
+        this.player.on(MediaPlayer.events.ERROR, (e) => {
+            const error = e.error as { message?: string } | undefined;
+            listener(error?.message || 'DASH playback error');
+        });
+    }
+
+    destroy(): void {
+        this.changeListeners = [];
+        this.player.reset();
+    }
+}
+
+/**
+ * Attaches a stream to the video element using the engine that can play it
+ * Chromium has no native HLS, so hls.js handles it wherever MediaSource exists
+ */
+export function attachStream(video: HTMLVideoElement, url: string, type: ExtractorLinkType, beforeRequest?: BeforeRequest): StreamingEngine {
+    if (type === ExtractorLinkType.M3U8) {
+        if (Hls.isSupported()) return new HlsEngine(video, url, beforeRequest);
+        return new NativeEngine(video, url, type);
+    }
+    if (type === ExtractorLinkType.DASH) {
+        return new DashEngine(video, url, beforeRequest);
+    }
+    return new NativeEngine(video, url, type);
+}
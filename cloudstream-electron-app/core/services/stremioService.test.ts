@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { stremioService, type StremioManifest, type StremioMeta, type StremioSubtitle } from './stremioService';
+import { TvType } from '../models/TvType';
+import manifestFixture from './__fixtures__/stremio/manifest.json';
+import movieFixture from './__fixtures__/stremio/meta-movie.json';
+import movieHoursFixture from './__fixtures__/stremio/meta-movie-hours.json';
+import seriesFixture from './__fixtures__/stremio/meta-series.json';
+import animeFixture from './__fixtures__/stremio/meta-anime.json';
+import channelFixture from './__fixtures__/stremio/meta-channel.json';
+import tvFixture from './__fixtures__/stremio/meta-tv.json';
+import subtitlesFixture from './__fixtures__/stremio/subtitles.json';
+
+const manifest: StremioManifest = manifestFixture;
+
+function load(fixture: { meta: StremioMeta }) {
+    return stremioService.convertMetaToLoadResponse(fixture.meta, manifest.id);
+}
+
+describe('getTvType', () => {
+    it('maps every content type of the manifest', () => {
+        expect(manifest.types?.map(type => stremioService.getTvType(type))).toEqual([
+            TvType.Movie,
+            TvType.TvSeries,
+            TvType.Anime,
+            TvType.Others,
+            TvType.Live,
+        ]);
+    });
+
+    it('falls back to Others for unknown types', () => {
+        expect(stremioService.getTvType('podcast')).toBe(TvType.Others);
+    });
+});
+
+describe('convertMetaToLoadResponse', () => {
+    it('converts a movie with its artwork, tags, actors and trailers', () => {
+        const response = load(movieFixture);
+        expect(response).toMatchObject({
+            name: 'The Matrix',
+            apiName: manifest.id,
+            type: TvType.Movie,
+            posterUrl: 'https://images.example.org/poster/tt0133093.jpg',
+            backgroundPosterUrl: 'https://images.example.org/background/tt0133093.jpg',
+            year: 1999,
+            plot: 'A hacker learns the world is a simulation.',
+            rating: 8.7,
+            duration: 136,
+            tags: ['Action', 'Sci-Fi'],
+            contentRating: 'R',
+            syncData: { imdb: 'tt0133093' },
+        });
+        expect(response.actors).toEqual([
+            { actor: { name: 'Keanu Reeves' } },
+            { actor: { name: 'Laurence Fishburne' } },
+            { actor: { name: 'Carrie-Anne Moss' } },
+        ]);
+        expect(response.trailers).toEqual([
+            { extractorUrl: 'https://www.youtube.com/watch?v=vKQi3bBA1y8', raw: false },
+            { extractorUrl: 'https://www.youtube.com/watch?v=m8e-FF8MsqU', raw: false },
+        ]);
+        expect('dataUrl' in response && response.dataUrl).toBe(response.url);
+        expect(stremioService.parseContentUrl(response.url)).toEqual({ type: 'movie', id: 'tt0133093' });
+    });
+
+    it('reads runtimes given in hours and minutes', () => {
+        expect(load(movieHoursFixture).duration).toBe(178);
+        expect(load({ meta: { ...movieHoursFixture.meta, runtime: '1h' } }).duration).toBe(60);
+        expect(load({ meta: { ...movieHoursFixture.meta, runtime: '95' } }).duration).toBe(95);
+        expect(load({ meta: { ...movieHoursFixture.meta, runtime: 'N/A' } }).duration).toBeUndefined();
+    });
+
+    it('converts series videos to episodes dated from released', () => {
+        const response = load(seriesFixture);
+        expect(response.type).toBe(TvType.TvSeries);
+        expect(response.year).toBe(2008);
+        expect(response.trailers).toEqual([]);
+        if (!('episodes' in response)) throw new Error('Expected a series response');
+
+        expect(response.episodes).toEqual([
+            {
+                data: stremioService.toContentUrl('series', 'tt0903747:1:1'),
+                name: 'Pilot',
+                season: 1,
+                episode: 1,
+                posterUrl: 'https://images.example.org/episode/tt0903747-1-1.jpg',
+                description: 'A chemistry teacher is diagnosed with cancer.',
+                date: Date.UTC(2008, 0, 20),
+            },
+            {
+                data: stremioService.toContentUrl('series', 'tt0903747:1:2'),
+                name: "Cat's in the Bag...",
+                season: 1,
+                episode: 2,
+                posterUrl: undefined,
+                description: undefined,
+                date: Date.UTC(2008, 0, 27),
+            },
+        ]);
+    });
+
+    it('converts anime with the imdb id of the meta', () => {
+        const response = load(animeFixture);
+        expect(response.type).toBe(TvType.Anime);
+        expect(response.syncData).toEqual({ imdb: 'tt0877057' });
+        expect(response.backgroundPosterUrl).toBe('https://images.example.org/background/kitsu-1376.jpg');
+        expect(response.tags).toEqual(['Mystery', 'Supernatural', 'Thriller']);
+        if (!('episodes' in response)) throw new Error('Expected a series response');
+        expect(response.episodes.map(episode => [episode.name, episode.episode, episode.date])).toEqual([
+            ['Rebirth', 1, Date.UTC(2006, 9, 3)],
+            ['Confrontation', 2, Date.UTC(2006, 9, 10)],
+        ]);
+    });
+
+    it('lists channel videos as numbered episodes', () => {
+        const response = load(channelFixture);
+        expect(response.type).toBe(TvType.Others);
+        expect(response.syncData).toEqual({});
+        expect(response.actors).toBeUndefined();
+        if (!('episodes' in response)) throw new Error('Expected a series response');
+        expect(response.episodes.map(episode => [episode.name, episode.episode, episode.date])).toEqual([
+            ['How do vaccines work?', 1, Date.UTC(2024, 1, 12, 15)],
+            ['The history of the world', 2, undefined],
+        ]);
+        expect(stremioService.parseContentUrl(response.episodes[0].data)).toEqual({
+            type: 'channel',
+            id: 'yt_id:UCsooa4yRKGN_zEE8iknghZA:Nv4Nk2kKtlM',
+        });
+    });
+
+    it('plays tv metas directly instead of listing their videos', () => {
+        const response = load(tvFixture);
+        expect(response.type).toBe(TvType.Live);
+        expect('episodes' in response).toBe(false);
+        expect('dataUrl' in response && response.dataUrl).toBe(stremioService.toContentUrl('tv', 'tv:news-24'));
+    });
+});
+
+describe('convertSubtitleToSubtitleFile', () => {
+    it('keeps the language and url', () => {
+        const subtitles: StremioSubtitle[] = subtitlesFixture.subtitles;
+        expect(subtitles.map(subtitle => stremioService.convertSubtitleToSubtitleFile(subtitle))).toEqual([
+            { lang: 'eng', url: 'https://subs.example.org/tt0133093/en.srt' },
+            { lang: 'fre', url: 'https://subs.example.org/tt0133093/fr.vtt' },
+        ]);
+    });
+});
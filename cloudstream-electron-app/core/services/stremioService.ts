@@ -10,10 +10,15 @@
  * - subtitles/{type}/{id}.json: Subtitle files
  */
 
-import type { SearchResponse } from '../models/SearchResponse';
-import type { LoadResponse } from '../models/LoadResponse';
+import type { SearchResponse, MovieSearchResponse, TvSeriesSearchResponse } from '../models/SearchResponse';
+import type { LoadResponse, MovieLoadResponse, TvSeriesLoadResponse, TrailerData, ActorData } from '../models/LoadResponse';
+import { TvType } from '../models/TvType';
 import type { Episode } from '../models/Episode';
 import type { SubtitleFile } from '../models/SubtitleFile';
+import { getStoreRecord, setStoreRecord, onDataStoreHydrated } from './dataStore';
+import { type ExtractorLink, ExtractorLinkType, Qualities, getQualityFromName, inferTypeFromUrl } from '../models/ExtractorLink';
+import type { SubtitleCallback, ExtractorLinkCallback } from '../api/MainAPI';
+import { extractorRegistry, loadExtractor } from '../extractors/ExtractorRegistry';
 
 /**
  * Stremio Manifest structure
@@ -32,8 +37,14 @@ export interface StremioManifest {
         name: string;
         extraSupported?: string[];
         extraRequired?: string[];
+        extra?: Array<{
+            name: string;
+            isRequired?: boolean;
+            options?: string[];
+        }>;
     }>;
-    resources?: Array<{
+    // Short form names a resource and uses the manifest's types and idPrefixes
+    resources?: Array<string | {
         name: string;
         types: string[];
         idPrefixes?: string[];
@@ -50,6 +61,13 @@ export interface StremioManifest {
     originalUrl?: string; // Original manifest URL
 }
 
+/**
+ * What an add-on can be asked for, each one can be turned off per add-on
+ */
+export type StremioResource = 'catalog' | 'meta' | 'stream' | 'subtitles';
+
+export const STREMIO_RESOURCES: StremioResource[] = ['catalog', 'meta', 'stream', 'subtitles'];
+
 /**
  * Stremio Meta (content metadata)
  */
@@ -78,14 +96,21 @@ export interface StremioMeta {
         title: string;
         ytId: string;
     }>;
-    videos?: Array<{
-        id: string;
-        title: string;
-        released: string;
-        season?: number;
-        episode?: number;
-        thumbnail?: string;
-    }>;
+    videos?: StremioVideo[];
+}
+
+/**
+ * Stremio Video (an episode of a series, anime or channel)
+ */
+export interface StremioVideo {
+    id: string;
+    title?: string;
+    name?: string; // Some add-ons use name instead of title
+    released?: string;
+    season?: number;
+    episode?: number;
+    thumbnail?: string;
+    overview?: string;
 }
 
 /**
@@ -95,6 +120,7 @@ export interface StremioStream {
     name?: string;
     title?: string;
     url: string;
+    externalUrl?: string; // A page to open instead of a playable URL
     description?: string;
     infoHash?: string;
     fileIdx?: number;
@@ -121,18 +147,30 @@ export interface StremioSubtitle {
     fps?: number;
 }
 
-const STORAGE_KEY = 'stremio-addons';
-const ADDON_ORDER_KEY = 'stremio-addon-order';
+type StremioConfigureResult =
+    | { success: true; url: string }
+    | { success: false; cancelled?: boolean; error?: string };
+
+interface StremioConfigureAPI {
+    configureStremioAddon(configurationUrl: string): Promise<StremioConfigureResult>;
+}
+
+function getElectronAPI(): Partial<StremioConfigureAPI> | undefined {
+    if (typeof window === 'undefined') return undefined;
+    return (window as unknown as { electronAPI?: Partial<StremioConfigureAPI> }).electronAPI;
+}
 
 class StremioService {
     private static instance: StremioService;
     private installedAddons: Map<string, StremioManifest> = new Map();
     private addonOrder: string[] = [];
+    // Resources the user turned off, by add-on id
+    private disabledResources: Record<string, StremioResource[]> = {};
     private readonly MAX_CONCURRENT_REQUESTS = 3;
     private readonly DEFAULT_PAGE_SIZE = 50;
 
     private constructor() {
-        this.loadInstalledAddons();
+        onDataStoreHydrated(() => this.loadInstalledAddons());
     }
 
     public static getInstance(): StremioService {
@@ -165,10 +203,12 @@ class StremioService {
 
     /**
      * Retry request with exponential backoff
+     * @param signal Stops retrying once aborted, the abort reason is thrown
      */
     private async retryRequest<T>(
         request: () => Promise<T>,
-        maxRetries: number = 3
+        maxRetries: number = 3,
+        signal?: AbortSignal
     ): Promise<T> {
         let lastError: Error | null = null;
         
@@ -176,6 +216,7 @@ class StremioService {
             try {
                 return await request();
             } catch (error) {
+                signal?.throwIfAborted();
                 lastError = error instanceof Error ? error : new Error(String(error));
                 if (attempt < maxRetries - 1) {
                     const delay = Math.pow(2, attempt) * 1000;
@@ -191,6 +232,8 @@ class StremioService {
      * Fetch manifest from URL
      */
     async getManifest(url: string): Promise<StremioManifest> {
+        // Install links from add-on websites use the stremio:// scheme
+        url = url.replace(/^stremio:\/\//i, 'https://');
         try {
             const manifestUrl = url.endsWith('manifest.json')
                 ? url
@@ -221,21 +264,106 @@ class StremioService {
 
     /**
      * Install an add-on
+     * Add-ons with behaviorHints.configurationRequired open their configuration page first
+     * and are installed from the URL it produces
+     * @throws Error when the manifest is invalid or configuration was cancelled
      */
     async installAddon(url: string): Promise<void> {
-        const manifest = await this.getManifest(url);
-        if (manifest && manifest.id) {
-            this.installedAddons.set(manifest.id, manifest);
-            
-            if (!this.addonOrder.includes(manifest.id)) {
-                this.addonOrder.push(manifest.id);
+        let manifest = await this.getManifest(url);
+        if (!manifest || !manifest.id) {
+            throw new Error('Invalid addon manifest');
+        }
+
+        if (manifest.behaviorHints?.configurationRequired) {
+            const configuredUrl = await this.openConfiguration(manifest);
+            if (!configuredUrl) {
+                throw new Error(`${manifest.name} has to be configured before it can be installed`);
             }
+            manifest = await this.getManifest(configuredUrl);
+            if (!manifest || !manifest.id) {
+                throw new Error('Invalid addon manifest');
+            }
+        }
 
-            this.saveInstalledAddons();
-            this.saveAddonOrder();
-        } else {
+        this.saveAddon(manifest);
+    }
+
+    /**
+     * Whether the add-on has a configuration page to open again
+     */
+    isConfigurable(manifest: StremioManifest): boolean {
+        return !!(manifest.behaviorHints?.configurable || manifest.behaviorHints?.configurationRequired);
+    }
+
+    /**
+     * Opens the configuration page of an installed add-on and re-installs it with the new settings
+     * It keeps its place in the add-on order, even when the configured manifest has another id
+     * @returns false if the page was closed without installing
+     */
+    async reconfigureAddon(id: string): Promise<boolean> {
+        const installed = this.installedAddons.get(id);
+        if (!installed) {
+            throw new Error(`Add-on ${id} is not installed`);
+        }
+
+        const configuredUrl = await this.openConfiguration(installed);
+        if (!configuredUrl) {
+            return false;
+        }
+        const manifest = await this.getManifest(configuredUrl);
+        if (!manifest || !manifest.id) {
             throw new Error('Invalid addon manifest');
         }
+
+        if (manifest.id !== id) {
+            this.installedAddons.delete(id);
+            this.addonOrder = this.addonOrder
+                .filter(addonId => addonId !== manifest.id)
+                .map(addonId => addonId === id ? manifest.id : addonId);
+        }
+        this.saveAddon(manifest);
+        return true;
+    }
+
+    /**
+     * Configuration page of an add-on, Stremio add-ons serve it at /configure unless the manifest says otherwise
+     */
+    getConfigurationUrl(manifest: StremioManifest): string {
+        if (manifest.behaviorHints?.configurationURL) {
+            return manifest.behaviorHints.configurationURL;
+        }
+        const { baseUrl, queryParams } = this.getAddonBaseURL(manifest.originalUrl || manifest.url || '');
+        return `${baseUrl}/configure${queryParams ? `?${queryParams}` : ''}`;
+    }
+
+    /**
+     * Shows the configuration page in a child window
+     * @returns The configured manifest URL, null if the user closed the window
+     */
+    private async openConfiguration(manifest: StremioManifest): Promise<string | null> {
+        const electronAPI = getElectronAPI();
+        if (!electronAPI?.configureStremioAddon) {
+            throw new Error(`Configuring ${manifest.name} needs the desktop app`);
+        }
+
+        const result = await electronAPI.configureStremioAddon(this.getConfigurationUrl(manifest));
+        if (result.success) {
+            return result.url;
+        }
+        if (result.cancelled) {
+            return null;
+        }
+        throw new Error(result.error || `Failed to configure ${manifest.name}`);
+    }
+
+    private saveAddon(manifest: StremioManifest): void {
+        this.installedAddons.set(manifest.id, manifest);
+        if (!this.addonOrder.includes(manifest.id)) {
+            this.addonOrder.push(manifest.id);
+        }
+
+        this.saveInstalledAddons();
+        this.saveAddonOrder();
     }
 
     /**
@@ -245,13 +373,15 @@ class StremioService {
         if (this.installedAddons.has(id)) {
             this.installedAddons.delete(id);
             this.addonOrder = this.addonOrder.filter(addonId => addonId !== id);
+            delete this.disabledResources[id];
             this.saveInstalledAddons();
             this.saveAddonOrder();
+            this.saveDisabledResources();
         }
     }
 
     /**
-     * Get all installed add-ons
+     * Get all installed add-ons, in the user's order
      */
     getInstalledAddons(): StremioManifest[] {
         return this.addonOrder
@@ -259,6 +389,70 @@ class StremioService {
             .map(id => this.installedAddons.get(id)!);
     }
 
+    /**
+     * Moves an add-on to a position in the order
+     * Earlier add-ons win for metadata and come first in streams, search and home rows
+     */
+    moveAddon(id: string, toIndex: number): void {
+        const order = this.getInstalledAddons().map(addon => addon.id);
+        const fromIndex = order.indexOf(id);
+        if (fromIndex === -1) return;
+
+        order.splice(fromIndex, 1);
+        order.splice(Math.max(0, Math.min(toIndex, order.length)), 0, id);
+        this.addonOrder = order;
+        this.saveAddonOrder();
+    }
+
+    /**
+     * Whether the manifest declares a resource, for a content type and id when given
+     */
+    supportsResource(addon: StremioManifest, resource: StremioResource, type?: string, id?: string): boolean {
+        // Catalogs are listed on their own, the resource entry is optional for them
+        if (resource === 'catalog' && (addon.catalogs?.length ?? 0) > 0) {
+            return !type || addon.catalogs!.some(catalog => catalog.type === type);
+        }
+
+        return (addon.resources ?? []).some(entry => {
+            const name = typeof entry === 'string' ? entry : entry.name;
+            if (name !== resource) return false;
+
+            const types = typeof entry === 'string' ? addon.types : entry.types;
+            const idPrefixes = typeof entry === 'string' ? addon.idPrefixes : entry.idPrefixes ?? addon.idPrefixes;
+            if (type && types && types.length > 0 && !types.includes(type)) return false;
+            if (id && idPrefixes && idPrefixes.length > 0 && !idPrefixes.some(prefix => id.startsWith(prefix))) return false;
+            return true;
+        });
+    }
+
+    isResourceEnabled(id: string, resource: StremioResource): boolean {
+        return !this.disabledResources[id]?.includes(resource);
+    }
+
+    setResourceEnabled(id: string, resource: StremioResource, enabled: boolean): void {
+        const disabled = (this.disabledResources[id] ?? []).filter(r => r !== resource);
+        if (!enabled) disabled.push(resource);
+
+        if (disabled.length > 0) {
+            this.disabledResources[id] = disabled;
+        } else {
+            delete this.disabledResources[id];
+        }
+        this.saveDisabledResources();
+    }
+
+    /**
+     * Add-ons to ask for a resource, in the user's order
+     * Skips add-ons that turned it off or don't serve the type or id
+     */
+    getResourceAddons(resource: StremioResource, type?: string, id?: string): StremioManifest[] {
+        return this.getInstalledAddons().filter(addon =>
+            !!addon.url
+            && this.isResourceEnabled(addon.id, resource)
+            && this.supportsResource(addon, resource, type, id)
+        );
+    }
+
     /**
      * Check if add-on is installed
      */
@@ -273,7 +467,8 @@ class StremioService {
         manifest: StremioManifest,
         type: string,
         id: string,
-        page: number = 1
+        page: number = 1,
+        signal?: AbortSignal
     ): Promise<StremioMeta[]> {
         if (!manifest.url) {
             throw new Error('Addon URL is missing');
@@ -296,17 +491,18 @@ class StremioService {
         for (const url of urls) {
             try {
                 const response = await this.retryRequest(async () => {
-                    const res = await fetch(url);
+                    const res = await fetch(url, { signal });
                     if (!res.ok) {
                         throw new Error(`HTTP ${res.status}: ${res.statusText}`);
                     }
                     return res.json();
-                });
+                }, 3, signal);
 
                 if (response?.metas && Array.isArray(response.metas)) {
                     return response.metas;
                 }
             } catch (error) {
+                signal?.throwIfAborted();
                 console.warn(`Failed to fetch catalog from ${url}:`, error);
                 continue;
             }
@@ -316,23 +512,10 @@ class StremioService {
     }
 
     /**
-     * Get meta details
+     * Get meta details from the first add-on in the user's order that has them
      */
-    async getMetaDetails(type: string, id: string, preferredAddonId?: string): Promise<StremioMeta | null> {
-        const addons = this.getInstalledAddons();
-        const addonsToTry = preferredAddonId
-            ? [addons.find(a => a.id === preferredAddonId), ...addons.filter(a => a.id !== preferredAddonId)]
-            : addons;
-
-        for (const addon of addonsToTry.filter(Boolean) as StremioManifest[]) {
-            if (!addon.resources) continue;
-
-            const hasMetaSupport = addon.resources.some(
-                r => r.name === 'meta' && (r.types?.includes(type) || !r.types || r.types.length === 0)
-            );
-
-            if (!hasMetaSupport) continue;
-
+    async getMetaDetails(type: string, id: string): Promise<StremioMeta | null> {
+        for (const addon of this.getResourceAddons('meta', type, id)) {
             try {
                 const { baseUrl, queryParams } = this.getAddonBaseURL(addon.url || '');
                 const encodedId = encodeURIComponent(id);
@@ -361,66 +544,46 @@ class StremioService {
     }
 
     /**
-     * Get streams for content
+     * Get add-ons that serve streams for a content type, in the user's order
      */
-    async getStreams(type: string, id: string): Promise<StremioStream[]> {
-        const addons = this.getInstalledAddons();
-        const allStreams: StremioStream[] = [];
-
-        for (const addon of addons) {
-            if (!addon.resources || !addon.url) continue;
-
-            const hasStreamSupport = addon.resources.some(
-                r => r.name === 'stream' && (r.types?.includes(type) || !r.types || r.types.length === 0)
-            );
-
-            if (!hasStreamSupport) continue;
-
-            try {
-                const { baseUrl, queryParams } = this.getAddonBaseURL(addon.url);
-                const encodedId = encodeURIComponent(id);
-                const url = queryParams
-                    ? `${baseUrl}/stream/${type}/${encodedId}.json?${queryParams}`
-                    : `${baseUrl}/stream/${type}/${encodedId}.json`;
+    getStreamAddons(type: string, id?: string): StremioManifest[] {
+        return this.getResourceAddons('stream', type, id);
+    }
 
-                const response = await this.retryRequest(async () => {
-                    const res = await fetch(url);
-                    if (!res.ok) {
-                        throw new Error(`HTTP ${res.status}: ${res.statusText}`);
-                    }
-                    return res.json();
-                });
+    /**
+     * Get streams for content from a single add-on
+     */
+    async getAddonStreams(addon: StremioManifest, type: string, id: string): Promise<StremioStream[]> {
+        if (!addon.url) {
+            throw new Error('Addon URL is missing');
+        }
 
-                if (response?.streams && Array.isArray(response.streams)) {
-                    allStreams.push(...response.streams);
-                }
-            } catch (error) {
-                console.warn(`Failed to fetch streams from ${addon.name}:`, error);
-                continue;
+        const { baseUrl, queryParams } = this.getAddonBaseURL(addon.url);
+        const encodedId = encodeURIComponent(id);
+        const url = queryParams
+            ? `${baseUrl}/stream/${type}/${encodedId}.json?${queryParams}`
+            : `${baseUrl}/stream/${type}/${encodedId}.json`;
+
+        const response = await this.retryRequest(async () => {
+            const res = await fetch(url);
+            if (!res.ok) {
+                throw new Error(`HTTP ${res.status}: ${res.statusText}`);
             }
-        }
+            return res.json();
+        });
 
-        return allStreams;
+        return response?.streams && Array.isArray(response.streams) ? response.streams : [];
     }
 
     /**
-     * Get subtitles for content
+     * Get subtitles for content from every subtitle add-on that has the resource turned on
      */
     async getSubtitles(type: string, id: string): Promise<StremioSubtitle[]> {
-        const addons = this.getInstalledAddons();
         const allSubtitles: StremioSubtitle[] = [];
 
-        for (const addon of addons) {
-            if (!addon.resources || !addon.url) continue;
-
-            const hasSubtitleSupport = addon.resources.some(
-                r => r.name === 'subtitles' && (r.types?.includes(type) || !r.types || r.types.length === 0)
-            );
-
-            if (!hasSubtitleSupport) continue;
-
+        for (const addon of this.getResourceAddons('subtitles', type, id)) {
             try {
-                const { baseUrl, queryParams } = this.getAddonBaseURL(addon.url);
+                const { baseUrl, queryParams } = this.getAddonBaseURL(addon.url!);
                 const encodedId = encodeURIComponent(id);
                 const url = queryParams
                     ? `${baseUrl}/subtitles/${type}/${encodedId}.json?${queryParams}`
@@ -447,114 +610,366 @@ class StremioService {
     }
 
     /**
-     * Search across all add-ons (via catalogs)
+     * Run tasks with at most MAX_CONCURRENT_REQUESTS in flight, results keep the task order
+     */
+    private async runConcurrently<T>(tasks: Array<() => Promise<T>>): Promise<T[]> {
+        const results: T[] = new Array(tasks.length);
+        let next = 0;
+
+        const worker = async () => {
+            while (next < tasks.length) {
+                const index = next++;
+                results[index] = await tasks[index]();
+            }
+        };
+
+        await Promise.all(
+            Array.from({ length: Math.min(this.MAX_CONCURRENT_REQUESTS, tasks.length) }, worker)
+        );
+        return results;
+    }
+
+    /**
+     * Catalogs of an add-on that accept the search extra
+     */
+    private getSearchCatalogs(addon: StremioManifest): NonNullable<StremioManifest['catalogs']> {
+        return (addon.catalogs ?? []).filter(catalog =>
+            catalog.extraSupported?.includes('search') ||
+            catalog.extraRequired?.includes('search') ||
+            catalog.extra?.some(extra => extra.name === 'search')
+        );
+    }
+
+    /**
+     * Search a single catalog through its search extra
+     */
+    async searchCatalog(manifest: StremioManifest, type: string, id: string, query: string, signal?: AbortSignal): Promise<StremioMeta[]> {
+        if (!manifest.url) {
+            throw new Error('Addon URL is missing');
+        }
+
+        const { baseUrl, queryParams } = this.getAddonBaseURL(manifest.url);
+        const url = `${baseUrl}/catalog/${type}/${encodeURIComponent(id)}/search=${encodeURIComponent(query)}.json${queryParams ? `?${queryParams}` : ''}`;
+
+        const response = await this.retryRequest(async () => {
+            const res = await fetch(url, { signal });
+            if (!res.ok) {
+                throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+            }
+            return res.json();
+        }, 1, signal);
+
+        return Array.isArray(response?.metas) ? response.metas : [];
+    }
+
+    /**
+     * Search the catalogs of a single add-on that support the search extra
+     * Only when no add-on supports search are they searched by filtering their first catalog,
+     * an add-on without search otherwise finds nothing
+     * @param signal Aborts the catalog requests, the abort reason is thrown
+     */
+    async searchAddon(addon: StremioManifest, query: string, signal?: AbortSignal): Promise<SearchResponse[]> {
+        if (this.getSearchCatalogs(addon).length === 0) {
+            const anySearchable = this.getResourceAddons('catalog').some(other => this.getSearchCatalogs(other).length > 0);
+            if (anySearchable) return [];
+            return (await this.searchByFiltering([addon], query, signal))[addon.id] ?? [];
+        }
+
+        const tasks = this.getSearchCatalogs(addon).map(catalog => async () => {
+            signal?.throwIfAborted();
+            try {
+                return await this.searchCatalog(addon, catalog.type, catalog.id, query, signal);
+            } catch (error) {
+                signal?.throwIfAborted();
+                console.warn(`Failed to search ${catalog.id} in ${addon.name}:`, error);
+                return [];
+            }
+        });
+
+        const seen = new Set<string>();
+        return (await this.runConcurrently(tasks))
+            .flat()
+            .filter(meta => {
+                const key = `${meta.type}:${meta.id}`;
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })
+            .map(meta => this.convertMetaToSearchResponse(meta, addon.id));
+    }
+
+    /**
+     * Client-side search through the first catalog of each add-on, keyed by add-on id
      */
-    async search(query: string): Promise<SearchResponse[]> {
-        const addons = this.getInstalledAddons();
-        const results: SearchResponse[] = [];
+    private async searchByFiltering(addons: StremioManifest[], query: string, signal?: AbortSignal): Promise<Record<string, SearchResponse[]>> {
+        const results: Record<string, SearchResponse[]> = {};
+        const lowerQuery = query.toLowerCase();
 
-        // Search through catalogs (limited - Stremio doesn't have a direct search API)
-        // We'll need to fetch catalogs and filter client-side
-        // This is a simplified implementation
         for (const addon of addons) {
             if (!addon.catalogs || addon.catalogs.length === 0) continue;
 
             try {
-                // Get first catalog as example
                 const catalog = addon.catalogs[0];
-                const catalogItems = await this.getCatalog(addon, catalog.type, catalog.id, 1);
-                
-                // Filter by query (client-side search)
+                const catalogItems = await this.getCatalog(addon, catalog.type, catalog.id, 1, signal);
+
                 const matching = catalogItems
-                    .filter(item => 
-                        item.name.toLowerCase().includes(query.toLowerCase()) ||
-                        item.description?.toLowerCase().includes(query.toLowerCase())
+                    .filter(item =>
+                        item.name.toLowerCase().includes(lowerQuery) ||
+                        item.description?.toLowerCase().includes(lowerQuery)
                     )
                     .slice(0, 10) // Limit results per addon
                     .map(item => this.convertMetaToSearchResponse(item, addon.id));
 
-                results.push(...matching);
+                if (matching.length > 0) {
+                    results[addon.id] = matching;
+                }
             } catch (error) {
+                signal?.throwIfAborted();
                 console.warn(`Failed to search in ${addon.name}:`, error);
-                continue;
             }
         }
 
         return results;
     }
 
+    /**
+     * Encode a Stremio type and id into the url / data string of a Cloudstream response
+     * Stream and meta requests need both, the id alone doesn't say which type to ask for
+     */
+    toContentUrl(type: string, id: string): string {
+        return JSON.stringify({ type, id });
+    }
+
+    /**
+     * Decode a string made by toContentUrl, null when it isn't one
+     */
+    parseContentUrl(url: string): { type: string; id: string } | null {
+        try {
+            const parsed = JSON.parse(url);
+            if (typeof parsed?.type === 'string' && typeof parsed?.id === 'string') {
+                return { type: parsed.type, id: parsed.id };
+            }
+        } catch {
+            // Not an encoded content url
+        }
+        return null;
+    }
+
+    /**
+     * Map a Stremio content type to a TvType
+     */
+    getTvType(type: string): TvType {
+        switch (type) {
+            case 'movie':
+                return TvType.Movie;
+            case 'series':
+                return TvType.TvSeries;
+            case 'anime':
+                return TvType.Anime;
+            case 'tv':
+                return TvType.Live;
+            case 'channel': // YouTube style channels, their videos are listed as episodes
+                return TvType.Others;
+            default:
+                return TvType.Others;
+        }
+    }
+
+    /**
+     * Year from meta.year or the start of releaseInfo ("2019", "2019-2023")
+     */
+    private getMetaYear(meta: StremioMeta): number | undefined {
+        if (typeof meta.year === 'number') return meta.year;
+        const match = meta.releaseInfo?.match(/\d{4}/);
+        return match ? parseInt(match[0], 10) : undefined;
+    }
+
+    /**
+     * Parse a release date into a Unix timestamp in milliseconds
+     */
+    private parseReleased(released?: string): number | undefined {
+        if (!released) return undefined;
+        const time = Date.parse(released);
+        return Number.isNaN(time) ? undefined : time;
+    }
+
+    /**
+     * Parse a runtime like "136 min", "2h 15min" or "1h" into minutes, a bare number is minutes
+     */
+    private parseRuntime(runtime?: string): number | undefined {
+        if (!runtime) return undefined;
+        const hours = runtime.match(/(\d+)\s*h/i);
+        const minutes = runtime.match(/(\d+)\s*m/i);
+        if (hours || minutes) {
+            return Number(hours?.[1] ?? 0) * 60 + Number(minutes?.[1] ?? 0);
+        }
+        const bare = runtime.match(/^\s*(\d+)\s*$/);
+        return bare ? Number(bare[1]) : undefined;
+    }
+
     /**
      * Convert Stremio Meta to Cloudstream SearchResponse
      */
-    private convertMetaToSearchResponse(meta: StremioMeta, addonId: string): SearchResponse {
+    convertMetaToSearchResponse(meta: StremioMeta, addonId: string): MovieSearchResponse | TvSeriesSearchResponse {
+        const imdbId = this.getImdbId(meta);
         return {
             name: meta.name,
-            url: meta.id,
+            url: this.toContentUrl(meta.type, meta.id),
             apiName: addonId,
-            type: meta.type === 'movie' ? 'Movie' : meta.type === 'series' ? 'TvSeries' : 'TvSeries',
+            type: this.getTvType(meta.type),
             posterUrl: meta.poster,
-            year: meta.year,
-            plot: meta.description,
-            score: meta.imdbRating ? parseFloat(meta.imdbRating) : undefined
+            year: this.getMetaYear(meta),
+            syncData: imdbId ? { imdb: imdbId } : undefined,
         };
     }
 
     /**
-     * Convert Stremio Meta to Cloudstream LoadResponse
+     * IMDb id of a meta, Cinemeta style ids are IMDb ids
      */
-    async convertMetaToLoadResponse(meta: StremioMeta, addonId: string): Promise<LoadResponse | null> {
-        // Get episodes if it's a series
-        const episodes: Episode[] = [];
-        
-        if (meta.type === 'series' && meta.videos) {
-            for (const video of meta.videos) {
-                episodes.push({
-                    name: video.title || `Episode ${video.episode || ''}`,
-                    url: video.id,
-                    season: video.season || 1,
-                    episode: video.episode || 1,
-                    description: undefined
-                });
-            }
-        }
+    private getImdbId(meta: StremioMeta): string | undefined {
+        return meta.imdb_id ?? (meta.id.startsWith('tt') ? meta.id.split(':')[0] : undefined);
+    }
 
+    /**
+     * Convert a Stremio video to a Cloudstream Episode, data holds the video id used for stream requests
+     */
+    private convertVideoToEpisode(video: StremioVideo, type: string, index: number): Episode {
         return {
+            data: this.toContentUrl(type, video.id),
+            name: video.title || video.name,
+            season: video.season,
+            episode: video.episode ?? index + 1,
+            posterUrl: video.thumbnail,
+            description: video.overview,
+            date: this.parseReleased(video.released),
+        };
+    }
+
+    /**
+     * Convert Stremio Meta to Cloudstream LoadResponse
+     * Metas with videos become a TvSeriesLoadResponse, everything else a MovieLoadResponse
+     */
+    convertMetaToLoadResponse(meta: StremioMeta, addonId: string): TvSeriesLoadResponse | MovieLoadResponse {
+        const imdbId = this.getImdbId(meta);
+        const rating = meta.imdbRating ? parseFloat(meta.imdbRating) : NaN;
+
+        const base: LoadResponse = {
             name: meta.name,
-            url: meta.id,
+            url: this.toContentUrl(meta.type, meta.id),
             apiName: addonId,
-            type: meta.type === 'movie' ? 'Movie' : 'TvSeries',
+            type: this.getTvType(meta.type),
             posterUrl: meta.poster,
-            backgroundUrl: meta.background,
-            year: meta.year,
+            backgroundPosterUrl: meta.background,
+            year: this.getMetaYear(meta),
             plot: meta.description,
-            score: meta.imdbRating ? parseFloat(meta.imdbRating) : undefined,
-            episodes: episodes.length > 0 ? episodes : undefined,
-            actors: meta.cast?.map(name => ({ name, imageUrl: undefined })),
-            genres: meta.genres
+            rating: Number.isNaN(rating) ? undefined : rating,
+            tags: meta.genres,
+            duration: this.parseRuntime(meta.runtime),
+            trailers: (meta.trailerStreams ?? []).map((trailer): TrailerData => ({
+                extractorUrl: `https://www.youtube.com/watch?v=${trailer.ytId}`,
+                raw: false,
+            })),
+            actors: meta.cast?.map((name): ActorData => ({ actor: { name } })),
+            comingSoon: false,
+            syncData: imdbId ? { imdb: imdbId } : {},
+            contentRating: meta.certification,
         };
+
+        const videos = meta.videos ?? [];
+        if (videos.length > 0 && base.type !== TvType.Movie && base.type !== TvType.Live) {
+            return {
+                ...base,
+                episodes: videos.map((video, index) => this.convertVideoToEpisode(video, meta.type, index)),
+            };
+        }
+
+        return { ...base, dataUrl: base.url };
     }
 
     /**
-     * Convert Stremio Stream to Cloudstream format
+     * Convert Stremio Stream to a MovieLoadResponse that plays the stream directly
      */
-    convertStreamToLoadResponse(stream: StremioStream, addonId: string): LoadResponse {
+    convertStreamToLoadResponse(stream: StremioStream, addonId: string, type: string = 'movie'): MovieLoadResponse {
         return {
             name: stream.name || stream.title || 'Stream',
             url: stream.url,
             apiName: addonId,
-            type: 'Movie', // Default, should be determined from context
-            episodes: undefined
+            type: this.getTvType(type),
+            trailers: [],
+            comingSoon: false,
+            syncData: {},
+            dataUrl: stream.url,
+        };
+    }
+
+    /**
+     * Convert Stremio Stream to a playable ExtractorLink
+     * Returns null for streams without a url or info hash
+     */
+    convertStreamToExtractorLink(stream: StremioStream, addon: StremioManifest): ExtractorLink | null {
+        let url = typeof stream.url === 'string' ? stream.url : '';
+        if (!url && stream.infoHash) {
+            const title = encodeURIComponent(stream.title || stream.name || 'Unknown');
+            url = `magnet:?xt=urn:btih:${stream.infoHash}&dn=${title}`;
+        }
+        if (!url) return null;
+
+        const label = [stream.name, stream.title, stream.description].filter(Boolean).join(' ');
+        const qualityMatch = label.match(/\b(2160p|4k|1440p|1080p|720p|480p|360p|240p|144p)\b/i);
+        const headers: Record<string, string> | undefined = stream.behaviorHints?.proxyHeaders?.request;
+
+        return {
+            source: addon.name,
+            name: (stream.title || stream.name || 'Stream').split('\n')[0],
+            url,
+            referer: headers?.Referer ?? headers?.referer ?? '',
+            quality: qualityMatch ? getQualityFromName(qualityMatch[1]) : Qualities.Unknown,
+            headers,
+            type: stream.infoHash && !stream.url ? ExtractorLinkType.MAGNET : inferTypeFromUrl(url),
         };
     }
 
+    /**
+     * Emits the links for a stream, embed pages on a known video host are resolved by their extractor
+     */
+    async resolveStreamLinks(
+        stream: StremioStream,
+        addon: StremioManifest,
+        subtitleCallback: SubtitleCallback,
+        linkCallback: ExtractorLinkCallback
+    ): Promise<void> {
+        const embedUrl = stream.externalUrl || stream.url;
+        if (embedUrl && extractorRegistry.findExtractor(embedUrl)) {
+            const headers: Record<string, string> | undefined = stream.behaviorHints?.proxyHeaders?.request;
+            await loadExtractor(embedUrl, headers?.Referer ?? headers?.referer, subtitleCallback, linkCallback);
+            return;
+        }
+
+        const link = this.convertStreamToExtractorLink(stream, addon);
+        if (link) linkCallback(link);
+    }
+
+    /**
+     * Size of a stream in bytes, from behaviorHints or the title text
+     */
+    getStreamSize(stream: StremioStream): number | undefined {
+        const size = stream.behaviorHints?.videoSize ?? stream.size;
+        if (typeof size === 'number' && size > 0) return size;
+
+        const label = [stream.title, stream.description].filter(Boolean).join(' ');
+        const match = label.match(/(\d+(?:\.\d+)?)\s*(TB|GB|MB)\b/i);
+        if (!match) return undefined;
+        const units: Record<string, number> = { MB: 1024 ** 2, GB: 1024 ** 3, TB: 1024 ** 4 };
+        return parseFloat(match[1]) * units[match[2].toUpperCase()];
+    }
+
     /**
      * Convert Stremio Subtitle to Cloudstream SubtitleFile
      */
     convertSubtitleToSubtitleFile(subtitle: StremioSubtitle): SubtitleFile {
         return {
+            lang: subtitle.lang,
             url: subtitle.url,
-            language: subtitle.lang,
-            format: 'vtt' // Default, could be determined from URL
         };
     }
 
@@ -562,43 +977,30 @@ class StremioService {
      * Load installed add-ons from storage
      */
     private loadInstalledAddons(): void {
-        try {
-            const stored = localStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const data = JSON.parse(stored);
-                this.installedAddons = new Map(Object.entries(data));
-            }
-
-            const orderStored = localStorage.getItem(ADDON_ORDER_KEY);
-            if (orderStored) {
-                this.addonOrder = JSON.parse(orderStored);
-            }
-        } catch (error) {
-            console.error('Failed to load installed addons:', error);
-        }
+        this.installedAddons = new Map(Object.entries(getStoreRecord('stremioAddons') ?? {}));
+        this.addonOrder = [...(getStoreRecord('stremioAddonOrder') ?? [])];
+        this.disabledResources = { ...(getStoreRecord('stremioDisabledResources') ?? {}) };
     }
 
     /**
      * Save installed add-ons to storage
      */
     private saveInstalledAddons(): void {
-        try {
-            const data = Object.fromEntries(this.installedAddons);
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-        } catch (error) {
-            console.error('Failed to save installed addons:', error);
-        }
+        setStoreRecord('stremioAddons', Object.fromEntries(this.installedAddons));
     }
 
     /**
      * Save add-on order to storage
      */
     private saveAddonOrder(): void {
-        try {
-            localStorage.setItem(ADDON_ORDER_KEY, JSON.stringify(this.addonOrder));
-        } catch (error) {
-            console.error('Failed to save addon order:', error);
-        }
+        setStoreRecord('stremioAddonOrder', this.addonOrder);
+    }
+
+    /**
+     * Save turned off resources to storage
+     */
+    private saveDisabledResources(): void {
+        setStoreRecord('stremioDisabledResources', this.disabledResources);
     }
 }
 
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { detectSubtitleFormat } from './subtitleParser';
+
+const SRT = '1\n00:00:01,000 --> 00:00:03,500\nHello\n';
+const VTT = 'WEBVTT\n\n00:00:01.000 --> 00:00:03.500\nHello\n';
+const ASS = '[Script Info]\nTitle: Example\nScriptType: v4.00+\n\n[Events]\nFormat: Layer, Start, End, Style, Text\n';
+
+describe('detectSubtitleFormat', () => {
+    it('sniffs the content before looking at the URL', () => {
+        expect(detectSubtitleFormat(VTT, 'https://assets.cdn.example/subs/1')).toBe('vtt');
+        expect(detectSubtitleFormat(VTT, 'https://subs.example/x.srt.php?fmt=vtt')).toBe('vtt');
+        expect(detectSubtitleFormat(SRT, 'https://subs.example/movie.vtt')).toBe('srt');
+        expect(detectSubtitleFormat(ASS, 'https://subs.example/movie.srt')).toBe('ass');
+    });
+
+    it('reads WebVTT behind a byte order mark and headerless WebVTT timings', () => {
+        expect(detectSubtitleFormat(`\uFEFF${VTT}`)).toBe('vtt');
+        expect(detectSubtitleFormat('00:01.000 --> 00:03.500\nHello\n')).toBe('vtt');
+    });
+
+    it('falls back to the extension of the URL path', () => {
+        expect(detectSubtitleFormat('', 'https://assets.cdn.example/subs/movie.ass?token=1')).toBe('ass');
+        expect(detectSubtitleFormat('', 'https://subs.example/movie.ssa')).toBe('ass');
+        expect(detectSubtitleFormat('', 'https://subs.example/movie.vtt#t=1')).toBe('vtt');
+        expect(detectSubtitleFormat('', 'https://assets.cdn.example/x.srt.php?fmt=vtt')).toBe('srt');
+    });
+
+    it('defaults to SRT', () => {
+        expect(detectSubtitleFormat('')).toBe('srt');
+    });
+});
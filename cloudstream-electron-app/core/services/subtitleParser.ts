@@ -0,0 +1,511 @@
+// Subtitle parser - ported from Nuvio's player/utils/subtitleParser.ts with ASS/SSA support added
+// Chromium's <track> only understands WebVTT, so every format is parsed to cues and converted back
+import type { SubtitleCue, SubtitleFormat, SubtitlePosition, SubtitleSegment } from '../models/SubtitleCue';
+
+type Alignment = NonNullable<SubtitlePosition['align']>;
+type VerticalPosition = NonNullable<SubtitlePosition['vertical']>;
+
+/**
+ * Extension of a subtitle URL's path, query strings and hosts like "assets.cdn" don't count
+ */
+function getUrlExtension(url: string): string | undefined {
+    let path: string;
+    try {
+        path = new URL(url).pathname;
+    } catch {
+        path = url.split(/[?#]/)[0];
+    }
+    return path.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+}
+
+/**
+ * Detect subtitle format from the content, then from the URL path's extension
+ */
+export function detectSubtitleFormat(content: string, url?: string): SubtitleFormat {
+    const trimmed = content.replace(/^\uFEFF/, '').trim();
+    if (/^WEBVTT/.test(trimmed)) return 'vtt';
+    if (/^\[Script Info\]/i.test(trimmed) || /^\[Events\]/im.test(trimmed)) return 'ass';
+
+    // The first cue's timing line, SRT uses a comma before the milliseconds and WebVTT a dot
+    const head = trimmed.substring(0, 500);
+    if (/\d{1,2}:\d{2}:\d{2},\d{3}\s*-->\s*\d{1,2}:\d{2}:\d{2},\d{3}/.test(head)) return 'srt';
+    if (/(?:\d{2}:)?\d{2}:\d{2}\.\d{3}\s+-->\s+(?:\d{2}:)?\d{2}:\d{2}\.\d{3}/.test(head)) return 'vtt';
+
+    const extension = url ? getUrlExtension(url) : undefined;
+    if (extension === 'vtt') return 'vtt';
+    if (extension === 'ass' || extension === 'ssa') return 'ass';
+
+    // Default to SRT, it's what most providers serve
+    return 'srt';
+}
+
+function toSeconds(hours: string | undefined, minutes: string, seconds: string, fraction: string): number {
+    // ASS uses centiseconds, SRT and VTT milliseconds
+    const fractionSeconds = parseInt(fraction, 10) / 10 ** fraction.length;
+    return parseInt(hours ?? '0', 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + fractionSeconds;
+}
+
+/**
+ * Position from a numpad style alignment (used by both {\anN} and ASS styles)
+ * 7=top-left, 8=top, 9=top-right
+ * 4=left, 5=center, 6=right
+ * 1=bottom-left, 2=bottom, 3=bottom-right
+ */
+function positionFromNumpad(value: number): SubtitlePosition | undefined {
+    if (value < 1 || value > 9 || value === 2) return undefined; // 2 is the default placement
+
+    const column = (value - 1) % 3;
+    const align: Alignment = column === 0 ? 'left' : column === 1 ? 'center' : 'right';
+    const vertical: VerticalPosition = value <= 3 ? 'bottom' : value <= 6 ? 'middle' : 'top';
+    return { align, vertical };
+}
+
+/**
+ * Parse SRT position tags {\an1}-{\an9}
+ */
+function parseSRTPositionTag(text: string): SubtitlePosition | undefined {
+    const match = text.match(/\{\\an([1-9])\}/i);
+    if (!match) return undefined;
+    return positionFromNumpad(parseInt(match[1], 10));
+}
+
+/**
+ * Parse HTML attributes like: color="#FF0000"
+ */
+function parseAttributes(attrString: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const colorMatch = attrString.match(/color=["']?([^"'\s>]+)["']?/i);
+    if (colorMatch) {
+        attrs.color = colorMatch[1];
+    }
+    return attrs;
+}
+
+/**
+ * Get segment properties from tag stack
+ */
+function getSegmentProps(tagStack: Array<{ tag: string; color?: string }>): Partial<SubtitleSegment> {
+    const props: Partial<SubtitleSegment> = {};
+
+    tagStack.forEach(tag => {
+        if (tag.tag === 'i') props.italic = true;
+        if (tag.tag === 'b') props.bold = true;
+        if (tag.tag === 'u') props.underline = true;
+        if (tag.tag === 'font' && tag.color) props.color = tag.color;
+    });
+
+    return props;
+}
+
+/**
+ * Parse HTML-style formatting tags (<i>, <b>, <u>, <font color>) into segments
+ */
+function parseSubtitleFormatting(text: string): SubtitleSegment[] {
+    const segments: SubtitleSegment[] = [];
+    const tagStack: Array<{ tag: string; color?: string }> = [];
+    const regex = /<(i|b|u|font)(\s+[^>]*)?>|<\/(i|b|u|font)>/gi;
+
+    // Position tags are handled separately
+    const cleanText = text.replace(/\{\\an[1-9]\}/gi, '');
+
+    const pushText = (value: string) => {
+        // Drop anything we don't render, like VTT voice spans and karaoke timestamps
+        const plain = value.replace(/<[^>]+>/g, '');
+        if (plain) {
+            segments.push({ text: plain, ...getSegmentProps(tagStack) });
+        }
+    };
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(cleanText)) !== null) {
+        pushText(cleanText.substring(lastIndex, match.index));
+
+        if (match[3]) {
+            // Closing tag, drop the innermost matching opener
+            const tagName = match[3].toLowerCase();
+            const index = tagStack.map(t => t.tag).lastIndexOf(tagName);
+            if (index >= 0) tagStack.splice(index, 1);
+        } else {
+            const tagName = match[1].toLowerCase();
+            const attrs = match[2] ? parseAttributes(match[2]) : {};
+            tagStack.push({ tag: tagName, color: attrs.color });
+        }
+
+        lastIndex = match.index + match[0].length;
+    }
+    pushText(cleanText.substring(lastIndex));
+
+    return segments;
+}
+
+/**
+ * Builds a cue from its raw text, shared by the SRT and VTT parsers
+ */
+function buildCue(start: number, end: number, rawText: string, position?: SubtitlePosition): SubtitleCue {
+    const formattedSegments = parseSubtitleFormatting(rawText);
+    const plainText = formattedSegments.map(s => s.text).join('') || rawText;
+
+    return {
+        start,
+        end,
+        text: plainText,
+        rawText,
+        formattedSegments: formattedSegments.length > 0 ? formattedSegments : undefined,
+        position,
+    };
+}
+
+function normalizeLineEndings(content: string): string {
+    return content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+}
+
+/**
+ * Parse SRT format with formatting support
+ */
+export function parseSRT(content: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    if (!content || content.trim().length === 0) return cues;
+
+    const blocks = normalizeLineEndings(content).trim().split(/\n\s*\n/).filter(block => block.trim().length > 0);
+
+    for (const block of blocks) {
+        const lines = block.trim().split('\n').map(line => line.trim()).filter(line => line.length > 0);
+        if (lines.length < 2) continue;
+
+        // The index line is optional in the wild, so look for the timestamp in the first lines
+        let timeLineIndex = -1;
+        let timeMatch: RegExpMatchArray | null = null;
+        for (let j = 0; j < Math.min(3, lines.length); j++) {
+            timeMatch = lines[j].match(/(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})/);
+            if (timeMatch) {
+                timeLineIndex = j;
+                break;
+            }
+        }
+        if (!timeMatch || timeLineIndex === -1) continue;
+
+        const textLines = lines.slice(timeLineIndex + 1);
+        if (textLines.length === 0) continue;
+
+        const rawText = textLines.join('\n');
+        cues.push(buildCue(
+            toSeconds(timeMatch[1], timeMatch[2], timeMatch[3], timeMatch[4]),
+            toSeconds(timeMatch[5], timeMatch[6], timeMatch[7], timeMatch[8]),
+            rawText,
+            parseSRTPositionTag(rawText)
+        ));
+    }
+
+    return cues;
+}
+
+/**
+ * Parse WebVTT cue settings into a position
+ */
+function parseVTTSettings(settings: string): SubtitlePosition | undefined {
+    const position: SubtitlePosition = {};
+
+    const align = settings.match(/align:(start|left|center|middle|end|right)/);
+    if (align) {
+        if (align[1] === 'start' || align[1] === 'left') position.align = 'left';
+        if (align[1] === 'end' || align[1] === 'right') position.align = 'right';
+    }
+
+    const line = settings.match(/line:(-?\d+(?:\.\d+)?)(%?)/);
+    if (line) {
+        const value = parseFloat(line[1]);
+        const isTop = line[2] === '%' ? value < 30 : value >= 0 && value < 4;
+        if (isTop) position.vertical = 'top';
+        else if (line[2] === '%' && value < 70) position.vertical = 'middle';
+    }
+
+    return position.align || position.vertical ? position : undefined;
+}
+
+/**
+ * Parse WebVTT format
+ */
+export function parseWebVTT(content: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    if (!content || content.trim().length === 0) return cues;
+
+    const blocks = normalizeLineEndings(content).split(/\n\s*\n/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+        if (lines.length === 0) continue;
+
+        // Header, comments and style blocks carry no cues
+        if (lines[0].startsWith('WEBVTT') || lines[0].startsWith('NOTE') || lines[0] === 'STYLE' || lines[0] === 'REGION') {
+            continue;
+        }
+
+        // Cue identifiers are optional
+        const timeLineIndex = lines.findIndex(line => line.includes('-->'));
+        if (timeLineIndex === -1 || timeLineIndex > 1) continue;
+
+        const timeMatch = lines[timeLineIndex].match(
+            /(?:(\d{1,2}):)?(\d{2}):(\d{2})\.(\d{3})\s+-->\s+(?:(\d{1,2}):)?(\d{2}):(\d{2})\.(\d{3})(.*)$/
+        );
+        if (!timeMatch) continue;
+
+        const textLines = lines.slice(timeLineIndex + 1);
+        if (textLines.length === 0) continue;
+
+        cues.push(buildCue(
+            toSeconds(timeMatch[1], timeMatch[2], timeMatch[3], timeMatch[4]),
+            toSeconds(timeMatch[5], timeMatch[6], timeMatch[7], timeMatch[8]),
+            textLines.join('\n'),
+            parseVTTSettings(timeMatch[9] ?? '')
+        ));
+    }
+
+    return cues;
+}
+
+interface AssStyle {
+    italic: boolean;
+    bold: boolean;
+    underline: boolean;
+    color?: string;
+    fontName?: string;
+    alignment: number; // Numpad style
+}
+
+/**
+ * Converts an ASS color (&HAABBGGRR or &HBBGGRR&) to a CSS hex color
+ */
+function parseAssColor(value: string): string | undefined {
+    const match = value.match(/&H([0-9a-f]{1,8})/i);
+    if (!match) return undefined;
+    const hex = match[1].padStart(8, '0').slice(-6);
+    const [b, g, r] = [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)];
+    return `#${r}${g}${b}`.toUpperCase();
+}
+
+/**
+ * SSA v4 uses a legacy alignment scheme: 1-3 bottom, 9-11 middle, 5-7 top
+ */
+function legacyAlignmentToNumpad(value: number): number {
+    if (value >= 9) return value - 5;
+    if (value >= 5) return value + 2;
+    return value;
+}
+
+function isAssTrue(value: string | undefined): boolean {
+    return value !== undefined && value.trim() !== '0' && value.trim() !== '';
+}
+
+/**
+ * Splits a "Key: a,b,c" line into its fields, the last field keeps any extra commas
+ */
+function splitAssFields(line: string, count: number): string[] {
+    const body = line.substring(line.indexOf(':') + 1);
+    const fields: string[] = [];
+    let rest = body;
+    for (let i = 0; i < count - 1; i++) {
+        const comma = rest.indexOf(',');
+        if (comma === -1) break;
+        fields.push(rest.substring(0, comma).trim());
+        rest = rest.substring(comma + 1);
+    }
+    fields.push(count > 1 ? rest : rest.trim());
+    return fields;
+}
+
+/**
+ * Splits ASS dialogue text on override blocks ({\i1}, {\c&H...&}, ...) into segments
+ */
+function parseAssText(text: string, style: AssStyle): { segments: SubtitleSegment[]; alignment: number } {
+    const segments: SubtitleSegment[] = [];
+    const state: SubtitleSegment = {
+        text: '',
+        italic: style.italic || undefined,
+        bold: style.bold || undefined,
+        underline: style.underline || undefined,
+        color: style.color,
+        fontName: style.fontName,
+    };
+    let alignment = style.alignment;
+
+    const pushText = (value: string) => {
+        const plain = value.replace(/\\N/g, '\n').replace(/\\n/g, '\n').replace(/\\h/g, ' ');
+        if (plain) {
+            segments.push({ ...state, text: plain });
+        }
+    };
+
+    const regex = /\{([^}]*)\}/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        pushText(text.substring(lastIndex, match.index));
+        lastIndex = match.index + match[0].length;
+
+        for (const tag of match[1].split('\\').slice(1)) {
+            let tagMatch: RegExpMatchArray | null;
+            if ((tagMatch = tag.match(/^i(\d)$/))) state.italic = tagMatch[1] !== '0' || undefined;
+            else if ((tagMatch = tag.match(/^b(\d+)$/))) state.bold = tagMatch[1] !== '0' || undefined;
+            else if ((tagMatch = tag.match(/^u(\d)$/))) state.underline = tagMatch[1] !== '0' || undefined;
+            else if ((tagMatch = tag.match(/^1?c(&H[0-9a-f]+&?)$/i))) state.color = parseAssColor(tagMatch[1]);
+            else if ((tagMatch = tag.match(/^fn(.+)$/))) state.fontName = tagMatch[1];
+            else if ((tagMatch = tag.match(/^an([1-9])$/))) alignment = parseInt(tagMatch[1], 10);
+            else if ((tagMatch = tag.match(/^a(\d+)$/))) alignment = legacyAlignmentToNumpad(parseInt(tagMatch[1], 10));
+            else if (tag === 'r') {
+                state.italic = style.italic || undefined;
+                state.bold = style.bold || undefined;
+                state.underline = style.underline || undefined;
+                state.color = style.color;
+                state.fontName = style.fontName;
+            }
+        }
+    }
+    pushText(text.substring(lastIndex));
+
+    return { segments, alignment };
+}
+
+/**
+ * Parse ASS/SSA format, keeping basic styling (italic, bold, underline, color, alignment)
+ * Karaoke, transforms and drawing commands are dropped
+ */
+export function parseASS(content: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    if (!content || content.trim().length === 0) return cues;
+
+    const styles = new Map<string, AssStyle>();
+    const defaultStyle: AssStyle = { italic: false, bold: false, underline: false, alignment: 2 };
+    let section = '';
+    let legacy = false;
+    let styleFormat: string[] = [];
+    let eventFormat: string[] = [];
+
+    for (const rawLine of normalizeLineEndings(content).split('\n')) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith(';')) continue;
+
+        const sectionMatch = line.match(/^\[(.+)\]$/);
+        if (sectionMatch) {
+            section = sectionMatch[1].toLowerCase();
+            legacy = section === 'v4 styles';
+            continue;
+        }
+
+        if (section === 'v4 styles' || section === 'v4+ styles') {
+            if (line.startsWith('Format:')) {
+                styleFormat = splitAssFields(line, Infinity).map(field => field.trim().toLowerCase());
+            } else if (line.startsWith('Style:') && styleFormat.length > 0) {
+                const fields = splitAssFields(line, styleFormat.length);
+                const get = (name: string) => fields[styleFormat.indexOf(name)];
+                const alignment = parseInt(get('alignment') ?? '2', 10) || 2;
+                styles.set(get('name') ?? 'Default', {
+                    italic: isAssTrue(get('italic')),
+                    bold: isAssTrue(get('bold')),
+                    underline: isAssTrue(get('underline')),
+                    color: get('primarycolour') ? parseAssColor(get('primarycolour')) : undefined,
+                    fontName: get('fontname'),
+                    alignment: legacy ? legacyAlignmentToNumpad(alignment) : alignment,
+                });
+            }
+            continue;
+        }
+
+        if (section !== 'events') continue;
+
+        if (line.startsWith('Format:')) {
+            eventFormat = splitAssFields(line, Infinity).map(field => field.trim().toLowerCase());
+            continue;
+        }
+        if (!line.startsWith('Dialogue:')) continue;
+
+        const format = eventFormat.length > 0
+            ? eventFormat
+            : ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+        const fields = splitAssFields(line, format.length);
+        const get = (name: string) => fields[format.indexOf(name)];
+
+        const startMatch = get('start')?.match(/(\d+):(\d{2}):(\d{2})[.,](\d{1,3})/);
+        const endMatch = get('end')?.match(/(\d+):(\d{2}):(\d{2})[.,](\d{1,3})/);
+        const rawText = get('text');
+        if (!startMatch || !endMatch || rawText === undefined) continue;
+
+        const styleName = (get('style') ?? '').replace(/^\*/, '');
+        const style = styles.get(styleName) ?? styles.get('Default') ?? defaultStyle;
+        const { segments, alignment } = parseAssText(rawText, style);
+        const plainText = segments.map(s => s.text).join('');
+        if (!plainText.trim()) continue;
+
+        cues.push({
+            start: toSeconds(startMatch[1], startMatch[2], startMatch[3], startMatch[4]),
+            end: toSeconds(endMatch[1], endMatch[2], endMatch[3], endMatch[4]),
+            text: plainText,
+            rawText,
+            formattedSegments: segments,
+            position: positionFromNumpad(alignment),
+        });
+    }
+
+    // Events aren't required to be in order, and the overlay expects them sorted
+    return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Auto-detect format and parse subtitle content
+ */
+export function parseSubtitle(content: string, url?: string): SubtitleCue[] {
+    switch (detectSubtitleFormat(content, url)) {
+        case 'vtt':
+            return parseWebVTT(content);
+        case 'ass':
+            return parseASS(content);
+        case 'srt':
+        default:
+            return parseSRT(content);
+    }
+}
+
+function formatVTTTimestamp(seconds: number): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const h = Math.floor(totalMs / 3600000);
+    const m = Math.floor((totalMs % 3600000) / 60000);
+    const s = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+}
+
+function escapeVTT(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/-->/g, '--&gt;');
+}
+
+/**
+ * Serializes cues to WebVTT, keeping italic/bold/underline and position
+ * Colors need CSS and are left to the custom overlay
+ */
+export function cuesToWebVTT(cues: SubtitleCue[]): string {
+    const blocks = cues.map((cue, index) => {
+        const settings: string[] = [];
+        if (cue.position?.align === 'left') settings.push('align:start');
+        if (cue.position?.align === 'right') settings.push('align:end');
+        if (cue.position?.vertical === 'top') settings.push('line:0');
+        if (cue.position?.vertical === 'middle') settings.push('line:50%');
+
+        const body = (cue.formattedSegments ?? [{ text: cue.text }])
+            .map(segment => {
+                let text = escapeVTT(segment.text);
+                if (segment.underline) text = `<u>${text}</u>`;
+                if (segment.bold) text = `<b>${text}</b>`;
+                if (segment.italic) text = `<i>${text}</i>`;
+                return text;
+            })
+            .join('')
+            // A blank line would end the cue early
+            .replace(/\n{2,}/g, '\n')
+            .trim();
+
+        const timing = `${formatVTTTimestamp(cue.start)} --> ${formatVTTTimestamp(cue.end)}`;
+        return `${index + 1}\n${settings.length > 0 ? `${timing} ${settings.join(' ')}` : timing}\n${body}`;
+    });
+
+    return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,42 @@
+// Subtitle loading service - fetches a SubtitleFile and turns it into something the player can show
+import type { SubtitleFile } from '../models/SubtitleFile';
+import type { SubtitleCue } from '../models/SubtitleCue';
+import { parseSubtitle } from './subtitleParser';
+import { registerSubtitleHeaders } from './requestHeaders';
+
+// Headers Chromium refuses to set from fetch(), these go through the main process rule instead
+const FORBIDDEN_FETCH_HEADERS = ['referer', 'origin', 'user-agent', 'cookie', 'host'];
+
+/**
+ * Decodes subtitle bytes, falling back to Windows-1252 for the many non UTF-8 SRT files
+ */
+function decodeSubtitle(buffer: ArrayBuffer): string {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return new TextDecoder('windows-1252').decode(buffer);
+    }
+}
+
+/**
+ * Downloads a subtitle file with its headers and parses it into cues
+ */
+export async function fetchSubtitleCues(subtitle: SubtitleFile, signal?: AbortSignal): Promise<SubtitleCue[]> {
+    await registerSubtitleHeaders([subtitle]);
+
+    const headers = Object.fromEntries(
+        Object.entries(subtitle.headers ?? {}).filter(([name]) => !FORBIDDEN_FETCH_HEADERS.includes(name.toLowerCase()))
+    );
+
+    const response = await fetch(subtitle.url, { headers, signal });
+    if (!response.ok) {
+        throw new Error(`Failed to download subtitles: HTTP ${response.status}`);
+    }
+
+    const content = decodeSubtitle(await response.arrayBuffer());
+    const cues = parseSubtitle(content, subtitle.url);
+    if (cues.length === 0) {
+        throw new Error('Subtitle file has no cues');
+    }
+    return cues;
+}
@@ -0,0 +1,92 @@
+// Service for subtitle appearance and per-title sync offsets
+// Mirrors the Android app's subtitle style settings
+
+export interface SubtitleSettings {
+    fontScale: number; // Percent of the default size
+    color: string; // CSS color
+    outline: boolean;
+    outlineColor: string;
+    background: boolean; // Box behind each line
+    backgroundOpacity: number; // 0 - 1
+    bottomOffset: number; // Percent of the player height kept below bottom cues
+}
+
+export const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = {
+    fontScale: 100,
+    color: '#FFFFFF',
+    outline: true,
+    outlineColor: '#000000',
+    background: false,
+    backgroundOpacity: 0.5,
+    bottomOffset: 8,
+};
+
+export const SUBTITLE_DELAY_STEP_MS = 100;
+
+const SETTINGS_STORAGE_KEY = 'cloudstream_subtitle_settings';
+const DELAY_STORAGE_KEY = 'cloudstream_subtitle_delays';
+
+/**
+ * Get subtitle settings, filling in defaults for anything missing
+ */
+export function getSubtitleSettings(): SubtitleSettings {
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_SUBTITLE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SUBTITLE_SETTINGS;
+    } catch (error) {
+        console.error('Failed to get subtitle settings:', error);
+        return DEFAULT_SUBTITLE_SETTINGS;
+    }
+}
+
+/**
+ * Save subtitle settings
+ */
+export function saveSubtitleSettings(settings: SubtitleSettings): void {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Failed to save subtitle settings:', error);
+    }
+}
+
+function getAllSubtitleDelays(): Record<string, number> {
+    try {
+        const stored = localStorage.getItem(DELAY_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.error('Failed to get subtitle delays:', error);
+        return {};
+    }
+}
+
+/**
+ * Get the subtitle delay for a title in milliseconds, positive shows subtitles later
+ */
+export function getSubtitleDelay(title: string): number {
+    return getAllSubtitleDelays()[title] ?? 0;
+}
+
+/**
+ * Save the subtitle delay for a title, a zero delay is removed
+ */
+export function saveSubtitleDelay(title: string, delayMs: number): void {
+    try {
+        const allDelays = getAllSubtitleDelays();
+        if (delayMs === 0) {
+            delete allDelays[title];
+        } else {
+            allDelays[title] = delayMs;
+        }
+        localStorage.setItem(DELAY_STORAGE_KEY, JSON.stringify(allDelays));
+    } catch (error) {
+        console.error('Failed to save subtitle delay:', error);
+    }
+}
+
+/**
+ * Display label for a delay, e.g. "+200 ms"
+ */
+export function formatSubtitleDelay(delayMs: number): string {
+    return `${delayMs > 0 ? '+' : ''}${delayMs} ms`;
+}
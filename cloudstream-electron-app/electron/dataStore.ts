@@ -0,0 +1,211 @@
+import { app, ipcMain } from 'electron';
+import path from 'path';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+/**
+ * Versioned on-disk store for app data, kept under userData/data
+ * Records are small JSON values (one file each) the renderer caches in memory,
+ * blobs are large strings like plugin code that are read on demand
+ */
+const STORE_DIR = path.join(app.getPath('userData'), 'data');
+const BLOBS_DIR = path.join(STORE_DIR, 'blobs');
+const META_FILE = path.join(STORE_DIR, 'meta.json');
+const STORE_VERSION = 1;
+
+interface StoreMeta {
+    version: number;
+    legacyImported: boolean; // localStorage data was copied over once
+}
+
+interface StoreSnapshot {
+    version: number;
+    legacyImported: boolean;
+    records: Record<string, unknown>;
+}
+
+/**
+ * Upgrades the records written by the previous store version
+ */
+interface StoreMigration {
+    version: number;
+    migrate(records: Record<string, unknown>): Record<string, unknown>;
+}
+
+// Version 1 is the first on-disk layout, later versions append their migration here
+const MIGRATIONS: StoreMigration[] = [];
+
+const RECORD_KEY_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+let meta: StoreMeta = { version: STORE_VERSION, legacyImported: false };
+
+/**
+ * Writes through a temp file and a rename so a crash never leaves half a file behind
+ */
+function writeFileAtomic(filePath: string, data: string) {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+        fs.writeSync(fd, data);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+}
+
+function getRecordPath(key: string): string {
+    if (!RECORD_KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid store key: ${key}`);
+    }
+    return path.join(STORE_DIR, `${key}.json`);
+}
+
+/**
+ * Blob keys contain URLs, hash them into safe file names
+ */
+function getBlobPath(key: string): string {
+    return path.join(BLOBS_DIR, createHash('sha1').update(key).digest('hex'));
+}
+
+function readRecords(): Record<string, unknown> {
+    const records: Record<string, unknown> = {};
+    for (const file of fs.readdirSync(STORE_DIR)) {
+        if (!file.endsWith('.json') || file === 'meta.json') continue;
+
+        const filePath = path.join(STORE_DIR, file);
+        try {
+            records[file.slice(0, -'.json'.length)] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        } catch (error) {
+            // Keep the broken file around for inspection instead of overwriting it on the next save
+            console.error(`Failed to read store record ${file}, moving it aside:`, error);
+            fs.renameSync(filePath, `${filePath}.corrupt`);
+        }
+    }
+    return records;
+}
+
+function writeRecord(key: string, value: unknown) {
+    writeFileAtomic(getRecordPath(key), JSON.stringify(value));
+}
+
+function writeMeta() {
+    writeFileAtomic(META_FILE, JSON.stringify(meta));
+}
+
+/**
+ * Brings records written by an older version up to STORE_VERSION
+ */
+function runMigrations() {
+    if (meta.version > STORE_VERSION) {
+        console.warn(`Data store version ${meta.version} is newer than this app (${STORE_VERSION}), leaving it as is`);
+        return;
+    }
+
+    const pending = MIGRATIONS.filter(migration => migration.version > meta.version)
+        .sort((a, b) => a.version - b.version);
+    if (pending.length === 0) return;
+
+    let records = readRecords();
+    for (const migration of pending) {
+        console.log(`Migrating data store to version ${migration.version}`);
+        records = migration.migrate(records);
+        for (const [key, value] of Object.entries(records)) {
+            writeRecord(key, value);
+        }
+        meta.version = migration.version;
+        writeMeta();
+    }
+}
+
+/**
+ * Creates the store directories and upgrades existing data
+ * Call once the app is ready, before the renderer asks for data
+ */
+export function initDataStore() {
+    fs.mkdirSync(BLOBS_DIR, { recursive: true });
+
+    if (fs.existsSync(META_FILE)) {
+        try {
+            meta = { ...meta, ...JSON.parse(fs.readFileSync(META_FILE, 'utf-8')) };
+        } catch (error) {
+            console.error('Failed to read data store metadata:', error);
+        }
+        runMigrations();
+    } else {
+        writeMeta();
+    }
+}
+
+function getSnapshot(): StoreSnapshot {
+    return { version: meta.version, legacyImported: meta.legacyImported, records: readRecords() };
+}
+
+/**
+ * IPC handlers for the data store
+ */
+ipcMain.handle('get-store-data', () => getSnapshot());
+
+ipcMain.handle('set-store-record', (event, key: string, value: unknown) => {
+    try {
+        writeRecord(key, value);
+        return { success: true };
+    } catch (error) {
+        console.error(`Failed to save store record ${key}:`, error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+});
+
+ipcMain.handle('delete-store-record', (event, key: string) => {
+    try {
+        fs.rmSync(getRecordPath(key), { force: true });
+        return { success: true };
+    } catch (error) {
+        console.error(`Failed to delete store record ${key}:`, error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+});
+
+ipcMain.handle('read-store-blob', (event, key: string) => {
+    const blobPath = getBlobPath(key);
+    return fs.existsSync(blobPath) ? fs.readFileSync(blobPath, 'utf-8') : null;
+});
+
+ipcMain.handle('write-store-blob', (event, key: string, value: string) => {
+    try {
+        writeFileAtomic(getBlobPath(key), value);
+        return { success: true };
+    } catch (error) {
+        console.error(`Failed to save store blob ${key}:`, error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+});
+
+ipcMain.handle('delete-store-blob', (event, key: string) => {
+    fs.rmSync(getBlobPath(key), { force: true });
+    return { success: true };
+});
+
+/**
+ * One-time import of data the renderer kept in localStorage
+ * Records already on disk win, the import is marked done so it never runs again
+ */
+ipcMain.handle('import-legacy-store-data', (event, records: Record<string, unknown>, blobs: Record<string, string>) => {
+    try {
+        if (!meta.legacyImported) {
+            const existing = readRecords();
+            for (const [key, value] of Object.entries(records)) {
+                if (!(key in existing)) writeRecord(key, value);
+            }
+            for (const [key, value] of Object.entries(blobs)) {
+                if (!fs.existsSync(getBlobPath(key))) writeFileAtomic(getBlobPath(key), value);
+            }
+            meta.legacyImported = true;
+            writeMeta();
+        }
+        return { success: true, snapshot: getSnapshot() };
+    } catch (error) {
+        console.error('Failed to import localStorage data:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+});
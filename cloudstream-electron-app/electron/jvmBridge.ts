@@ -0,0 +1,280 @@
+import { app, BrowserWindow, ipcMain } from 'electron';
+import path from 'path';
+import * as fs from 'fs';
+import * as net from 'net';
+import { spawn, ChildProcess } from 'child_process';
+
+/**
+ * JVM bridge lifecycle, the bridge runs Kotlin (DEX) plugins in a java process
+ * It gets a free port on every start, is health checked while running and restarted
+ * with backoff after it crashes. The renderer follows along through 'jvm-bridge-state'
+ */
+export type JvmBridgeStatus =
+    | 'stopped'
+    | 'unavailable' // No bridge JAR or no Java, nothing to restart
+    | 'starting'
+    | 'running'
+    | 'restarting' // Crashed, waiting for the next attempt
+    | 'failed'; // Gave up after MAX_RESTARTS crashes in a row
+
+export interface JvmBridgeState {
+    status: JvmBridgeStatus;
+    port: number | null;
+    jarPath: string | null;
+    javaPath: string | null;
+    error?: string;
+    restarts: number;
+    nextRestartAt?: number; // Epoch ms
+}
+
+const JAR_NAME = 'jvm-bridge-1.0.0.jar';
+const STARTUP_TIMEOUT_MS = 60_000;
+const STARTUP_POLL_MS = 500;
+const HEALTH_INTERVAL_MS = 10_000;
+const HEALTH_TIMEOUT_MS = 3_000;
+// Consecutive failed health checks before a hung bridge is killed
+const MAX_HEALTH_FAILURES = 3;
+const RESTART_BASE_DELAY_MS = 1_000;
+const RESTART_MAX_DELAY_MS = 60_000;
+const MAX_RESTARTS = 6;
+// Running this long counts as recovered, the next crash starts the backoff over
+const STABLE_AFTER_MS = 60_000;
+
+let state: JvmBridgeState = { status: 'stopped', port: null, jarPath: null, javaPath: null, restarts: 0 };
+let bridgeProcess: ChildProcess | null = null;
+let healthTimer: ReturnType<typeof setInterval> | null = null;
+let restartTimer: ReturnType<typeof setTimeout> | null = null;
+let stableTimer: ReturnType<typeof setTimeout> | null = null;
+let stopping = false;
+// Bumped by stopJvmBridge so a launch still waiting for its port gives up
+let generation = 0;
+
+function setState(update: Partial<JvmBridgeState>) {
+    state = { ...state, ...update };
+    for (const window of BrowserWindow.getAllWindows()) {
+        if (!window.isDestroyed()) window.webContents.send('jvm-bridge-state', state);
+    }
+}
+
+function findBridgeJar(): { jarPath: string | null; searched: string[] } {
+    const searched = [
+        path.join(process.resourcesPath ?? '', 'jvm-bridge', JAR_NAME),
+        path.join(__dirname, '../../jvm-bridge/build/libs', JAR_NAME),
+        path.join(__dirname, '../jvm-bridge/build/libs', JAR_NAME),
+        path.join(process.cwd(), 'jvm-bridge/build/libs', JAR_NAME),
+        path.join(app.getAppPath(), 'jvm-bridge/build/libs', JAR_NAME),
+    ];
+    return { jarPath: searched.find(candidate => fs.existsSync(candidate)) ?? null, searched };
+}
+
+/**
+ * The java executable to run the bridge with, in order:
+ * CLOUDSTREAM_JAVA_HOME, a JRE bundled with the app, JAVA_HOME, then java on the PATH
+ */
+function findJava(): string {
+    const executable = process.platform === 'win32' ? 'java.exe' : 'java';
+    const homes = [
+        process.env.CLOUDSTREAM_JAVA_HOME,
+        process.resourcesPath ? path.join(process.resourcesPath, 'jre') : undefined,
+        path.join(app.getAppPath(), 'jre'),
+        process.env.JAVA_HOME,
+    ];
+    for (const home of homes) {
+        if (!home) continue;
+        const javaPath = path.join(home, 'bin', executable);
+        if (fs.existsSync(javaPath)) return javaPath;
+    }
+    return executable;
+}
+
+/**
+ * Asks the OS for a free loopback port, so a second app instance or another program can't collide with the bridge
+ */
+function findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.unref();
+        server.on('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+async function isHealthy(port: number): Promise<boolean> {
+    try {
+        const response = await fetch(`http://127.0.0.1:${port}/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+        return response.ok;
+    } catch {
+        return false;
+    }
+}
+
+function clearTimers() {
+    if (healthTimer) clearInterval(healthTimer);
+    if (restartTimer) clearTimeout(restartTimer);
+    if (stableTimer) clearTimeout(stableTimer);
+    healthTimer = null;
+    restartTimer = null;
+    stableTimer = null;
+}
+
+/**
+ * Waits for the first successful health check, then keeps checking
+ * A bridge that stops answering is killed, which restarts it through the exit handler
+ */
+async function monitor(child: ChildProcess, port: number) {
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    while (!(await isHealthy(port))) {
+        if (child !== bridgeProcess) return;
+        if (Date.now() > deadline) {
+            console.error(`JVM bridge did not respond within ${STARTUP_TIMEOUT_MS / 1000}s`);
+            child.kill();
+            return;
+        }
+        await new Promise(resolve => setTimeout(resolve, STARTUP_POLL_MS));
+    }
+    if (child !== bridgeProcess) return;
+
+    console.log('JVM bridge is running on port', port);
+    setState({ status: 'running', error: undefined, nextRestartAt: undefined });
+    stableTimer = setTimeout(() => setState({ restarts: 0 }), STABLE_AFTER_MS);
+
+    let failures = 0;
+    healthTimer = setInterval(async () => {
+        if (await isHealthy(port)) {
+            failures = 0;
+            return;
+        }
+        failures++;
+        console.warn(`JVM bridge health check failed (${failures}/${MAX_HEALTH_FAILURES})`);
+        if (failures >= MAX_HEALTH_FAILURES && child === bridgeProcess) {
+            child.kill();
+        }
+    }, HEALTH_INTERVAL_MS);
+}
+
+function scheduleRestart(error: string) {
+    clearTimers();
+    if (state.restarts >= MAX_RESTARTS) {
+        console.error(`JVM bridge crashed ${state.restarts} times in a row, not restarting`);
+        setState({ status: 'failed', port: null, error, nextRestartAt: undefined });
+        return;
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** state.restarts, RESTART_MAX_DELAY_MS);
+    console.warn(`Restarting JVM bridge in ${delay}ms`);
+    setState({ status: 'restarting', port: null, error, restarts: state.restarts + 1, nextRestartAt: Date.now() + delay });
+    restartTimer = setTimeout(() => {
+        restartTimer = null;
+        launch();
+    }, delay);
+}
+
+async function launch() {
+    const launchGeneration = generation;
+    const { jarPath, searched } = findBridgeJar();
+    if (!jarPath) {
+        console.warn('JVM bridge JAR not found. Plugins will not work until bridge is built.');
+        console.warn('To build the bridge, run: cd jvm-bridge && ./gradlew build');
+        console.warn('Searched locations:');
+        searched.forEach(p => console.warn(`  - ${p}`));
+        setState({ status: 'unavailable', port: null, jarPath: null, error: 'The JVM bridge has not been built' });
+        return;
+    }
+
+    const javaPath = findJava();
+    let port: number;
+    try {
+        port = await findFreePort();
+    } catch (error) {
+        scheduleRestart(`No free port for the JVM bridge: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+    if (stopping || launchGeneration !== generation) return;
+
+    console.log(`Starting JVM bridge from: ${jarPath} with ${javaPath}`);
+    setState({ status: 'starting', port, jarPath, javaPath, error: undefined });
+
+    const child = spawn(javaPath, ['-jar', jarPath, String(port)], {
+        cwd: path.dirname(jarPath),
+        stdio: ['ignore', 'pipe', 'pipe'],
+        windowsHide: true,
+    });
+    bridgeProcess = child;
+
+    child.stdout?.on('data', (data) => {
+        console.log(`[JVM Bridge] ${data}`);
+    });
+
+    child.stderr?.on('data', (data) => {
+        console.error(`[JVM Bridge Error] ${data}`);
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+        if (child !== bridgeProcess) return;
+        bridgeProcess = null;
+        clearTimers();
+        if (error.code === 'ENOENT') {
+            // Retrying won't make Java appear
+            setState({
+                status: 'unavailable',
+                port: null,
+                error: `Java was not found (${javaPath}), install a JRE or set JAVA_HOME`,
+            });
+        } else {
+            scheduleRestart(error.message);
+        }
+    });
+
+    child.on('exit', (code, signal) => {
+        if (child !== bridgeProcess) return;
+        bridgeProcess = null;
+        console.log(`JVM bridge exited with code ${code}`);
+        if (stopping) {
+            clearTimers();
+            setState({ status: 'stopped', port: null });
+            return;
+        }
+        scheduleRestart(`The JVM bridge exited unexpectedly (${signal ?? `code ${code}`})`);
+    });
+
+    monitor(child, port);
+}
+
+/**
+ * Starts the bridge if it isn't running
+ */
+export function startJvmBridge() {
+    if (bridgeProcess || restartTimer) return;
+    stopping = false;
+    launch().catch(error => {
+        console.error('Failed to start JVM bridge:', error);
+        setState({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+    });
+}
+
+export function stopJvmBridge() {
+    stopping = true;
+    generation++;
+    clearTimers();
+    if (bridgeProcess) {
+        bridgeProcess.kill();
+        console.log('JVM bridge stopped');
+    }
+    bridgeProcess = null;
+    setState({ status: 'stopped', port: null, nextRestartAt: undefined });
+}
+
+ipcMain.handle('jvm-bridge-get-state', () => state);
+
+/**
+ * Manual restart, also clears the crash count after the bridge gave up
+ */
+ipcMain.handle('jvm-bridge-restart', () => {
+    stopJvmBridge();
+    setState({ restarts: 0, error: undefined });
+    startJvmBridge();
+    return state;
+});
@@ -1,8 +1,11 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, ipcMain, session, dialog, protocol, net } from 'electron';
 import path from 'path';
-import { spawn, ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
+import { initDataStore } from './dataStore';
+import './pluginHttp';
+import './stremioConfigure';
+import { startJvmBridge, stopJvmBridge } from './jvmBridge';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 try {
@@ -15,10 +18,32 @@ try {
 }
 
 let mainWindow: BrowserWindow | null = null;
-let jvmBridgeProcess: ChildProcess | null = null;
-const JVM_BRIDGE_PORT = 8765;
 const PLUGINS_DIR = path.join(app.getPath('userData'), 'plugins');
 
+/**
+ * Extra headers the renderer asked for, like Android passing posterHeaders and
+ * ExtractorLink.headers to its image loader and player
+ * A rule matches a request whose URL starts with one of its prefixes or whose host
+ * is listed (used while playing, the player adds segment and key hosts as it goes)
+ */
+interface RequestHeaderRule {
+    id: string;
+    urlPrefixes: string[];
+    hosts?: string[];
+    headers: Record<string, string>;
+}
+
+const requestHeaderRules = new Map<string, RequestHeaderRule>();
+// Redirect targets of matched requests, the redirected request keeps the headers like OkHttp does
+const redirectedUrls = new Map<string, Set<string>>();
+
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa'];
+
+// Plugins run in this worker, it may evaluate code but never open a connection or start another worker
+// Its only way out is postMessage to the renderer, which goes through the capability checks
+const SANDBOX_WORKER_PATTERN = /\/pluginSandbox\.worker[^/]*\.(?:ts|js)$/;
+const SANDBOX_WORKER_CSP = "default-src 'none'; connect-src 'none'; worker-src 'none'; script-src 'self' 'unsafe-eval'";
+
 const createWindow = () => {
     // Create the browser window.
     mainWindow = new BrowserWindow({
@@ -55,6 +80,15 @@ app.whenReady().then(() => {
         fs.mkdirSync(PLUGINS_DIR, { recursive: true });
     }
 
+    // Open the data store and upgrade it before the renderer loads
+    initDataStore();
+
+    // Apply per-link headers to posters, subtitles and video segments
+    installRequestInterceptor();
+
+    // Keep plugin code off the network, including the JVM bridge on localhost
+    installSandboxWorkerPolicy();
+
     // Start JVM bridge (if available)
     startJvmBridge();
 
@@ -85,72 +119,182 @@ app.on('before-quit', () => {
 });
 
 /**
- * Start JVM bridge process
+ * Finds the header rules that apply to a request
+ * Local requests (dev server, JVM bridge) are never touched
  */
-function startJvmBridge() {
+function findHeaderRules(url: string): RequestHeaderRule[] {
+    if (requestHeaderRules.size === 0) return [];
+
+    let host: string;
     try {
-        // Try multiple possible locations for the bridge JAR
-        const possiblePaths = [
-            path.join(__dirname, '../../jvm-bridge/build/libs/jvm-bridge-1.0.0.jar'),
-            path.join(process.cwd(), 'jvm-bridge/build/libs/jvm-bridge-1.0.0.jar'),
-            path.join(app.getAppPath(), 'jvm-bridge/build/libs/jvm-bridge-1.0.0.jar'),
-        ];
-
-        let bridgeJar: string | null = null;
-        for (const possiblePath of possiblePaths) {
-            if (fs.existsSync(possiblePath)) {
-                bridgeJar = possiblePath;
-                break;
-            }
+        const parsed = new URL(url);
+        if (parsed.hostname === 'localhost' || parsed.hostname === '127.0.0.1') return [];
+        host = parsed.host;
+    } catch {
+        return [];
+    }
+
+    return Array.from(requestHeaderRules.values()).filter(rule =>
+        rule.urlPrefixes.some(prefix => url.startsWith(prefix))
+        || (rule.hosts?.includes(host) ?? false)
+        || (redirectedUrls.get(rule.id)?.has(url) ?? false)
+    );
+}
+
+/**
+ * Replaces a header regardless of the casing it was sent with
+ */
+function setHeader(headers: Record<string, string | string[]>, name: string, value: string | string[]) {
+    for (const key of Object.keys(headers)) {
+        if (key.toLowerCase() === name.toLowerCase()) {
+            delete headers[key];
         }
-        
-        // Check if bridge JAR exists
-        if (!bridgeJar) {
-            console.warn('JVM bridge JAR not found. Plugins will not work until bridge is built.');
-            console.warn('To build the bridge, run: cd jvm-bridge && ./gradlew build');
-            console.warn('Searched locations:');
-            possiblePaths.forEach(p => console.warn(`  - ${p}`));
+    }
+    headers[name] = value;
+}
+
+/**
+ * Whether a URL is the plugin sandbox worker script, from the dev server or the built assets
+ */
+function isSandboxWorkerUrl(url: string): boolean {
+    try {
+        return SANDBOX_WORKER_PATTERN.test(new URL(url).pathname);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Built files are served through this handler so the sandbox worker gets its policy in production too
+ */
+function installSandboxWorkerPolicy() {
+    protocol.handle('file', async (request) => {
+        const response = await net.fetch(request, { bypassCustomProtocolHandlers: true });
+        if (!isSandboxWorkerUrl(request.url)) return response;
+
+        const headers = new Headers(response.headers);
+        headers.set('Content-Security-Policy', SANDBOX_WORKER_CSP);
+        return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+    });
+}
+
+/**
+ * Session level request interception driven by requestHeaderRules
+ */
+function installRequestInterceptor() {
+    const filter = { urls: ['http://*/*', 'https://*/*'] };
+
+    session.defaultSession.webRequest.onBeforeSendHeaders(filter, (details, callback) => {
+        const rules = findHeaderRules(details.url);
+        if (rules.length === 0) {
+            callback({ requestHeaders: details.requestHeaders });
             return;
         }
 
-        // Start bridge process
-        console.log(`Starting JVM bridge from: ${bridgeJar}`);
-        jvmBridgeProcess = spawn('java', ['-jar', bridgeJar, String(JVM_BRIDGE_PORT)], {
-            cwd: path.dirname(bridgeJar),
-            stdio: ['ignore', 'pipe', 'pipe'],
-            shell: process.platform === 'win32' // Use shell on Windows
-        });
+        const requestHeaders: Record<string, string> = { ...details.requestHeaders };
+        for (const rule of rules) {
+            for (const [name, value] of Object.entries(rule.headers)) {
+                setHeader(requestHeaders, name, value);
+            }
+        }
+        callback({ requestHeaders });
+    });
 
-        jvmBridgeProcess.stdout?.on('data', (data) => {
-            console.log(`[JVM Bridge] ${data}`);
-        });
+    // Hosts that want a spoofed Referer/Origin rarely send CORS headers, which hls.js and dash.js need
+    session.defaultSession.webRequest.onHeadersReceived(filter, (details, callback) => {
+        const responseHeaders = details.responseHeaders;
+        if (responseHeaders && isSandboxWorkerUrl(details.url)) {
+            setHeader(responseHeaders, 'Content-Security-Policy', [SANDBOX_WORKER_CSP]);
+            callback({ responseHeaders });
+            return;
+        }
+        if (!responseHeaders || details.resourceType !== 'xhr' || findHeaderRules(details.url).length === 0) {
+            callback({ responseHeaders });
+            return;
+        }
 
-        jvmBridgeProcess.stderr?.on('data', (data) => {
-            console.error(`[JVM Bridge Error] ${data}`);
-        });
+        const allowOrigin = Object.keys(responseHeaders).find(key => key.toLowerCase() === 'access-control-allow-origin');
+        if (!allowOrigin) {
+            setHeader(responseHeaders, 'Access-Control-Allow-Origin', ['*']);
+        }
+        callback({ responseHeaders });
+    });
 
-        jvmBridgeProcess.on('exit', (code) => {
-            console.log(`JVM bridge exited with code ${code}`);
-            jvmBridgeProcess = null;
-        });
+    session.defaultSession.webRequest.onBeforeRedirect(filter, (details) => {
+        for (const rule of findHeaderRules(details.url)) {
+            const urls = redirectedUrls.get(rule.id) ?? new Set<string>();
+            urls.add(details.redirectURL);
+            redirectedUrls.set(rule.id, urls);
+        }
+    });
+}
 
-        console.log('JVM bridge started on port', JVM_BRIDGE_PORT);
-    } catch (error) {
-        console.error('Failed to start JVM bridge:', error);
+/**
+ * IPC handlers for request header rules
+ */
+ipcMain.handle('set-request-headers', (event, rule: RequestHeaderRule) => {
+    if (!rule?.id || !Array.isArray(rule.urlPrefixes) || (rule.hosts !== undefined && !Array.isArray(rule.hosts)) || typeof rule.headers !== 'object') {
+        return { success: false, error: 'Invalid header rule' };
     }
-}
+    requestHeaderRules.set(rule.id, rule);
+    return { success: true };
+});
+
+ipcMain.handle('clear-request-headers', (event, id: string) => {
+    requestHeaderRules.delete(id);
+    redirectedUrls.delete(id);
+});
 
 /**
- * Stop JVM bridge process
+ * IPC handlers for local subtitle files
+ * Only subtitle extensions can be read, the renderer never gets general file access
  */
-function stopJvmBridge() {
-    if (jvmBridgeProcess) {
-        jvmBridgeProcess.kill();
-        jvmBridgeProcess = null;
-        console.log('JVM bridge stopped');
+function readSubtitleFile(filePath: string) {
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+    if (!SUBTITLE_EXTENSIONS.includes(extension)) {
+        return { success: false, error: `Unsupported subtitle file: ${path.basename(filePath)}` };
+    }
+    if (!fs.existsSync(filePath)) {
+        return { success: false, error: `Subtitle file not found: ${filePath}` };
     }
+    return {
+        success: true,
+        path: filePath,
+        name: path.basename(filePath),
+        data: fs.readFileSync(filePath),
+    };
 }
 
+ipcMain.handle('open-subtitle-file', async () => {
+    const options: Electron.OpenDialogOptions = {
+        title: 'Load subtitles',
+        properties: ['openFile'],
+        filters: [{ name: 'Subtitles', extensions: SUBTITLE_EXTENSIONS }],
+    };
+    const result = mainWindow
+        ? await dialog.showOpenDialog(mainWindow, options)
+        : await dialog.showOpenDialog(options);
+
+    if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, canceled: true };
+    }
+    try {
+        return readSubtitleFile(result.filePaths[0]);
+    } catch (error) {
+        console.error('Failed to read subtitle file:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+});
+
+ipcMain.handle('read-subtitle-file', (event, filePath: string) => {
+    try {
+        return readSubtitleFile(filePath);
+    } catch (error) {
+        console.error('Failed to read subtitle file:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+});
+
 /**
  * IPC handlers for plugin file operations
  */
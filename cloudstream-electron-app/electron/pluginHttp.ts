@@ -0,0 +1,11 @@
+import { app, ipcMain } from 'electron';
+import { sendPluginRequest, type PluginHttpRequest } from './pluginHttpClient';
+
+/**
+ * HTTP for sandboxed plugins
+ * Requests run in the main process so plugins can set headers the renderer can't (User-Agent, Referer, Cookie)
+ * and aren't limited by CORS, which is also why they may only reach public http(s) hosts
+ */
+ipcMain.handle('plugin-http-request', (event, request: PluginHttpRequest) =>
+    sendPluginRequest(request, { userAgent: app.userAgentFallback })
+);
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import type { AddressInfo } from 'net';
+import { isPrivateAddress, sendPluginRequest, type PluginHttpOptions, type ResolvedAddress } from './pluginHttpClient';
+
+const LOOPBACK: ResolvedAddress = { address: '127.0.0.1', family: 4 };
+
+let server: http.Server;
+let port = 0;
+
+// The test server can only listen on loopback, so these options let 127.0.0.1 through
+// and stand in for DNS with fixed answers
+function testOptions(names: Record<string, ResolvedAddress[]>): PluginHttpOptions & { lookups: string[] } {
+    const lookups: string[] = [];
+    return {
+        lookups,
+        resolve: async (hostname) => {
+            lookups.push(hostname);
+            const addresses = names[hostname];
+            if (!addresses) throw new Error(`ENOTFOUND ${hostname}`);
+            return addresses;
+        },
+        isBlockedAddress: address => address !== LOOPBACK.address && isPrivateAddress(address),
+    };
+}
+
+const PUBLIC_NAMES = {
+    'public.test': [LOOPBACK],
+    'internal.test': [{ address: '10.0.0.5', family: 4 }],
+};
+
+beforeAll(async () => {
+    server = http.createServer((request, response) => {
+        const path = request.url ?? '/';
+        if (path === '/start') {
+            response.writeHead(302, { Location: `http://public.test:${port}/final` }).end();
+        } else if (path === '/final') {
+            response.writeHead(200, { 'Set-Cookie': ['a=1; Path=/', 'b=2'] }).end(`done ${request.headers.host}`);
+        } else if (path === '/to-internal') {
+            response.writeHead(302, { Location: 'http://internal.test/' }).end();
+        } else if (path === '/to-loopback') {
+            response.writeHead(301, { Location: `http://[::ffff:7f00:1]:${port}/final` }).end();
+        } else if (path === '/loop') {
+            response.writeHead(302, { Location: '/loop' }).end();
+        } else if (path === '/see-other') {
+            response.writeHead(303, { Location: '/method' }).end();
+        } else if (path === '/method') {
+            let body = '';
+            request.on('data', chunk => { body += chunk; });
+            request.on('end', () => response.end(`${request.method} ${body}`));
+        } else if (path === '/gzip') {
+            response.writeHead(200, { 'Content-Encoding': 'gzip' }).end(zlib.gzipSync('compressed'));
+        } else {
+            response.writeHead(404).end();
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+describe('isPrivateAddress', () => {
+    it('blocks loopback, private and link-local ranges', () => {
+        for (const address of ['127.0.0.1', '127.8.9.10', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1']) {
+            expect(isPrivateAddress(address), address).toBe(true);
+        }
+    });
+
+    it('blocks IPv4-mapped IPv6 addresses of those ranges', () => {
+        expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+        expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+        expect(isPrivateAddress('::ffff:192.168.0.1')).toBe(true);
+    });
+
+    it('allows public addresses', () => {
+        for (const address of ['8.8.8.8', '172.32.0.1', '1.1.1.1', '2606:4700:4700::1111']) {
+            expect(isPrivateAddress(address), address).toBe(false);
+        }
+    });
+
+    it('treats anything that is not an IP as blocked', () => {
+        expect(isPrivateAddress('example.com')).toBe(true);
+    });
+});
+
+describe('sendPluginRequest', () => {
+    it('refuses loopback and private hosts without a custom blocklist', async () => {
+        for (const url of [`http://127.0.0.1:${port}/final`, `http://[::ffff:7f00:1]:${port}/final`, 'http://localhost/', 'http://10.1.2.3/']) {
+            const result = await sendPluginRequest({ url });
+            expect(result.success, url).toBe(false);
+            expect(result.error).toMatch(/can't reach/);
+        }
+    });
+
+    it('refuses names that resolve to a private address', async () => {
+        const result = await sendPluginRequest({ url: 'http://internal.test/' }, testOptions(PUBLIC_NAMES));
+        expect(result).toEqual({ success: false, error: "Plugins can't reach internal.test" });
+    });
+
+    it('refuses names with one private address among public ones', async () => {
+        const options = testOptions({ 'mixed.test': [LOOPBACK, { address: '192.168.1.1', family: 4 }] });
+        const result = await sendPluginRequest({ url: `http://mixed.test:${port}/final` }, options);
+        expect(result.success).toBe(false);
+    });
+
+    it('follows redirects and keeps the host name', async () => {
+        const result = await sendPluginRequest({ url: `http://public.test:${port}/start` }, testOptions(PUBLIC_NAMES));
+        expect(result).toMatchObject({
+            success: true,
+            status: 200,
+            url: `http://public.test:${port}/final`,
+            body: `done public.test:${port}`,
+            setCookies: ['a=1; Path=/', 'b=2'],
+        });
+    });
+
+    it('checks every redirect hop', async () => {
+        const options = testOptions(PUBLIC_NAMES);
+        const toInternal = await sendPluginRequest({ url: `http://public.test:${port}/to-internal` }, options);
+        expect(toInternal).toEqual({ success: false, error: "Plugins can't reach internal.test" });
+        expect(options.lookups).toEqual(['public.test', 'internal.test']);
+
+        const toLoopback = await sendPluginRequest({ url: `http://public.test:${port}/to-loopback` }, {
+            resolve: async () => [LOOPBACK],
+            isBlockedAddress: address => address !== LOOPBACK.address && isPrivateAddress(address),
+        });
+        expect(toLoopback).toEqual({ success: false, error: "Plugins can't reach [::ffff:7f00:1]" });
+    });
+
+    it('connects to the address it checked, a second DNS answer is never used', async () => {
+        let answers = 0;
+        const result = await sendPluginRequest({ url: `http://rebind.test:${port}/final` }, {
+            // The first answer passes the check, a rebinding server would answer differently afterwards
+            resolve: async () => (answers++ === 0 ? [LOOPBACK] : [{ address: '203.0.113.1', family: 4 }]),
+            isBlockedAddress: address => address !== LOOPBACK.address && isPrivateAddress(address),
+        });
+        expect(result.success).toBe(true);
+        expect(answers).toBe(1);
+    });
+
+    it('gives up after too many redirects', async () => {
+        const result = await sendPluginRequest({ url: `http://public.test:${port}/loop` }, testOptions(PUBLIC_NAMES));
+        expect(result).toEqual({ success: false, error: `Too many redirects from http://public.test:${port}/loop` });
+    });
+
+    it('continues a 303 as a GET without body', async () => {
+        const result = await sendPluginRequest({ url: `http://public.test:${port}/see-other`, method: 'POST', body: 'q=1' }, testOptions(PUBLIC_NAMES));
+        expect(result.body).toBe('GET ');
+    });
+
+    it('decodes compressed bodies', async () => {
+        const result = await sendPluginRequest({ url: `http://public.test:${port}/gzip` }, testOptions(PUBLIC_NAMES));
+        expect(result.body).toBe('compressed');
+    });
+
+    it('rejects other protocols', async () => {
+        expect(await sendPluginRequest({ url: 'file:///etc/passwd' })).toEqual({ success: false, error: 'Unsupported protocol: file:' });
+    });
+});
@@ -0,0 +1,222 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as zlib from 'zlib';
+import { lookup as dnsLookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+/**
+ * HTTP client behind plugin-http-request, kept apart from the IPC handler so it runs without Electron
+ * Each hop is resolved once, checked, and connected to that same address, a host that resolves
+ * differently the second time (DNS rebinding) can't slip through to loopback
+ */
+export interface PluginHttpRequest {
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+    timeoutMs?: number;
+}
+
+export interface PluginHttpResult {
+    success: boolean;
+    status?: number;
+    url?: string; // After redirects
+    headers?: Record<string, string>;
+    setCookies?: string[];
+    body?: string;
+    error?: string;
+}
+
+export interface ResolvedAddress {
+    address: string;
+    family: number; // 4 or 6
+}
+
+export interface PluginHttpOptions {
+    userAgent?: string; // Sent when the plugin sets none
+    resolve?: (hostname: string) => Promise<ResolvedAddress[]>;
+    isBlockedAddress?: (address: string) => boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const MAX_TIMEOUT_MS = 120_000;
+const MAX_REDIRECTS = 10;
+
+/**
+ * Loopback, private and link-local ranges, these would let plugins talk to the JVM bridge,
+ * the dev server or the local network
+ * BlockList also matches IPv4-mapped IPv6 addresses like ::ffff:7f00:1 against the IPv4 ranges
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+export function isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    return family === 0 || PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+async function systemResolve(hostname: string): Promise<ResolvedAddress[]> {
+    return dnsLookup(hostname, { all: true });
+}
+
+/**
+ * Resolves the host of a URL a plugin asked for or was redirected to, throws when it isn't public
+ * Every address the name resolves to has to be public, the first one is connected to
+ */
+async function resolvePublicAddress(url: URL, options: PluginHttpOptions): Promise<ResolvedAddress> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Unsupported protocol: ${url.protocol}`);
+    }
+
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+        throw new Error(`Plugins can't reach ${url.hostname}`);
+    }
+
+    let addresses: ResolvedAddress[];
+    const family = isIP(hostname);
+    if (family !== 0) {
+        addresses = [{ address: hostname, family }];
+    } else {
+        try {
+            addresses = await (options.resolve ?? systemResolve)(hostname);
+        } catch {
+            throw new Error(`Could not resolve ${url.hostname}`);
+        }
+    }
+
+    const isBlocked = options.isBlockedAddress ?? isPrivateAddress;
+    if (addresses.length === 0 || addresses.some(entry => isBlocked(entry.address))) {
+        throw new Error(`Plugins can't reach ${url.hostname}`);
+    }
+    return addresses[0];
+}
+
+function decodeBody(body: Buffer, encoding?: string): string {
+    switch (encoding?.trim().toLowerCase()) {
+        case 'gzip':
+            return zlib.gunzipSync(body).toString('utf8');
+        case 'deflate':
+            return zlib.inflateSync(body).toString('utf8');
+        case 'br':
+            return zlib.brotliDecompressSync(body).toString('utf8');
+        default:
+            return body.toString('utf8');
+    }
+}
+
+interface SendOptions {
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    signal: AbortSignal;
+}
+
+/**
+ * One request without following redirects, connected to the address that was checked
+ * TLS still verifies the certificate against the host name, only the DNS answer is fixed
+ */
+function send(url: URL, address: ResolvedAddress, options: SendOptions): Promise<{ response: http.IncomingMessage; body: Buffer }> {
+    const lookup = ((_hostname, lookupOptions, callback) => {
+        if (lookupOptions.all) {
+            callback(null, [address]);
+        } else {
+            callback(null, address.address, address.family);
+        }
+    }) as LookupFunction;
+
+    return new Promise((resolve, reject) => {
+        const transport = url.protocol === 'https:' ? https : http;
+        const request = transport.request(url, {
+            method: options.method,
+            headers: options.headers,
+            signal: options.signal,
+            lookup,
+        }, (response) => {
+            const chunks: Buffer[] = [];
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+            response.on('end', () => resolve({ response, body: Buffer.concat(chunks) }));
+            response.on('error', reject);
+        });
+        request.on('error', reject);
+        request.end(options.body);
+    });
+}
+
+/**
+ * Sends a plugin request, following redirects by hand so every hop is checked
+ */
+export async function sendPluginRequest(request: PluginHttpRequest, options: PluginHttpOptions = {}): Promise<PluginHttpResult> {
+    let url: URL;
+    try {
+        url = new URL(request?.url);
+    } catch {
+        return { success: false, error: `Invalid URL: ${request?.url}` };
+    }
+
+    const headers: Record<string, string> = { ...request.headers };
+    const hasHeader = (name: string) => Object.keys(headers).some(key => key.toLowerCase() === name);
+    // Chromium sent these for net.fetch, plugins written against it expect them
+    if (!hasHeader('accept-encoding')) headers['Accept-Encoding'] = 'gzip, deflate, br';
+    if (!hasHeader('user-agent') && options.userAgent) headers['User-Agent'] = options.userAgent;
+
+    const controller = new AbortController();
+    const timeout = Math.min(request.timeoutMs ?? DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+    const timer = setTimeout(() => controller.abort(), timeout);
+    let method = request.method ?? 'GET';
+    let body = request.body;
+    try {
+        for (let redirects = 0; ; redirects++) {
+            const address = await resolvePublicAddress(url, options);
+            const { response, body: responseBody } = await send(url, address, { method, headers, body, signal: controller.signal });
+            const status = response.statusCode ?? 0;
+
+            const location = response.headers.location;
+            if (status >= 300 && status < 400 && location) {
+                if (redirects >= MAX_REDIRECTS) {
+                    return { success: false, error: `Too many redirects from ${request.url}` };
+                }
+                url = new URL(location, url);
+                // Same as fetch, 303 and a redirected POST continue as a GET without body
+                if (status === 303 || (method === 'POST' && (status === 301 || status === 302))) {
+                    method = 'GET';
+                    body = undefined;
+                }
+                continue;
+            }
+
+            const responseHeaders: Record<string, string> = {};
+            for (const [name, value] of Object.entries(response.headers)) {
+                if (value !== undefined) {
+                    responseHeaders[name] = Array.isArray(value) ? value.join(', ') : value;
+                }
+            }
+            return {
+                success: true,
+                status,
+                url: url.toString(),
+                headers: responseHeaders,
+                // Kept apart, joining several Set-Cookie headers into one value is ambiguous
+                setCookies: response.headers['set-cookie'] ?? [],
+                body: decodeBody(responseBody, responseHeaders['content-encoding']),
+            };
+        }
+    } catch (error) {
+        const message = controller.signal.aborted
+            ? `Request timed out after ${timeout}ms`
+            : error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: message };
+    } finally {
+        clearTimeout(timer);
+    }
+}
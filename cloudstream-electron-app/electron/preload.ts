@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils } from 'electron';
 
 contextBridge.exposeInMainWorld('electronAPI', {
     ping: () => ipcRenderer.invoke('ping'),
@@ -12,4 +12,59 @@ contextBridge.exposeInMainWorld('electronAPI', {
     
     pluginFileExists: (pluginId: string, repositoryUrl: string) =>
         ipcRenderer.invoke('plugin-file-exists', pluginId, repositoryUrl),
+
+    // Request header rules
+    setRequestHeaders: (rule: { id: string; urlPrefixes: string[]; hosts?: string[]; headers: Record<string, string> }) =>
+        ipcRenderer.invoke('set-request-headers', rule),
+
+    clearRequestHeaders: (id: string) =>
+        ipcRenderer.invoke('clear-request-headers', id),
+
+    // Local subtitle files
+    openSubtitleFile: () => ipcRenderer.invoke('open-subtitle-file'),
+
+    readSubtitleFile: (filePath: string) => ipcRenderer.invoke('read-subtitle-file', filePath),
+
+    // Path of a dropped File, empty for files that don't exist on disk
+    getPathForFile: (file: File) => webUtils.getPathForFile(file),
+
+    // Data store, records are small JSON values and blobs large strings like plugin code
+    getStoreData: (): Promise<{ version: number; legacyImported: boolean; records: Record<string, unknown> }> =>
+        ipcRenderer.invoke('get-store-data'),
+
+    setStoreRecord: (key: string, value: unknown): Promise<{ success: boolean; error?: string }> =>
+        ipcRenderer.invoke('set-store-record', key, value),
+
+    deleteStoreRecord: (key: string): Promise<{ success: boolean; error?: string }> =>
+        ipcRenderer.invoke('delete-store-record', key),
+
+    readStoreBlob: (key: string): Promise<string | null> => ipcRenderer.invoke('read-store-blob', key),
+
+    writeStoreBlob: (key: string, value: string): Promise<{ success: boolean; error?: string }> =>
+        ipcRenderer.invoke('write-store-blob', key, value),
+
+    deleteStoreBlob: (key: string): Promise<{ success: boolean }> => ipcRenderer.invoke('delete-store-blob', key),
+
+    importLegacyStoreData: (records: Record<string, unknown>, blobs: Record<string, string>) =>
+        ipcRenderer.invoke('import-legacy-store-data', records, blobs),
+
+    // HTTP for sandboxed plugins, headers aren't restricted and CORS doesn't apply
+    pluginHttpRequest: (request: { url: string; method?: string; headers?: Record<string, string>; body?: string; timeoutMs?: number }) =>
+        ipcRenderer.invoke('plugin-http-request', request),
+
+    // Opens a Stremio add-on's configuration page, resolves with the install URL the page produced
+    configureStremioAddon: (configurationUrl: string) => ipcRenderer.invoke('stremio-configure-addon', configurationUrl),
+
+    // JVM bridge lifecycle, onJvmBridgeState returns an unsubscribe function
+    getJvmBridgeState: () => ipcRenderer.invoke('jvm-bridge-get-state'),
+
+    restartJvmBridge: () => ipcRenderer.invoke('jvm-bridge-restart'),
+
+    onJvmBridgeState: (callback: (state: unknown) => void) => {
+        const listener = (event: Electron.IpcRendererEvent, state: unknown) => callback(state);
+        ipcRenderer.on('jvm-bridge-state', listener);
+        return () => {
+            ipcRenderer.removeListener('jvm-bridge-state', listener);
+        };
+    },
 });
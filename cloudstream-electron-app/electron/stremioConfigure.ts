@@ -0,0 +1,135 @@
+import { BrowserWindow, ipcMain, session } from 'electron';
+
+/**
+ * Configuration pages of Stremio add-ons (behaviorHints.configurable)
+ * The page runs in a child window with its own session. Once the user submits it, the page hands
+ * a stremio:// or https://.../manifest.json install URL to the Stremio app, which is captured here instead
+ */
+type StremioConfigureResult =
+    | { success: true; url: string }
+    | { success: false; cancelled?: boolean; error?: string };
+
+const PARTITION = 'persist:stremio-configure';
+
+let configureWindow: BrowserWindow | null = null;
+// Settles the open window's request, also called by the stremio:// protocol handler
+let captureInstallUrl: ((url: string) => void) | null = null;
+
+/**
+ * The manifest URL to install from, null for anything that isn't an install URL
+ * stremio:// links are the https URL with the scheme swapped
+ */
+function toInstallUrl(url: string): string | null {
+    if (/^stremio:\/\//i.test(url)) {
+        return `https://${url.replace(/^stremio:\/\//i, '')}`;
+    }
+    try {
+        const parsed = new URL(url);
+        if ((parsed.protocol === 'https:' || parsed.protocol === 'http:') && parsed.pathname.endsWith('/manifest.json')) {
+            return url;
+        }
+    } catch {
+        // Not a URL, nothing to capture
+    }
+    return null;
+}
+
+/**
+ * Pages that set location to a stremio:// URL from a frame or a script never trigger will-navigate,
+ * the session handles the scheme itself so those are caught too
+ */
+function getConfigureSession(): Electron.Session {
+    const configureSession = session.fromPartition(PARTITION);
+    if (!configureSession.protocol.isProtocolHandled('stremio')) {
+        configureSession.protocol.handle('stremio', (request) => {
+            captureInstallUrl?.(request.url);
+            return new Response(null, { status: 204 });
+        });
+    }
+    return configureSession;
+}
+
+ipcMain.handle('stremio-configure-addon', (event, configurationUrl: string): Promise<StremioConfigureResult> | StremioConfigureResult => {
+    try {
+        const parsed = new URL(configurationUrl);
+        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+            return { success: false, error: `Unsupported protocol: ${parsed.protocol}` };
+        }
+    } catch {
+        return { success: false, error: `Invalid configuration URL: ${configurationUrl}` };
+    }
+    if (configureWindow && !configureWindow.isDestroyed()) {
+        configureWindow.focus();
+        return { success: false, error: 'Another add-on is being configured' };
+    }
+
+    return new Promise((resolve) => {
+        const window = new BrowserWindow({
+            parent: BrowserWindow.fromWebContents(event.sender) ?? undefined,
+            width: 960,
+            height: 760,
+            title: 'Configure add-on',
+            autoHideMenuBar: true,
+            webPreferences: {
+                session: getConfigureSession(),
+                nodeIntegration: false,
+                contextIsolation: true,
+                sandbox: true,
+            },
+        });
+        configureWindow = window;
+
+        let settled = false;
+        const finish = (result: StremioConfigureResult) => {
+            if (settled) return;
+            settled = true;
+            captureInstallUrl = null;
+            resolve(result);
+            if (!window.isDestroyed()) window.close();
+        };
+        captureInstallUrl = (url) => {
+            const installUrl = toInstallUrl(url);
+            if (installUrl) finish({ success: true, url: installUrl });
+        };
+
+        const onNavigate = (navigation: Electron.Event<{ url: string }>) => {
+            const installUrl = toInstallUrl(navigation.url);
+            if (!installUrl) return;
+            navigation.preventDefault();
+            finish({ success: true, url: installUrl });
+        };
+        window.webContents.on('will-navigate', onNavigate);
+        window.webContents.on('will-redirect', onNavigate);
+
+        // "Install" buttons often open the link in a new tab, sign-in popups still open
+        window.webContents.setWindowOpenHandler(({ url }) => {
+            const installUrl = toInstallUrl(url);
+            if (installUrl) {
+                finish({ success: true, url: installUrl });
+                return { action: 'deny' };
+            }
+            return /^https?:\/\//i.test(url) ? { action: 'allow' } : { action: 'deny' };
+        });
+
+        // Only the first page failing means there is nothing to configure, later pages show their own errors
+        let loaded = false;
+        window.webContents.once('did-finish-load', () => {
+            loaded = true;
+        });
+        window.webContents.on('did-fail-load', (failEvent, errorCode, errorDescription, validatedURL, isMainFrame) => {
+            // -3 is an aborted load, which is what a captured navigation looks like
+            if (isMainFrame && errorCode !== -3 && !loaded) {
+                finish({ success: false, error: `Failed to open the configuration page: ${errorDescription}` });
+            }
+        });
+
+        window.on('closed', () => {
+            configureWindow = null;
+            finish({ success: false, cancelled: true });
+        });
+
+        window.loadURL(configurationUrl).catch(() => {
+            // Reported through did-fail-load
+        });
+    });
+});
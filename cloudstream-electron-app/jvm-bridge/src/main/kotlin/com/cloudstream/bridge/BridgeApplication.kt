@@ -1,5 +1,6 @@
 package com.cloudstream.bridge
 
+import io.ktor.http.*
 import io.ktor.server.application.*
 import io.ktor.server.engine.*
 import io.ktor.server.netty.*
@@ -7,16 +8,38 @@ import io.ktor.server.routing.*
 import io.ktor.server.plugins.contentnegotiation.*
 import io.ktor.server.plugins.cors.*
 import io.ktor.serialization.kotlinx.json.*
-import io.ktor.server.http.content.*
 import io.ktor.server.response.*
 import io.ktor.server.request.*
+import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.channels.Channel
+import kotlinx.coroutines.coroutineScope
+import kotlinx.coroutines.launch
+import kotlinx.serialization.ExperimentalSerializationApi
 import kotlinx.serialization.Serializable
+import kotlinx.serialization.encodeToString
 import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.JsonElement
 import org.slf4j.LoggerFactory
 import java.io.File
-import java.util.concurrent.ConcurrentHashMap
 
-val logger = LoggerFactory.getLogger("BridgeApplication")
+private val logger = LoggerFactory.getLogger("BridgeApplication")
+
+/**
+ * Responses match the app's TypeScript models (core/models), null fields are left out
+ */
+@OptIn(ExperimentalSerializationApi::class)
+val bridgeJson = Json {
+    ignoreUnknownKeys = true
+    isLenient = true
+    explicitNulls = false
+    encodeDefaults = true
+}
+
+@Serializable
+data class HealthResponse(
+    val status: String,
+    val plugins: Int
+)
 
 @Serializable
 data class LoadPluginRequest(
@@ -29,19 +52,83 @@ data class LoadPluginRequest(
 data class PluginResponse(
     val success: Boolean,
     val message: String? = null,
-    val error: String? = null
+    val error: String? = null,
+    // Every MainAPI the plugin registered, each one is a provider in the app
+    val apis: List<ApiInfo>? = null
 )
 
+/**
+ * Calls that reach a provider name it with apiName, without one the plugin's first provider answers
+ */
 @Serializable
 data class SearchRequest(
     val pluginId: String,
-    val query: String
+    val query: String,
+    val apiName: String? = null
 )
 
 @Serializable
 data class LoadRequest(
     val pluginId: String,
-    val url: String
+    val url: String,
+    val apiName: String? = null
+)
+
+@Serializable
+data class MainPageRequestBody(
+    val pluginId: String,
+    val apiName: String? = null,
+    val page: Int,
+    val name: String,
+    val data: String,
+    val horizontalImages: Boolean = false
+)
+
+@Serializable
+data class LoadLinksRequest(
+    val pluginId: String,
+    val apiName: String? = null,
+    val data: String,
+    val isCasting: Boolean = false
+)
+
+/**
+ * Settings a desktop user can change on a provider, null leaves a value as it is
+ */
+@Serializable
+data class ApiSettingsRequest(
+    val pluginId: String,
+    val apiName: String,
+    val mainUrl: String? = null,
+    val credentials: String? = null
+)
+
+@Serializable
+data class GlobalSettings(
+    val enableAdult: Boolean
+)
+
+@Serializable
+data class MainPageDataResponse(
+    val name: String,
+    val data: String,
+    val horizontalImages: Boolean
+)
+
+@Serializable
+data class ApiInfo(
+    val name: String,
+    val mainUrl: String,
+    val lang: String,
+    val supportedTypes: List<String>,
+    val hasMainPage: Boolean,
+    val hasQuickSearch: Boolean,
+    val hasChromecastSupport: Boolean,
+    val hasDownloadSupport: Boolean,
+    val mainPage: List<MainPageDataResponse>,
+    // mainUrl can be changed through /plugin/settings
+    val canBeOverridden: Boolean,
+    val hasCredentials: Boolean
 )
 
 @Serializable
@@ -49,11 +136,16 @@ data class SearchResponse(
     val name: String,
     val url: String,
     val apiName: String,
-    val type: String,
+    val type: String? = null,
     val posterUrl: String? = null,
+    val posterHeaders: Map<String, String>? = null,
+    val id: Int? = null,
+    val quality: String? = null,
     val year: Int? = null,
-    val plot: String? = null,
-    val score: Double? = null
+    val score: Double? = null,
+    val dubStatus: List<String>? = null,
+    // A count for series, counts by dub status for anime
+    val episodes: JsonElement? = null
 )
 
 @Serializable
@@ -63,28 +155,114 @@ data class LoadResponse(
     val apiName: String,
     val type: String,
     val posterUrl: String? = null,
-    val backgroundUrl: String? = null,
     val year: Int? = null,
     val plot: String? = null,
-    val score: Double? = null,
-    val episodes: List<EpisodeResponse>? = null,
-    val actors: List<ActorResponse>? = null,
-    val genres: List<String>? = null
+    val rating: Double? = null,
+    val tags: List<String>? = null,
+    val duration: Int? = null,
+    val trailers: List<TrailerResponse> = emptyList(),
+    val recommendations: List<SearchResponse>? = null,
+    val actors: List<ActorDataResponse>? = null,
+    val comingSoon: Boolean = false,
+    val syncData: Map<String, String> = emptyMap(),
+    val posterHeaders: Map<String, String>? = null,
+    val backgroundPosterUrl: String? = null,
+    val contentRating: String? = null,
+    // Movies and live streams
+    val dataUrl: String? = null,
+    // A list for series, lists by dub status for anime
+    val episodes: JsonElement? = null,
+    val showStatus: String? = null,
+    val engName: String? = null,
+    val japName: String? = null,
+    val magnet: String? = null,
+    val torrent: String? = null
 )
 
 @Serializable
 data class EpisodeResponse(
+    val data: String,
+    val name: String? = null,
+    val season: Int? = null,
+    val episode: Int? = null,
+    val posterUrl: String? = null,
+    val rating: Double? = null,
+    val description: String? = null,
+    val date: Long? = null,
+    val runTime: Int? = null
+)
+
+@Serializable
+data class TrailerResponse(
+    val extractorUrl: String,
+    val referer: String? = null,
+    val raw: Boolean,
+    val headers: Map<String, String>? = null
+)
+
+@Serializable
+data class ActorResponse(
+    val name: String,
+    val image: String? = null
+)
+
+@Serializable
+data class ActorDataResponse(
+    val actor: ActorResponse,
+    val role: String? = null,
+    val roleString: String? = null
+)
+
+@Serializable
+data class HomePageListResponse(
     val name: String,
+    val list: List<SearchResponse>,
+    val isHorizontalImages: Boolean
+)
+
+@Serializable
+data class HomePageResponse(
+    val items: List<HomePageListResponse>,
+    val hasNext: Boolean
+)
+
+@Serializable
+data class AudioFileResponse(
     val url: String,
-    val season: Int,
-    val episode: Int,
-    val description: String? = null
+    val headers: Map<String, String>? = null
 )
 
 @Serializable
-data class ActorResponse(
+data class ExtractorLinkResponse(
+    val source: String,
     val name: String,
-    val imageUrl: String? = null
+    val url: String,
+    val referer: String,
+    val quality: Int,
+    val headers: Map<String, String>? = null,
+    val extractorData: String? = null,
+    val type: String,
+    val audioTracks: List<AudioFileResponse>? = null
+)
+
+@Serializable
+data class SubtitleFileResponse(
+    val lang: String,
+    val url: String,
+    val headers: Map<String, String>? = null
+)
+
+/**
+ * One line of the /plugin/load-links stream
+ * "link" and "subtitle" arrive as the provider finds them, "done" or "error" is always the last line
+ */
+@Serializable
+data class LinkEvent(
+    val type: String,
+    val link: ExtractorLinkResponse? = null,
+    val subtitle: SubtitleFileResponse? = null,
+    val success: Boolean? = null,
+    val error: String? = null
 )
 
 fun main(args: Array<String>) {
@@ -93,14 +271,24 @@ fun main(args: Array<String>) {
         .start(wait = true)
 }
 
+/**
+ * Plugin not loaded or provider not registered by it, answered with 400 rather than 404
+ * because 404 from /plugin/load-content means the provider has nothing at the URL
+ */
+private suspend fun ApplicationCall.respondPluginError(e: Exception, action: String) {
+    if (e is PluginNotFoundException) {
+        respond(HttpStatusCode.BadRequest, mapOf("error" to (e.message ?: "Plugin not found")))
+        return
+    }
+    logger.error("Error $action", e)
+    respond(HttpStatusCode.InternalServerError, mapOf("error" to (e.message ?: "Unknown error")))
+}
+
 fun Application.module() {
     install(ContentNegotiation) {
-        json(Json {
-            ignoreUnknownKeys = true
-            isLenient = true
-        })
+        json(bridgeJson)
     }
-    
+
     install(CORS) {
         allowMethod(io.ktor.http.HttpMethod.Get)
         allowMethod(io.ktor.http.HttpMethod.Post)
@@ -114,22 +302,26 @@ fun Application.module() {
 
     routing {
         get("/health") {
-            call.respond(mapOf("status" to "ok", "plugins" to pluginManager.getLoadedPlugins().size))
+            call.respond(HealthResponse(status = "ok", plugins = pluginManager.getLoadedPlugins().size))
         }
 
         post("/plugin/load") {
             try {
                 val request = call.receive<LoadPluginRequest>()
                 logger.info("Loading plugin: ${request.pluginId} from ${request.pluginPath}")
-                
+
                 val result = pluginManager.loadPlugin(
                     File(request.pluginPath),
                     request.pluginId,
                     request.repositoryUrl
                 )
-                
+
                 if (result) {
-                    call.respond(PluginResponse(success = true, message = "Plugin loaded successfully"))
+                    call.respond(PluginResponse(
+                        success = true,
+                        message = "Plugin loaded successfully",
+                        apis = pluginManager.getApiInfo(request.pluginId)
+                    ))
                 } else {
                     call.respond(PluginResponse(success = false, error = "Failed to load plugin"))
                 }
@@ -143,12 +335,38 @@ fun Application.module() {
             try {
                 val request = call.receive<SearchRequest>()
                 logger.info("Searching plugin ${request.pluginId} for: ${request.query}")
-                
-                val results = pluginManager.search(request.pluginId, request.query)
+
+                val results = pluginManager.search(request.pluginId, request.apiName, request.query)
                 call.respond(results)
             } catch (e: Exception) {
-                logger.error("Error searching plugin", e)
-                call.respond(emptyList<SearchResponse>())
+                // An empty list would read as "no results" in the app
+                call.respondPluginError(e, "searching plugin")
+            }
+        }
+
+        post("/plugin/quick-search") {
+            try {
+                val request = call.receive<SearchRequest>()
+                val results = pluginManager.quickSearch(request.pluginId, request.apiName, request.query)
+                call.respond(results)
+            } catch (e: Exception) {
+                call.respondPluginError(e, "quick searching plugin")
+            }
+        }
+
+        post("/plugin/main-page") {
+            try {
+                val request = call.receive<MainPageRequestBody>()
+                logger.info("Loading main page ${request.name} (page ${request.page}) from plugin ${request.pluginId}")
+
+                val result = pluginManager.getMainPage(request)
+                if (result != null) {
+                    call.respond(result)
+                } else {
+                    call.respond(HttpStatusCode.NotFound, mapOf("error" to "No main page"))
+                }
+            } catch (e: Exception) {
+                call.respondPluginError(e, "loading main page")
             }
         }
 
@@ -156,16 +374,89 @@ fun Application.module() {
             try {
                 val request = call.receive<LoadRequest>()
                 logger.info("Loading content from plugin ${request.pluginId} for: ${request.url}")
-                
-                val result = pluginManager.loadContent(request.pluginId, request.url)
+
+                val result = pluginManager.loadContent(request.pluginId, request.apiName, request.url)
                 if (result != null) {
                     call.respond(result)
                 } else {
                     call.respond(HttpStatusCode.NotFound, mapOf("error" to "Content not found"))
                 }
             } catch (e: Exception) {
-                logger.error("Error loading content", e)
-                call.respond(HttpStatusCode.InternalServerError, mapOf("error" to (e.message ?: "Unknown error")))
+                call.respondPluginError(e, "loading content")
+            }
+        }
+
+        /**
+         * Newline delimited JSON over a chunked response, so the app can offer links while the provider
+         * is still looking for more. Errors after the stream started arrive as an "error" line
+         */
+        post("/plugin/load-links") {
+            val request = try {
+                call.receive<LoadLinksRequest>()
+            } catch (e: Exception) {
+                return@post call.respond(HttpStatusCode.BadRequest, mapOf("error" to (e.message ?: "Invalid request")))
+            }
+            logger.info("Loading links from plugin ${request.pluginId} for: ${request.data}")
+
+            call.respondTextWriter(ContentType.parse("application/x-ndjson")) {
+                val events = Channel<LinkEvent>(Channel.UNLIMITED)
+                coroutineScope {
+                    launch(Dispatchers.IO) {
+                        val last = try {
+                            val success = pluginManager.loadLinks(
+                                request,
+                                subtitleCallback = { events.trySend(LinkEvent(type = "subtitle", subtitle = mapSubtitleFile(it))) },
+                                callback = { events.trySend(LinkEvent(type = "link", link = mapExtractorLink(it))) }
+                            )
+                            LinkEvent(type = "done", success = success)
+                        } catch (e: Exception) {
+                            if (e !is PluginNotFoundException) logger.error("Error loading links", e)
+                            LinkEvent(type = "error", error = e.message ?: "Unknown error")
+                        }
+                        events.send(last)
+                        events.close()
+                    }
+
+                    for (event in events) {
+                        write(bridgeJson.encodeToString(event))
+                        write("\n")
+                        flush()
+                    }
+                }
+            }
+        }
+
+        get("/plugin/{pluginId}/apis") {
+            val pluginId = call.parameters["pluginId"] ?: return@get call.respond(
+                HttpStatusCode.BadRequest,
+                mapOf("error" to "Missing pluginId")
+            )
+            try {
+                call.respond(pluginManager.getApiInfo(pluginId))
+            } catch (e: Exception) {
+                call.respondPluginError(e, "listing plugin providers")
+            }
+        }
+
+        post("/plugin/settings") {
+            try {
+                val request = call.receive<ApiSettingsRequest>()
+                call.respond(pluginManager.updateApiSettings(request))
+            } catch (e: Exception) {
+                call.respondPluginError(e, "updating plugin settings")
+            }
+        }
+
+        get("/settings") {
+            call.respond(pluginManager.getGlobalSettings())
+        }
+
+        post("/settings") {
+            try {
+                val request = call.receive<GlobalSettings>()
+                call.respond(pluginManager.updateGlobalSettings(request))
+            } catch (e: Exception) {
+                call.respondPluginError(e, "updating settings")
             }
         }
 
@@ -175,7 +466,7 @@ fun Application.module() {
                     HttpStatusCode.BadRequest,
                     mapOf("error" to "Missing pluginId")
                 )
-                
+
                 logger.info("Unloading plugin: $pluginId")
                 pluginManager.unloadPlugin(pluginId)
                 call.respond(PluginResponse(success = true, message = "Plugin unloaded"))
@@ -191,4 +482,3 @@ fun Application.module() {
         }
     }
 }
-
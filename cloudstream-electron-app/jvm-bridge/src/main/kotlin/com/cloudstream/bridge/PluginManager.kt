@@ -4,11 +4,27 @@ import com.google.gson.Gson
 import com.google.gson.JsonObject
 import com.googlecode.dex2jar.tools.Dex2jarCmd
 import com.lagradost.cloudstream3.APIHolder
+import com.lagradost.cloudstream3.AnimeLoadResponse
+import com.lagradost.cloudstream3.AnimeSearchResponse
+import com.lagradost.cloudstream3.Episode
+import com.lagradost.cloudstream3.LiveStreamLoadResponse
 import com.lagradost.cloudstream3.MainAPI
+import com.lagradost.cloudstream3.MainPageRequest
+import com.lagradost.cloudstream3.MovieLoadResponse
+import com.lagradost.cloudstream3.MovieSearchResponse
+import com.lagradost.cloudstream3.SettingsJson
+import com.lagradost.cloudstream3.SubtitleFile
+import com.lagradost.cloudstream3.TorrentLoadResponse
 import com.lagradost.cloudstream3.TvSeriesLoadResponse
+import com.lagradost.cloudstream3.TvSeriesSearchResponse
 import com.lagradost.cloudstream3.TvType
 import com.lagradost.cloudstream3.plugins.BasePlugin
-import kotlinx.coroutines.runBlocking
+import com.lagradost.cloudstream3.utils.ExtractorLink
+import kotlinx.serialization.json.JsonArray
+import kotlinx.serialization.json.JsonElement
+import kotlinx.serialization.json.JsonObject as KJsonObject
+import kotlinx.serialization.json.JsonPrimitive
+import kotlinx.serialization.json.encodeToJsonElement
 import org.slf4j.LoggerFactory
 import java.io.File
 import java.net.URLClassLoader
@@ -16,7 +32,12 @@ import java.nio.file.Files
 import java.util.concurrent.ConcurrentHashMap
 import java.util.zip.ZipFile
 
-val logger = LoggerFactory.getLogger("PluginManager")
+private val logger = LoggerFactory.getLogger("PluginManager")
+
+/**
+ * The plugin isn't loaded or has no provider by the requested name
+ */
+class PluginNotFoundException(message: String) : Exception(message)
 
 /**
  * Plugin manifest structure (from Cloudstream BasePlugin.Manifest)
@@ -176,51 +197,105 @@ class PluginManager {
     }
 
     /**
-     * Search using a loaded plugin
+     * A provider registered by a plugin, the first one when apiName is null
+     * Provider errors are not caught below, the routes turn them into HTTP errors
      */
-    fun search(pluginId: String, query: String): List<com.cloudstream.bridge.SearchResponse> {
-        val apis = pluginApis[pluginId] ?: run {
-            logger.warn("Plugin not found: $pluginId")
-            return emptyList()
-        }
+    private fun findApi(pluginId: String, apiName: String?): MainAPI {
+        val apis = pluginApis[pluginId] ?: throw PluginNotFoundException("Plugin $pluginId is not loaded")
+        val api = if (apiName == null) apis.firstOrNull() else apis.firstOrNull { it.name == apiName }
+        return api ?: throw PluginNotFoundException("Plugin $pluginId has no provider named ${apiName ?: "(any)"}")
+    }
 
-        val provider = apis.firstOrNull() ?: return emptyList()
+    /**
+     * Metadata for every provider a plugin registered
+     */
+    fun getApiInfo(pluginId: String): List<ApiInfo> {
+        val apis = pluginApis[pluginId] ?: throw PluginNotFoundException("Plugin $pluginId is not loaded")
+        return apis.map { mapApiInfo(it) }
+    }
 
-        return runBlocking {
-            try {
-                val results = runCatching { provider.quickSearch(query) }
-                    .getOrNull()
-                    ?: runCatching { provider.search(query) }.getOrNull()
-                    ?: emptyList()
+    /**
+     * Search using a loaded plugin
+     */
+    suspend fun search(pluginId: String, apiName: String?, query: String): List<com.cloudstream.bridge.SearchResponse> {
+        val provider = findApi(pluginId, apiName)
+        return provider.search(query)?.map { mapSearchResponse(it) } ?: emptyList()
+    }
 
-                results?.map { mapSearchResponse(it) } ?: emptyList()
-            } catch (e: Exception) {
-                logger.error("Search failed for plugin $pluginId", e)
-                emptyList()
-            }
-        }
+    /**
+     * Quick search, providers without one answer with their full search like on Android
+     */
+    suspend fun quickSearch(pluginId: String, apiName: String?, query: String): List<com.cloudstream.bridge.SearchResponse> {
+        val provider = findApi(pluginId, apiName)
+        val results = if (provider.hasQuickSearch) provider.quickSearch(query) else provider.search(query)
+        return results?.map { mapSearchResponse(it) } ?: emptyList()
+    }
+
+    suspend fun getMainPage(request: MainPageRequestBody): com.cloudstream.bridge.HomePageResponse? {
+        val provider = findApi(request.pluginId, request.apiName)
+        if (!provider.hasMainPage) return null
+
+        val result = provider.getMainPage(
+            request.page,
+            MainPageRequest(request.name, request.data, request.horizontalImages)
+        ) ?: return null
+        return com.cloudstream.bridge.HomePageResponse(
+            items = result.items.map { list ->
+                HomePageListResponse(
+                    name = list.name,
+                    list = list.list.map { mapSearchResponse(it) },
+                    isHorizontalImages = list.isHorizontalImages
+                )
+            },
+            hasNext = result.hasNext
+        )
     }
 
     /**
      * Load content using a loaded plugin
      */
-    fun loadContent(pluginId: String, url: String): com.cloudstream.bridge.LoadResponse? {
-        val apis = pluginApis[pluginId] ?: run {
-            logger.warn("Plugin not found: $pluginId")
-            return null
-        }
+    suspend fun loadContent(pluginId: String, apiName: String?, url: String): com.cloudstream.bridge.LoadResponse? {
+        val provider = findApi(pluginId, apiName)
+        val result = provider.load(url) ?: return null
+        return mapLoadResponse(result)
+    }
 
-        val provider = apis.firstOrNull() ?: return null
+    /**
+     * Runs loadLinks, the callbacks fire from whatever thread the provider uses
+     */
+    suspend fun loadLinks(
+        request: LoadLinksRequest,
+        subtitleCallback: (SubtitleFile) -> Unit,
+        callback: (ExtractorLink) -> Unit
+    ): Boolean {
+        val provider = findApi(request.pluginId, request.apiName)
+        return provider.loadLinks(request.data, request.isCasting, subtitleCallback, callback)
+    }
 
-        return runBlocking {
-            try {
-                val result = provider.load(url) ?: return@runBlocking null
-                mapLoadResponse(result)
-            } catch (e: Exception) {
-                logger.error("Load failed for plugin $pluginId", e)
-                null
+    /**
+     * Points a provider at a mirror domain or gives it credentials, like the provider overrides on Android
+     */
+    fun updateApiSettings(request: ApiSettingsRequest): ApiInfo {
+        val provider = findApi(request.pluginId, request.apiName)
+        request.mainUrl?.takeIf { it.isNotBlank() }?.let { mainUrl ->
+            if (!provider.canBeOverridden) {
+                throw IllegalArgumentException("${provider.name} does not allow changing its domain")
             }
+            provider.mainUrl = mainUrl.trimEnd('/')
+        }
+        request.credentials?.let { credentials ->
+            provider.storedCredentials = credentials.ifBlank { null }
         }
+        return mapApiInfo(provider)
+    }
+
+    fun getGlobalSettings(): GlobalSettings {
+        return GlobalSettings(enableAdult = MainAPI.settingsForProvider.enableAdult)
+    }
+
+    fun updateGlobalSettings(settings: GlobalSettings): GlobalSettings {
+        MainAPI.settingsForProvider = SettingsJson(enableAdult = settings.enableAdult)
+        return getGlobalSettings()
     }
 
     /**
@@ -276,39 +351,78 @@ data class PluginInstance(
     val apis: List<MainAPI>
 )
 
+private fun mapApiInfo(api: MainAPI): ApiInfo {
+    return ApiInfo(
+        name = api.name,
+        mainUrl = api.mainUrl,
+        lang = api.lang,
+        supportedTypes = api.supportedTypes.map { it.name },
+        hasMainPage = api.hasMainPage,
+        hasQuickSearch = api.hasQuickSearch,
+        hasChromecastSupport = api.hasChromecastSupport,
+        hasDownloadSupport = api.hasDownloadSupport,
+        mainPage = api.mainPage.map { MainPageDataResponse(it.name, it.data, it.horizontalImages) },
+        canBeOverridden = api.canBeOverridden,
+        hasCredentials = api.storedCredentials != null
+    )
+}
+
 private fun mapSearchResponse(src: com.lagradost.cloudstream3.SearchResponse): com.cloudstream.bridge.SearchResponse {
+    val year = when (src) {
+        is MovieSearchResponse -> src.year
+        is TvSeriesSearchResponse -> src.year
+        is AnimeSearchResponse -> src.year
+        else -> null
+    }
+    val episodes: JsonElement? = when (src) {
+        is TvSeriesSearchResponse -> src.episodes?.let { JsonPrimitive(it) }
+        is AnimeSearchResponse -> src.episodes.takeIf { it.isNotEmpty() }
+            ?.let { counts -> KJsonObject(counts.entries.associate { (dubStatus, count) -> dubStatus.name to JsonPrimitive(count) }) }
+        else -> null
+    }
+
     return com.cloudstream.bridge.SearchResponse(
         name = src.name,
         url = src.url,
         apiName = src.apiName,
         type = src.type?.name ?: TvType.Others.name,
         posterUrl = src.posterUrl,
-        year = null,
-        plot = null,
-        score = src.score?.toDouble()
+        posterHeaders = src.posterHeaders,
+        id = src.id,
+        quality = src.quality?.name,
+        year = year,
+        score = src.score?.toDouble(),
+        dubStatus = (src as? AnimeSearchResponse)?.dubStatus?.map { it.name },
+        episodes = episodes
+    )
+}
+
+private fun mapEpisode(src: Episode): EpisodeResponse {
+    return EpisodeResponse(
+        data = src.data,
+        name = src.name,
+        season = src.season,
+        episode = src.episode,
+        posterUrl = src.posterUrl,
+        rating = src.score?.toDouble(),
+        description = src.description,
+        date = src.date,
+        runTime = src.runTime
     )
 }
 
 private fun mapLoadResponse(src: com.lagradost.cloudstream3.LoadResponse): com.cloudstream.bridge.LoadResponse {
-    val episodes = if (src is TvSeriesLoadResponse) {
-        src.episodes.map {
-            EpisodeResponse(
-                name = it.name ?: "",
-                url = it.data,
-                season = it.season ?: 0,
-                episode = it.episode ?: 0,
-                description = it.description
-            )
-        }
-    } else {
-        null
+    val episodes: JsonElement? = when (src) {
+        is TvSeriesLoadResponse -> bridgeJson.encodeToJsonElement(src.episodes.map { mapEpisode(it) })
+        is AnimeLoadResponse -> KJsonObject(src.episodes.entries.associate { (dubStatus, list) ->
+            dubStatus.name to JsonArray(list.map { bridgeJson.encodeToJsonElement(mapEpisode(it)) })
+        })
+        else -> null
     }
-
-    val actors = src.actors?.map { actor ->
-        ActorResponse(
-            name = actor.actor.name,
-            imageUrl = actor.actor.image
-        )
+    val dataUrl = when (src) {
+        is MovieLoadResponse -> src.dataUrl
+        is LiveStreamLoadResponse -> src.dataUrl
+        else -> null
     }
 
     return com.cloudstream.bridge.LoadResponse(
@@ -317,13 +431,53 @@ private fun mapLoadResponse(src: com.lagradost.cloudstream3.LoadResponse): com.c
         apiName = src.apiName,
         type = src.type.name,
         posterUrl = src.posterUrl,
-        backgroundUrl = src.backgroundPosterUrl,
         year = src.year,
         plot = src.plot,
-        score = src.score?.toDouble(),
+        rating = src.score?.toDouble(),
+        tags = src.tags,
+        duration = src.duration,
+        trailers = src.trailers.map { TrailerResponse(it.extractorUrl, it.referer, it.raw, it.headers) },
+        recommendations = src.recommendations?.map { mapSearchResponse(it) },
+        actors = src.actors?.map { actor ->
+            ActorDataResponse(
+                actor = ActorResponse(name = actor.actor.name, image = actor.actor.image),
+                role = actor.role?.name,
+                roleString = actor.roleString
+            )
+        },
+        comingSoon = src.comingSoon,
+        syncData = src.syncData,
+        posterHeaders = src.posterHeaders,
+        backgroundPosterUrl = src.backgroundPosterUrl,
+        contentRating = src.contentRating,
+        dataUrl = dataUrl,
         episodes = episodes,
-        actors = actors,
-        genres = src.tags
+        showStatus = when (src) {
+            is TvSeriesLoadResponse -> src.showStatus?.name
+            is AnimeLoadResponse -> src.showStatus?.name
+            else -> null
+        },
+        engName = (src as? AnimeLoadResponse)?.engName,
+        japName = (src as? AnimeLoadResponse)?.japName,
+        magnet = (src as? TorrentLoadResponse)?.magnet,
+        torrent = (src as? TorrentLoadResponse)?.torrent
     )
 }
 
+fun mapExtractorLink(src: ExtractorLink): ExtractorLinkResponse {
+    return ExtractorLinkResponse(
+        source = src.source,
+        name = src.name,
+        url = src.url,
+        referer = src.referer,
+        quality = src.quality,
+        headers = src.headers.takeIf { it.isNotEmpty() },
+        extractorData = src.extractorData,
+        type = src.type.name,
+        audioTracks = src.audioTracks.takeIf { it.isNotEmpty() }?.map { AudioFileResponse(it.url, it.headers) }
+    )
+}
+
+fun mapSubtitleFile(src: SubtitleFile): SubtitleFileResponse {
+    return SubtitleFileResponse(lang = src.lang, url = src.url, headers = src.headers)
+}
@@ -3,6 +3,7 @@ import { Layout } from './components/Layout';
 import { HomePage } from './pages/HomePage';
 import { SearchPage } from './pages/SearchPage';
 import { DetailsPage } from './pages/DetailsPage';
+import { StreamsPage } from './pages/StreamsPage';
 import { PlayerPage } from './pages/PlayerPage';
 import ExtensionsPage from './pages/PluginsPage';
 
@@ -14,6 +15,7 @@ function App() {
           <Route index element={<HomePage />} />
           <Route path="search" element={<SearchPage />} />
           <Route path="details" element={<DetailsPage />} />
+          <Route path="streams" element={<StreamsPage />} />
           <Route path="player" element={<PlayerPage />} />
           <Route path="plugins" element={<ExtensionsPage />} />
         </Route>
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { jvmBridge, type JvmBridgeState } from '../../core/services/jvmBridge';
+
+/**
+ * Banner under the navigation while the JVM bridge is down after a crash
+ * Kotlin plugins can't search or load until it is back
+ */
+export const JvmBridgeStatus: React.FC = () => {
+    const [state, setState] = useState<JvmBridgeState>(() => jvmBridge.getState());
+    const [restarting, setRestarting] = useState(false);
+
+    useEffect(() => {
+        return jvmBridge.subscribe(setState);
+    }, []);
+
+    if (state.status !== 'restarting' && state.status !== 'failed') return null;
+
+    const handleRestart = async () => {
+        setRestarting(true);
+        try {
+            await jvmBridge.restart();
+        } finally {
+            setRestarting(false);
+        }
+    };
+
+    return (
+        <div style={{
+            padding: '0.5rem 2rem',
+            backgroundColor: '#3a1f1f',
+            color: '#ffb4b4',
+            fontSize: '0.85rem',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '1rem',
+        }}>
+            <span style={{ flex: 1 }} title={state.error}>
+                {state.status === 'restarting'
+                    ? `JVM bridge is down, restarting (attempt ${state.restarts})...`
+                    : `JVM bridge is down and was not restarted after ${state.restarts} attempts. Kotlin extensions won't work.`}
+            </span>
+            {state.status === 'failed' && (
+                <button
+                    onClick={handleRestart}
+                    disabled={restarting}
+                    style={{ background: 'none', border: '1px solid #ffb4b4', borderRadius: '4px', color: '#fff', cursor: 'pointer', padding: '0.25rem 0.75rem' }}
+                >
+                    {restarting ? 'Restarting...' : 'Restart'}
+                </button>
+            )}
+        </div>
+    );
+};
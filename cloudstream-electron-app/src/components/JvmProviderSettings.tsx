@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { JvmPluginProvider } from '../../core/providers/JvmPluginProvider';
+import { jvmBridge } from '../../core/services/jvmBridge';
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.35rem 0.5rem',
+    backgroundColor: '#1a1a1a',
+    border: '1px solid #444',
+    borderRadius: '4px',
+    color: '#fff',
+    fontSize: '0.85rem',
+    flex: 1,
+    minWidth: 0,
+};
+
+/**
+ * Domain and credentials of one provider a Kotlin plugin registered
+ * Saved values are applied again whenever the plugin loads
+ */
+const ProviderSettingsRow: React.FC<{ provider: JvmPluginProvider }> = ({ provider }) => {
+    const saved = jvmBridge.getSettings().providers[provider.pluginId]?.[provider.name];
+    const [mainUrl, setMainUrl] = useState(saved?.mainUrl ?? '');
+    const [credentials, setCredentials] = useState(saved?.credentials ?? '');
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const handleSave = async () => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            await provider.updateSettings({ mainUrl: mainUrl.trim(), credentials: credentials.trim() });
+            setMessage('Saved');
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'Failed to save settings');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div style={{ marginTop: '0.5rem' }}>
+            <div style={{ color: '#fff', fontSize: '0.85rem', marginBottom: '0.25rem' }}>
+                {provider.name} <span style={{ color: 'rgba(255, 255, 255, 0.5)' }}>· {provider.mainUrl}</span>
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                {provider.canBeOverridden && (
+                    <input
+                        type="text"
+                        placeholder="Mirror domain (empty for the default)"
+                        value={mainUrl}
+                        onChange={(e) => setMainUrl(e.target.value)}
+                        style={inputStyle}
+                    />
+                )}
+                {provider.hasCredentials && (
+                    <input
+                        type="password"
+                        placeholder="Credentials"
+                        value={credentials}
+                        onChange={(e) => setCredentials(e.target.value)}
+                        style={inputStyle}
+                    />
+                )}
+                <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="install-button"
+                    style={{ width: 'auto', padding: '0.35rem 0.75rem', fontSize: '0.85rem' }}
+                >
+                    {saving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+            {message && (
+                <p style={{ color: message === 'Saved' ? '#8fd18f' : '#ff6666', fontSize: '0.8rem', margin: '0.25rem 0 0 0' }}>{message}</p>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Settings for the providers of an installed Kotlin plugin, nothing for other plugins
+ */
+export const JvmProviderSettings: React.FC<{ providers: JvmPluginProvider[] }> = ({ providers }) => {
+    const [open, setOpen] = useState(false);
+    const [enableAdult, setEnableAdult] = useState(() => jvmBridge.getSettings().enableAdult);
+    const configurable = providers.filter(provider => provider.canBeOverridden || provider.hasCredentials);
+
+    if (providers.length === 0) return null;
+
+    const handleAdultChange = async (enabled: boolean) => {
+        setEnableAdult(enabled);
+        try {
+            await jvmBridge.setEnableAdult(enabled);
+        } catch (err) {
+            console.error('Failed to apply the adult content setting:', err);
+        }
+    };
+
+    return (
+        <div style={{ marginTop: '0.5rem' }}>
+            <button
+                onClick={() => setOpen(!open)}
+                style={{ background: 'none', border: 'none', color: 'rgba(255, 255, 255, 0.7)', cursor: 'pointer', padding: 0, fontSize: '0.85rem' }}
+            >
+                {open ? '▾' : '▸'} {providers.length === 1 ? '1 provider' : `${providers.length} providers`}: {providers.map(p => p.name).join(', ')}
+            </button>
+            {open && (
+                <div style={{ marginTop: '0.25rem' }}>
+                    {configurable.map(provider => (
+                        <ProviderSettingsRow key={provider.name} provider={provider} />
+                    ))}
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem', color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.85rem' }}>
+                        <input
+                            type="checkbox"
+                            checked={enableAdult}
+                            onChange={(e) => handleAdultChange(e.target.checked)}
+                        />
+                        Allow adult content (all Kotlin extensions)
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Outlet, Link, useLocation } from 'react-router-dom';
+import { StartupProgress } from './StartupProgress';
+import { JvmBridgeStatus } from './JvmBridgeStatus';
 
 export const Layout: React.FC = () => {
     const location = useLocation();
@@ -59,6 +61,8 @@ export const Layout: React.FC = () => {
                 <div style={{ flexGrow: 1 }}></div>
                 <span style={{ fontWeight: '600', fontSize: '1.1rem' }}>CloudStream Desktop</span>
             </nav>
+            <StartupProgress />
+            <JvmBridgeStatus />
             <main style={{ flex: 1, overflow: 'auto', backgroundColor: '#242424' }}>
                 <Outlet />
             </main>
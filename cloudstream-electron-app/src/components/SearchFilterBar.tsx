@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import type { MainAPI } from '../../core/api/MainAPI';
+import { contentSources } from '../../core/api/ContentSources';
+import {
+    DEFAULT_SEARCH_FILTERS,
+    SEARCH_FILTER_TYPES,
+    hasActiveFilters,
+    type SearchFilters,
+} from '../../core/services/searchFilters';
+
+interface SearchFilterBarProps {
+    filters: SearchFilters;
+    providers: MainAPI[];
+    onChange: (filters: SearchFilters) => void;
+}
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+    padding: '0.35rem 0.9rem',
+    borderRadius: '16px',
+    border: active ? '1px solid #667eea' : '1px solid rgba(255,255,255,0.2)',
+    backgroundColor: active ? 'rgba(102, 126, 234, 0.3)' : 'transparent',
+    color: 'white',
+    fontSize: '0.85rem',
+    cursor: 'pointer',
+});
+
+const fieldStyle: React.CSSProperties = {
+    padding: '0.35rem 0.5rem',
+    backgroundColor: '#1a1a1a',
+    border: '1px solid #444',
+    borderRadius: '6px',
+    color: '#fff',
+    fontSize: '0.85rem',
+};
+
+const parseYear = (value: string): number | undefined => {
+    const year = parseInt(value, 10);
+    return Number.isNaN(year) ? undefined : year;
+};
+
+/**
+ * Filters above the search results: providers, type chips, language and year range
+ */
+export const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ filters, providers, onChange }) => {
+    const [showProviders, setShowProviders] = useState(false);
+    const languages = [...new Set(providers.map(provider => provider.lang).filter(Boolean))].sort();
+
+    const toggleType = (type: SearchFilters['types'][number]) => {
+        const types = filters.types.includes(type)
+            ? filters.types.filter(t => t !== type)
+            : [...filters.types, type];
+        onChange({ ...filters, types });
+    };
+
+    const toggleProvider = (sourceId: string) => {
+        const selected = filters.providers.includes(sourceId)
+            ? filters.providers.filter(p => p !== sourceId)
+            : [...filters.providers, sourceId];
+        onChange({ ...filters, providers: selected });
+    };
+
+    return (
+        <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '1.5rem' }}>
+            {SEARCH_FILTER_TYPES.map(chip => (
+                <button
+                    key={chip.type}
+                    onClick={() => toggleType(chip.type)}
+                    style={chipStyle(filters.types.includes(chip.type))}
+                >
+                    {chip.label}
+                </button>
+            ))}
+
+            <div style={{ position: 'relative' }}>
+                <button onClick={() => setShowProviders(!showProviders)} style={chipStyle(filters.providers.length > 0)}>
+                    {filters.providers.length === 0
+                        ? 'All providers'
+                        : `${filters.providers.length} provider${filters.providers.length !== 1 ? 's' : ''}`} ▾
+                </button>
+                {showProviders && (
+                    <div style={{
+                        position: 'absolute',
+                        top: 'calc(100% + 0.25rem)',
+                        left: 0,
+                        zIndex: 10,
+                        minWidth: '220px',
+                        maxHeight: '300px',
+                        overflowY: 'auto',
+                        padding: '0.5rem',
+                        backgroundColor: '#1f1f1f',
+                        border: '1px solid #444',
+                        borderRadius: '8px',
+                    }}>
+                        {providers.length === 0 && (
+                            <div style={{ color: '#999', fontSize: '0.85rem' }}>No providers installed</div>
+                        )}
+                        {providers.map(provider => {
+                            const sourceId = contentSources.getSourceId(provider);
+                            return (
+                                <label
+                                    key={sourceId}
+                                    style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.25rem 0', color: '#fff', fontSize: '0.85rem', cursor: 'pointer' }}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={filters.providers.includes(sourceId)}
+                                        onChange={() => toggleProvider(sourceId)}
+                                    />
+                                    {provider.name}
+                                    {provider.lang && <span style={{ color: '#999' }}>({provider.lang})</span>}
+                                </label>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            <select
+                value={filters.language ?? ''}
+                onChange={(e) => onChange({ ...filters, language: e.target.value || undefined })}
+                style={fieldStyle}
+            >
+                <option value="">All languages</option>
+                {languages.map(lang => (
+                    <option key={lang} value={lang}>{lang}</option>
+                ))}
+            </select>
+
+            <div style={{ display: 'flex', gap: '0.35rem', alignItems: 'center', color: '#999', fontSize: '0.85rem' }}>
+                <input
+                    type="number"
+                    placeholder="From"
+                    value={filters.yearFrom ?? ''}
+                    onChange={(e) => onChange({ ...filters, yearFrom: parseYear(e.target.value) })}
+                    style={{ ...fieldStyle, width: '5.5rem' }}
+                />
+                –
+                <input
+                    type="number"
+                    placeholder="To"
+                    value={filters.yearTo ?? ''}
+                    onChange={(e) => onChange({ ...filters, yearTo: parseYear(e.target.value) })}
+                    style={{ ...fieldStyle, width: '5.5rem' }}
+                />
+            </div>
+
+            {hasActiveFilters(filters) && (
+                <button
+                    onClick={() => onChange(DEFAULT_SEARCH_FILTERS)}
+                    style={{ background: 'none', border: 'none', color: '#667eea', cursor: 'pointer', fontSize: '0.85rem' }}
+                >
+                    Clear filters
+                </button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { pluginBootstrap, type PluginBootstrapState } from '../../core/services/pluginBootstrap';
+
+/**
+ * Banner under the navigation while enabled plugins load on startup
+ * Stays behind with a summary when some of them failed
+ */
+export const StartupProgress: React.FC = () => {
+    const [state, setState] = useState<PluginBootstrapState>(() => pluginBootstrap.getState());
+    const [dismissed, setDismissed] = useState(false);
+
+    useEffect(() => {
+        return pluginBootstrap.subscribe(setState);
+    }, []);
+
+    if (state.total === 0 || dismissed) return null;
+
+    if (state.status === 'loading') {
+        const percent = Math.round((state.completed / state.total) * 100);
+        return (
+            <div style={{ backgroundColor: '#1a1a1a', color: 'rgba(255,255,255,0.8)', fontSize: '0.85rem' }}>
+                <div style={{ padding: '0.5rem 2rem', display: 'flex', gap: '1rem' }}>
+                    <span>Loading extensions {state.completed}/{state.total}</span>
+                    <span style={{ color: 'rgba(255,255,255,0.5)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {state.current.join(', ')}
+                    </span>
+                </div>
+                <div style={{ height: '3px', backgroundColor: 'rgba(255,255,255,0.1)' }}>
+                    <div style={{ height: '100%', width: `${percent}%`, backgroundColor: '#667eea', transition: 'width 0.2s' }} />
+                </div>
+            </div>
+        );
+    }
+
+    if (state.status !== 'done' || state.failures.length === 0) return null;
+
+    return (
+        <div style={{
+            padding: '0.5rem 2rem',
+            backgroundColor: '#3a1f1f',
+            color: '#ffb4b4',
+            fontSize: '0.85rem',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '1rem',
+        }}>
+            <span style={{ flex: 1 }} title={state.failures.map(f => `${f.name} (${f.error.stage}): ${f.error.message}`).join('\n')}>
+                {state.failures.length} of {state.total} extensions failed to load: {state.failures.map(f => f.name).join(', ')}
+            </span>
+            <Link to="/plugins" style={{ color: '#fff' }}>Details</Link>
+            <button
+                onClick={() => setDismissed(true)}
+                style={{ background: 'none', border: 'none', color: '#fff', cursor: 'pointer', fontSize: '1rem' }}
+                title="Dismiss"
+            >
+                ×
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import type { SubtitleCue, SubtitleSegment } from '../../core/models/SubtitleCue';
+import type { SubtitleSettings } from '../../core/services/subtitleSettings';
+
+interface SubtitleOverlayProps {
+    videoRef: React.RefObject<HTMLVideoElement | null>;
+    cues: SubtitleCue[];
+    delayMs: number;
+    settings: SubtitleSettings;
+    // Bottom cues move up while the controls are visible
+    controlsVisible: boolean;
+}
+
+// Default text height as a share of the viewport, scaled by settings.fontScale
+const BASE_FONT_SIZE_VH = 4.5;
+
+/**
+ * Converts a hex color and opacity to rgba()
+ */
+const withOpacity = (hex: string, opacity: number): string => {
+    const value = hex.replace('#', '');
+    const r = parseInt(value.substring(0, 2), 16);
+    const g = parseInt(value.substring(2, 4), 16);
+    const b = parseInt(value.substring(4, 6), 16);
+    return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+};
+
+const outlineShadow = (color: string): string => {
+    const w = '0.06em';
+    return [
+        `-${w} -${w} 0 ${color}`, `0 -${w} 0 ${color}`, `${w} -${w} 0 ${color}`,
+        `-${w} 0 0 ${color}`, `${w} 0 0 ${color}`,
+        `-${w} ${w} 0 ${color}`, `0 ${w} 0 ${color}`, `${w} ${w} 0 ${color}`,
+    ].join(', ');
+};
+
+/**
+ * Renders parsed cues over the video, replacing the native <track> renderer
+ * Lives inside the player container so it also shows in fullscreen
+ */
+export const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ videoRef, cues, delayMs, settings, controlsVisible }) => {
+    const [activeCues, setActiveCues] = useState<SubtitleCue[]>([]);
+
+    // timeupdate only fires about 4 times a second, poll every frame for tight sync
+    useEffect(() => {
+        let frame = 0;
+        let previous: SubtitleCue[] = [];
+
+        const tick = () => {
+            const video = videoRef.current;
+            if (video) {
+                const time = video.currentTime - delayMs / 1000;
+                const active = cues.filter(cue => cue.start <= time && time < cue.end);
+                if (active.length !== previous.length || active.some((cue, i) => cue !== previous[i])) {
+                    previous = active;
+                    setActiveCues(active);
+                }
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+
+        return () => cancelAnimationFrame(frame);
+    }, [videoRef, cues, delayMs]);
+
+    const textStyle: React.CSSProperties = {
+        color: settings.color,
+        textShadow: settings.outline ? outlineShadow(settings.outlineColor) : undefined,
+        backgroundColor: settings.background ? withOpacity('#000000', settings.backgroundOpacity) : undefined,
+        padding: settings.background ? '0.1em 0.3em' : undefined,
+        boxDecorationBreak: 'clone',
+        WebkitBoxDecorationBreak: 'clone',
+        whiteSpace: 'pre-line',
+        lineHeight: 1.35,
+    };
+
+    const renderSegment = (segment: SubtitleSegment, index: number) => (
+        <span
+            key={index}
+            style={{
+                fontStyle: segment.italic ? 'italic' : undefined,
+                fontWeight: segment.bold ? 'bold' : undefined,
+                textDecoration: segment.underline ? 'underline' : undefined,
+                color: segment.color,
+                fontFamily: segment.fontName,
+            }}
+        >
+            {segment.text}
+        </span>
+    );
+
+    const renderGroup = (group: SubtitleCue[], placement: React.CSSProperties) => group.length > 0 && (
+        <div
+            style={{
+                position: 'absolute',
+                left: '5%',
+                right: '5%',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '0.2em',
+                pointerEvents: 'none',
+                fontSize: `${(BASE_FONT_SIZE_VH * settings.fontScale) / 100}vh`,
+                transition: 'bottom 0.3s',
+                ...placement,
+            }}
+        >
+            {group.map((cue, index) => (
+                <div key={`${cue.start}-${index}`} style={{ textAlign: cue.position?.align ?? 'center' }}>
+                    <span style={textStyle}>
+                        {(cue.formattedSegments ?? [{ text: cue.text }]).map(renderSegment)}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+
+    if (activeCues.length === 0) return null;
+
+    return (
+        <>
+            {renderGroup(
+                activeCues.filter(cue => cue.position?.vertical === 'top'),
+                { top: `${settings.bottomOffset}%` }
+            )}
+            {renderGroup(
+                activeCues.filter(cue => cue.position?.vertical === 'middle'),
+                { top: '50%', transform: 'translateY(-50%)' }
+            )}
+            {renderGroup(
+                activeCues.filter(cue => !cue.position?.vertical || cue.position.vertical === 'bottom'),
+                { bottom: controlsVisible ? `max(${settings.bottomOffset}%, 120px)` : `${settings.bottomOffset}%` }
+            )}
+        </>
+    );
+};
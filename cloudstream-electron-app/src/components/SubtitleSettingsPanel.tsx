@@ -0,0 +1,132 @@
+import React from 'react';
+import {
+    DEFAULT_SUBTITLE_SETTINGS,
+    SUBTITLE_DELAY_STEP_MS,
+    formatSubtitleDelay,
+    type SubtitleSettings,
+} from '../../core/services/subtitleSettings';
+
+interface SubtitleSettingsPanelProps {
+    settings: SubtitleSettings;
+    onChange: (settings: SubtitleSettings) => void;
+    delayMs: number;
+    onDelayChange: (delayMs: number) => void;
+}
+
+const TEXT_COLORS = ['#FFFFFF', '#FFFF00', '#00FFFF', '#00FF00', '#FF69B4'];
+
+const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '0.75rem',
+    padding: '0.4rem 0.75rem',
+    color: 'white',
+    fontSize: '0.85rem',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.15)',
+    border: 'none',
+    color: 'white',
+    cursor: 'pointer',
+    padding: '0.25rem 0.6rem',
+    borderRadius: '4px',
+};
+
+/**
+ * Subtitle appearance and sync controls shown inside the player's subtitle menu
+ */
+export const SubtitleSettingsPanel: React.FC<SubtitleSettingsPanelProps> = ({ settings, onChange, delayMs, onDelayChange }) => {
+    const update = (changes: Partial<SubtitleSettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,0.2)', marginTop: '0.25rem', paddingTop: '0.25rem' }}>
+            <div style={rowStyle}>
+                <span title="G / H">Delay</span>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+                    <button style={smallButtonStyle} onClick={() => onDelayChange(delayMs - SUBTITLE_DELAY_STEP_MS)} title="Show earlier (G)">−</button>
+                    <span style={{ minWidth: '60px', textAlign: 'center' }}>{formatSubtitleDelay(delayMs)}</span>
+                    <button style={smallButtonStyle} onClick={() => onDelayChange(delayMs + SUBTITLE_DELAY_STEP_MS)} title="Show later (H)">+</button>
+                    {delayMs !== 0 && (
+                        <button style={smallButtonStyle} onClick={() => onDelayChange(0)} title="Reset delay">↺</button>
+                    )}
+                </div>
+            </div>
+
+            <div style={rowStyle}>
+                <span>Size</span>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+                    <button style={smallButtonStyle} onClick={() => update({ fontScale: Math.max(50, settings.fontScale - 10) })}>A−</button>
+                    <span style={{ minWidth: '40px', textAlign: 'center' }}>{settings.fontScale}%</span>
+                    <button style={smallButtonStyle} onClick={() => update({ fontScale: Math.min(250, settings.fontScale + 10) })}>A+</button>
+                </div>
+            </div>
+
+            <div style={rowStyle}>
+                <span>Color</span>
+                <div style={{ display: 'flex', gap: '0.3rem' }}>
+                    {TEXT_COLORS.map(color => (
+                        <button
+                            key={color}
+                            onClick={() => update({ color })}
+                            title={color}
+                            style={{
+                                width: '20px',
+                                height: '20px',
+                                padding: 0,
+                                borderRadius: '50%',
+                                backgroundColor: color,
+                                border: settings.color === color ? '2px solid #007bff' : '2px solid transparent',
+                                cursor: 'pointer',
+                            }}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            <label style={rowStyle}>
+                <span>Outline</span>
+                <input type="checkbox" checked={settings.outline} onChange={(e) => update({ outline: e.target.checked })} />
+            </label>
+
+            <label style={rowStyle}>
+                <span>Background</span>
+                <input type="checkbox" checked={settings.background} onChange={(e) => update({ background: e.target.checked })} />
+            </label>
+
+            {settings.background && (
+                <label style={rowStyle}>
+                    <span>Opacity</span>
+                    <input
+                        type="range"
+                        min="0.1"
+                        max="1"
+                        step="0.05"
+                        value={settings.backgroundOpacity}
+                        onChange={(e) => update({ backgroundOpacity: parseFloat(e.target.value) })}
+                        style={{ width: '100px' }}
+                    />
+                </label>
+            )}
+
+            <label style={rowStyle}>
+                <span>Position</span>
+                <input
+                    type="range"
+                    min="0"
+                    max="40"
+                    step="1"
+                    value={settings.bottomOffset}
+                    onChange={(e) => update({ bottomOffset: parseInt(e.target.value, 10) })}
+                    title={`${settings.bottomOffset}% from the bottom`}
+                    style={{ width: '100px' }}
+                />
+            </label>
+
+            <div style={{ ...rowStyle, justifyContent: 'flex-end' }}>
+                <button style={smallButtonStyle} onClick={() => onChange(DEFAULT_SUBTITLE_SETTINGS)}>Reset style</button>
+            </div>
+        </div>
+    );
+};
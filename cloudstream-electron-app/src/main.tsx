@@ -2,9 +2,17 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { hydrateDataStore } from '../core/services/dataStore'
+import { pluginUpdater } from '../core/services/pluginUpdater'
+import { pluginBootstrap } from '../core/services/pluginBootstrap'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Stored plugins, repositories and add-ons are read synchronously, load them before the first render
+hydrateDataStore().then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+  // Updates hot-swap loaded plugins, so check once the enabled ones are in
+  pluginBootstrap.start().then(() => pluginUpdater.start())
+})
@@ -1,18 +1,82 @@
 import React, { useEffect, useState } from 'react';
-import { useSearchParams, Link, useNavigate } from 'react-router-dom';
-import { apiHolder } from '../../core/api/ApiHolder';
-import type { LoadResponse, TvSeriesLoadResponse } from '../../core/models/LoadResponse';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { contentSources } from '../../core/api/ContentSources';
+import type { LoadResponse, MovieLoadResponse, TvSeriesLoadResponse } from '../../core/models/LoadResponse';
+import type { Episode } from '../../core/models/Episode';
+import { isMovieType } from '../../core/models/TvType';
+import { registerPosterHeaders, clearPosterHeaders } from '../../core/services/requestHeaders';
+
+interface DetailsSource {
+    apiName: string;
+    url: string;
+}
+
+/**
+ * Providers a grouped search result came from, passed by the search page
+ */
+const parseSources = (value: string | null): DetailsSource[] => {
+    if (!value) return [];
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed)
+            ? parsed.filter((source): source is DetailsSource => typeof source?.apiName === 'string' && typeof source?.url === 'string')
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Switches between the providers that found the same title
+ */
+const SourcePicker: React.FC<{ sources: DetailsSource[]; current: DetailsSource; onSelect: (source: DetailsSource) => void }> = ({ sources, current, onSelect }) => (
+    <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '1.5rem' }}>
+        <span style={{ color: '#666', fontSize: '0.9rem' }}>Provider:</span>
+        {sources.map(source => {
+            const active = source.apiName === current.apiName && source.url === current.url;
+            return (
+                <button
+                    key={`${source.apiName}-${source.url}`}
+                    onClick={() => !active && onSelect(source)}
+                    style={{
+                        padding: '0.35rem 0.9rem',
+                        borderRadius: '16px',
+                        border: active ? '1px solid #007bff' : '1px solid #ccc',
+                        backgroundColor: active ? '#007bff' : 'transparent',
+                        color: active ? 'white' : 'inherit',
+                        fontSize: '0.85rem',
+                        cursor: active ? 'default' : 'pointer',
+                    }}
+                >
+                    {contentSources.getSource(source.apiName)?.name ?? source.apiName}
+                </button>
+            );
+        })}
+    </div>
+);
 
 export const DetailsPage: React.FC = () => {
     const [searchParams] = useSearchParams();
     const navigate = useNavigate();
     const url = searchParams.get('url');
     const apiName = searchParams.get('apiName');
+    const sourcesParam = searchParams.get('sources');
+    const sources = parseSources(sourcesParam);
     const [data, setData] = useState<LoadResponse | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
+    // Poster rules only live as long as the page showing them
+    useEffect(() => {
+        return () => {
+            clearPosterHeaders();
+        };
+    }, []);
+
     useEffect(() => {
+        // Switching sources before a slow provider answers must not show its details for the new one
+        let cancelled = false;
+
         const loadData = async () => {
             if (!url) {
                 setError('No URL provided');
@@ -26,8 +90,8 @@ export const DetailsPage: React.FC = () => {
                 
                 // Find the specific provider if apiName is provided
                 const provider = apiName
-                    ? apiHolder.getApi(apiName)
-                    : apiHolder.getAllApis()[0];
+                    ? contentSources.getSource(apiName)
+                    : contentSources.getAllSources()[0];
 
                 if (!provider) {
                     setError('Provider not found');
@@ -36,16 +100,34 @@ export const DetailsPage: React.FC = () => {
                 }
 
                 const res = await provider.load(url);
+                if (cancelled) return;
+                await registerPosterHeaders([res]);
+                if (cancelled) return;
                 setData(res);
             } catch (err) {
+                if (cancelled) return;
                 setError(err instanceof Error ? err.message : 'Failed to load data');
             } finally {
-                setLoading(false);
+                if (!cancelled) setLoading(false);
             }
         };
         loadData();
+
+        return () => {
+            cancelled = true;
+        };
     }, [url, apiName]);
 
+    const selectSource = (source: DetailsSource) => {
+        const params = new URLSearchParams({ url: source.url, apiName: source.apiName });
+        if (sourcesParam) params.set('sources', sourcesParam);
+        navigate(`/details?${params.toString()}`, { replace: true });
+    };
+
+    const sourcePicker = sources.length > 1 && url && apiName
+        ? <SourcePicker sources={sources} current={{ url, apiName }} onSelect={selectSource} />
+        : null;
+
     if (loading) {
         return (
             <div style={{ padding: '2rem', textAlign: 'center' }}>
@@ -57,6 +139,8 @@ export const DetailsPage: React.FC = () => {
     if (error || !data) {
         return (
             <div style={{ padding: '2rem', maxWidth: '800px', margin: '0 auto' }}>
+                {/* Another provider may still have it */}
+                {sourcePicker}
                 <div style={{
                     padding: '1.5rem',
                     backgroundColor: '#fee',
@@ -86,6 +170,31 @@ export const DetailsPage: React.FC = () => {
     const episodes = Array.isArray((data as TvSeriesLoadResponse).episodes)
         ? (data as TvSeriesLoadResponse).episodes
         : [];
+    const movieDataUrl = (data as MovieLoadResponse).dataUrl;
+
+    // Open the stream selection for an episode, or the movie when episode is undefined
+    const openStreams = (linkData: string, title: string, episodeIndex: number, episode?: Episode) => {
+        const params = new URLSearchParams({
+            apiName: data.apiName,
+            data: linkData,
+            name: title,
+            title: data.name,
+        });
+
+        // Stremio add-ons are queried by IMDb id when the provider reports one
+        const imdbId = data.syncData?.imdb;
+        if (imdbId) {
+            const isSeries = !isMovieType(data.type) && episode;
+            params.set('stremioType', isSeries ? 'series' : 'movie');
+            params.set('stremioId', isSeries ? `${imdbId}:${episode.season ?? 1}:${episode.episode ?? episodeIndex + 1}` : imdbId);
+        }
+
+        if (episodeIndex >= 0) {
+            params.set('episodeIndex', String(episodeIndex));
+            params.set('episodes', JSON.stringify(episodes.map((e: Episode) => ({ data: e.data, name: e.name, season: e.season, episode: e.episode }))));
+        }
+        navigate(`/streams?${params.toString()}`);
+    };
 
     return (
         <div style={{ padding: '2rem', maxWidth: '1200px', margin: '0 auto' }}>
@@ -104,6 +213,8 @@ export const DetailsPage: React.FC = () => {
                 ← Back
             </button>
 
+            {sourcePicker}
+
             <div style={{
                 display: 'flex',
                 gap: '2rem',
@@ -176,6 +287,24 @@ export const DetailsPage: React.FC = () => {
                     <div style={{ fontSize: '0.9rem', color: '#666' }}>
                         Provider: {data.apiName}
                     </div>
+                    {movieDataUrl && (
+                        <button
+                            onClick={() => openStreams(movieDataUrl, data.name, -1)}
+                            style={{
+                                marginTop: '1.5rem',
+                                padding: '0.75rem 2rem',
+                                backgroundColor: '#007bff',
+                                color: 'white',
+                                border: 'none',
+                                borderRadius: '8px',
+                                cursor: 'pointer',
+                                fontSize: '1rem',
+                                fontWeight: '600',
+                            }}
+                        >
+                            ▶ Play
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -193,8 +322,8 @@ export const DetailsPage: React.FC = () => {
                         gap: '1rem',
                     }}>
                         {episodes.map((ep, index) => (
-                            <Link
-                                to={`/player?url=${encodeURIComponent(ep.data)}&name=${encodeURIComponent(ep.name || 'Episode')}&episodeIndex=${index}&episodes=${encodeURIComponent(JSON.stringify(episodes.map(e => ({ data: e.data, name: e.name, season: e.season, episode: e.episode }))))}`}
+                            <div
+                                onClick={() => openStreams(ep.data, ep.name || `Episode ${index + 1}`, index, ep)}
                                 key={index}
                                 style={{
                                     padding: '1rem',
@@ -205,6 +334,7 @@ export const DetailsPage: React.FC = () => {
                                     border: '1px solid #e0e0e0',
                                     transition: 'all 0.2s',
                                     display: 'block',
+                                    cursor: 'pointer',
                                 }}
                                 onMouseEnter={(e) => {
                                     e.currentTarget.style.backgroundColor = '#e9ecef';
@@ -226,7 +356,7 @@ export const DetailsPage: React.FC = () => {
                                         {ep.description}
                                     </div>
                                 )}
-                            </Link>
+                            </div>
                         ))}
                     </div>
                 </div>
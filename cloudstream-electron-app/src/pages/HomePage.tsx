@@ -1,100 +1,258 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
+import { contentSources } from '../../core/api/ContentSources';
+import type { MainAPI } from '../../core/api/MainAPI';
+import type { HomePageList, MainPageData } from '../../core/models/HomePage';
+import { registerPosterHeaders, clearPosterHeaders } from '../../core/services/requestHeaders';
+import { pluginBootstrap } from '../../core/services/pluginBootstrap';
+import { getHomeSource, saveHomeSource } from '../../core/services/homeSettings';
+
+interface HomeRow {
+    section: MainPageData;
+    list: HomePageList;
+    page: number;
+    hasNext: boolean;
+    loading: boolean;
+    error?: string;
+}
+
+/**
+ * Providers that can render a home page
+ */
+function getHomeProviders(): MainAPI[] {
+    return contentSources.getAllSources().filter(api => api.hasMainPage && typeof api.getMainPage === 'function');
+}
+
+/**
+ * Requests one page of a section and returns the matching list
+ */
+async function loadSection(provider: MainAPI, section: MainPageData, page: number): Promise<{ list: HomePageList; hasNext: boolean }> {
+    const response = await provider.getMainPage!(page, {
+        name: section.name,
+        data: section.data,
+        horizontalImages: section.horizontalImages ?? false,
+    });
+
+    const items = response?.items ?? [];
+    const list = items.find(item => item.name === section.name) ?? items[0];
+    if (list) {
+        await registerPosterHeaders(list.list);
+    }
+    return {
+        list: list ?? { name: section.name, list: [], isHorizontalImages: section.horizontalImages },
+        hasNext: response?.hasNext ?? false,
+    };
+}
 
 export const HomePage: React.FC = () => {
-    // Test video URLs - publicly available sample videos
-    const testVideos = [
-        {
-            name: 'Big Buck Bunny (Sample Video)',
-            url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4',
-            description: 'A classic test video for media players',
-        },
-        {
-            name: 'Elephants Dream (Sample Video)',
-            url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ElephantsDream.mp4',
-            description: 'Another test video sample',
-        },
-        {
-            name: 'For Bigger Blazes (Sample Video)',
-            url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4',
-            description: 'Short test video',
-        },
-    ];
+    const [providers, setProviders] = useState<MainAPI[]>(getHomeProviders);
+    // Selected by source id, a plugin and a Stremio add-on can share a name
+    const [sourceId, setSourceId] = useState<string>(() => {
+        const stored = getHomeSource();
+        const available = getHomeProviders().map(p => contentSources.getSourceId(p));
+        return available.find(id => id === stored) ?? available[0] ?? '';
+    });
+    const [rows, setRows] = useState<HomeRow[]>([]);
+
+    // Poster rules only live as long as the page showing them
+    useEffect(() => {
+        return () => {
+            clearPosterHeaders();
+        };
+    }, []);
+
+    // Plugins enabled last session register after the first render
+    useEffect(() => {
+        return pluginBootstrap.subscribe((state) => {
+            if (state.status !== 'done') return;
+            const available = getHomeProviders();
+            const ids = available.map(p => contentSources.getSourceId(p));
+            const stored = getHomeSource();
+            setProviders(available);
+            setSourceId(current => ids.find(id => id === stored)
+                ?? ids.find(id => id === current)
+                ?? ids[0]
+                ?? '');
+        });
+    }, []);
+
+    useEffect(() => {
+        const provider = providers.find(p => contentSources.getSourceId(p) === sourceId);
+        let cancelled = false;
+
+        const loadHome = async () => {
+            if (!provider) {
+                setRows([]);
+                return;
+            }
+
+            // Providers without declared sections get a single unnamed section, like Android
+            const sections = provider.mainPage && provider.mainPage.length > 0
+                ? provider.mainPage
+                : [{ name: '', data: '' }];
+
+            setRows(sections.map(section => ({
+                section,
+                list: { name: section.name, list: [], isHorizontalImages: section.horizontalImages },
+                page: 0,
+                hasNext: false,
+                loading: true,
+            })));
+
+            await Promise.all(sections.map(async (section, index) => {
+                try {
+                    const { list, hasNext } = await loadSection(provider, section, 1);
+                    if (cancelled) return;
+                    setRows(prev => prev.map((row, i) => i === index
+                        ? { ...row, list, hasNext, page: 1, loading: false }
+                        : row));
+                } catch (err) {
+                    if (cancelled) return;
+                    setRows(prev => prev.map((row, i) => i === index
+                        ? { ...row, loading: false, error: err instanceof Error ? err.message : 'Failed to load section' }
+                        : row));
+                }
+            }));
+        };
+        loadHome();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [providers, sourceId]);
+
+    const selectProvider = (id: string) => {
+        saveHomeSource(id);
+        setSourceId(id);
+    };
+
+    const loadNextPage = async (index: number) => {
+        const provider = providers.find(p => contentSources.getSourceId(p) === sourceId);
+        const row = rows[index];
+        if (!provider || !row || row.loading || !row.hasNext) return;
+
+        setRows(prev => prev.map((r, i) => i === index ? { ...r, loading: true } : r));
+        try {
+            const { list, hasNext } = await loadSection(provider, row.section, row.page + 1);
+            setRows(prev => prev.map((r, i) => i === index
+                ? {
+                    ...r,
+                    list: { ...r.list, list: [...r.list.list, ...list.list] },
+                    page: r.page + 1,
+                    hasNext,
+                    loading: false,
+                }
+                : r));
+        } catch (err) {
+            setRows(prev => prev.map((r, i) => i === index
+                ? { ...r, loading: false, error: err instanceof Error ? err.message : 'Failed to load section' }
+                : r));
+        }
+    };
 
     return (
-        <div style={{ padding: '2rem', maxWidth: '1200px', margin: '0 auto' }}>
-            <h1 style={{ marginBottom: '0.5rem' }}>Welcome to CloudStream Desktop</h1>
-            <p style={{ color: '#666', marginBottom: '2rem' }}>
-                Search for content or test the video player with sample videos below
-            </p>
-
-            <div style={{ marginBottom: '3rem' }}>
-                <h2 style={{ marginBottom: '1rem' }}>Test Video Player</h2>
-                <p style={{ color: '#666', marginBottom: '1rem' }}>
-                    Click on any video below to test the player controls:
-                </p>
-                <div style={{
-                    display: 'grid',
-                    gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
-                    gap: '1.5rem',
-                }}>
-                    {testVideos.map((video, index) => (
-                        <Link
-                            key={index}
-                            to={`/player?url=${encodeURIComponent(video.url)}&name=${encodeURIComponent(video.name)}`}
-                            style={{
-                                textDecoration: 'none',
-                                color: 'inherit',
-                            }}
-                        >
-                            <div style={{
-                                border: '1px solid #e0e0e0',
-                                borderRadius: '12px',
-                                overflow: 'hidden',
-                                transition: 'transform 0.2s, box-shadow 0.2s',
-                                cursor: 'pointer',
-                                backgroundColor: 'white',
-                            }}
-                            onMouseEnter={(e) => {
-                                e.currentTarget.style.transform = 'translateY(-4px)';
-                                e.currentTarget.style.boxShadow = '0 4px 12px rgba(0,0,0,0.15)';
-                            }}
-                            onMouseLeave={(e) => {
-                                e.currentTarget.style.transform = 'translateY(0)';
-                                e.currentTarget.style.boxShadow = 'none';
-                            }}
-                            >
-                                <div style={{
-                                    width: '100%',
-                                    height: '200px',
-                                    backgroundColor: '#f0f0f0',
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'center',
-                                    fontSize: '3rem',
-                                }}>
-                                    ▶
-                                </div>
-                                <div style={{ padding: '1rem' }}>
+        <div style={{ padding: '2rem', maxWidth: '1400px', margin: '0 auto' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '2rem' }}>
+                <h1 style={{ margin: 0, fontSize: '2rem', flex: 1 }}>Home</h1>
+                {providers.length > 0 && (
+                    <select
+                        value={sourceId}
+                        onChange={(e) => selectProvider(e.target.value)}
+                        style={{
+                            padding: '0.5rem 0.75rem',
+                            fontSize: '1rem',
+                            borderRadius: '8px',
+                            border: '1px solid #ddd',
+                        }}
+                    >
+                        {providers.map(provider => (
+                            <option key={contentSources.getSourceId(provider)} value={contentSources.getSourceId(provider)}>{provider.name}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {providers.length === 0 && (
+                <div style={{ textAlign: 'center', padding: '2rem', color: '#666' }}>
+                    No providers with a home page are installed. Add one from the <Link to="/plugins">Extensions</Link> page.
+                </div>
+            )}
+
+            {rows.map((row, index) => {
+                const horizontal = row.list.isHorizontalImages ?? row.section.horizontalImages ?? false;
+                return (
+                    <div key={`${row.section.name}-${index}`} style={{ marginBottom: '2rem' }}>
+                        {row.section.name && (
+                            <h2 style={{ marginBottom: '1rem', fontSize: '1.3rem' }}>{row.list.name || row.section.name}</h2>
+                        )}
+                        {row.error && (
+                            <div style={{ padding: '1rem', backgroundColor: '#fee', color: '#c00', borderRadius: '8px', marginBottom: '1rem' }}>
+                                {row.error}
+                            </div>
+                        )}
+                        <div style={{ display: 'flex', gap: '1rem', overflowX: 'auto', paddingBottom: '0.5rem' }}>
+                            {row.list.list.map((item, itemIndex) => (
+                                <Link
+                                    to={`/details?url=${encodeURIComponent(item.url)}&apiName=${encodeURIComponent(item.apiName)}`}
+                                    key={`${item.url}-${itemIndex}`}
+                                    style={{ textDecoration: 'none', color: 'inherit', flexShrink: 0, width: horizontal ? '260px' : '150px' }}
+                                >
                                     <div style={{
-                                        fontWeight: '600',
-                                        marginBottom: '0.5rem',
-                                        fontSize: '1.1rem',
+                                        position: 'relative',
+                                        paddingTop: horizontal ? '56.25%' : '150%',
+                                        backgroundColor: '#333',
+                                        borderRadius: '8px',
+                                        overflow: 'hidden',
                                     }}>
-                                        {video.name}
+                                        {item.posterUrl && (
+                                            <img
+                                                src={item.posterUrl}
+                                                alt={item.name}
+                                                style={{
+                                                    position: 'absolute',
+                                                    top: 0,
+                                                    left: 0,
+                                                    width: '100%',
+                                                    height: '100%',
+                                                    objectFit: 'cover',
+                                                }}
+                                                onError={(e) => {
+                                                    e.currentTarget.style.display = 'none';
+                                                }}
+                                            />
+                                        )}
                                     </div>
                                     <div style={{
                                         fontSize: '0.9rem',
-                                        color: '#666',
+                                        marginTop: '0.5rem',
+                                        overflow: 'hidden',
+                                        textOverflow: 'ellipsis',
+                                        whiteSpace: 'nowrap',
                                     }}>
-                                        {video.description}
+                                        {item.name}
                                     </div>
+                                </Link>
+                            ))}
+                            {row.loading && (
+                                <div style={{ alignSelf: 'center', color: '#999', padding: '0 1rem', flexShrink: 0 }}>
+                                    Loading...
                                 </div>
-                            </div>
-                        </Link>
-                    ))}
-                </div>
-            </div>
+                            )}
+                            {!row.loading && row.hasNext && (
+                                <button
+                                    onClick={() => loadNextPage(index)}
+                                    style={{ alignSelf: 'center', flexShrink: 0, color: 'white' }}
+                                >
+                                    More →
+                                </button>
+                            )}
+                        </div>
+                        {!row.loading && !row.error && row.list.list.length === 0 && (
+                            <div style={{ color: '#999' }}>Nothing here</div>
+                        )}
+                    </div>
+                );
+            })}
 
             <div style={{
                 padding: '1.5rem',
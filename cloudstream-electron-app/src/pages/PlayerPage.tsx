@@ -2,6 +2,39 @@ import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { saveResumePosition, getResumePosition, shouldResume, clearResumePosition } from '../../core/services/resumeService';
 import type { SubtitleFile } from '../../core/models/SubtitleFile';
+import { contentSources } from '../../core/api/ContentSources';
+import { collectLinks } from '../../core/services/linkService';
+import { pickBestStream } from '../../core/services/streamService';
+import { getAllHeaders, type ExtractorLink } from '../../core/models/ExtractorLink';
+import { registerPlaybackHeaders, clearPlaybackHeaders, allowPlaybackHost, registerSubtitleHeaders, clearSubtitleHeaders } from '../../core/services/requestHeaders';
+import { fetchSubtitleCues } from '../../core/services/subtitleService';
+import {
+    getSubtitleSettings,
+    saveSubtitleSettings,
+    getSubtitleDelay,
+    saveSubtitleDelay,
+    formatSubtitleDelay,
+    SUBTITLE_DELAY_STEP_MS,
+    type SubtitleSettings,
+} from '../../core/services/subtitleSettings';
+import type { SubtitleCue } from '../../core/models/SubtitleCue';
+import { SubtitleOverlay } from '../components/SubtitleOverlay';
+import { SubtitleSettingsPanel } from '../components/SubtitleSettingsPanel';
+import {
+    loadSavedLocalSubtitles,
+    pickSubtitleFile,
+    readDroppedSubtitle,
+    releaseLocalSubtitle,
+    saveLocalSubtitle,
+    type LocalSubtitle,
+} from '../../core/services/localSubtitles';
+import {
+    attachStream,
+    detectManifestType,
+    type AudioRendition,
+    type QualityLevel,
+    type StreamingEngine,
+} from '../../core/services/streamingEngine';
 
 interface PlayerState {
     isPlaying: boolean;
@@ -18,9 +51,14 @@ export const PlayerPage: React.FC = () => {
     const navigate = useNavigate();
     const videoUrl = searchParams.get('url');
     const episodeName = searchParams.get('name') || 'Episode';
+    // Show title, shared by every episode, falls back to the episode name for movies
+    const title = searchParams.get('title') || episodeName;
     const episodeIndexParam = searchParams.get('episodeIndex');
     const episodesParam = searchParams.get('episodes');
     const subtitlesParam = searchParams.get('subtitles');
+    const apiName = searchParams.get('apiName');
+    const linkType = searchParams.get('type');
+    const headersParam = searchParams.get('headers');
     
     // Parse episode list and current index
     const episodes = useMemo(() => {
@@ -36,7 +74,18 @@ export const PlayerPage: React.FC = () => {
             return [];
         }
     }, [subtitlesParam]);
+
+    const linkHeaders = useMemo(() => {
+        if (!headersParam) return undefined;
+        try {
+            return JSON.parse(headersParam) as Record<string, string>;
+        } catch {
+            return undefined;
+        }
+    }, [headersParam]);
     const currentEpisodeIndex = episodeIndexParam ? parseInt(episodeIndexParam, 10) : -1;
+    // Stream URLs expire, so local subtitles stick to the episode data when we have it
+    const episodeKey: string | null = episodes[currentEpisodeIndex]?.data ?? videoUrl;
     const hasNextEpisode = currentEpisodeIndex >= 0 && currentEpisodeIndex < episodes.length - 1;
     const hasPrevEpisode = currentEpisodeIndex > 0;
     
@@ -54,13 +103,29 @@ export const PlayerPage: React.FC = () => {
     const [showControls, setShowControls] = useState(true);
     const [showResumePrompt, setShowResumePrompt] = useState(false);
     const [resumePosition, setResumePosition] = useState<number | null>(null);
-    // Use parsedSubtitles directly instead of storing in state to avoid unnecessary re-renders
-    const subtitles = parsedSubtitles;
+    // Files the user loaded from disk for this episode
+    const [localSubtitles, setLocalSubtitles] = useState<SubtitleFile[]>([]);
+    const localSubtitlesRef = useRef<SubtitleFile[]>([]);
+    const [isDraggingFile, setIsDraggingFile] = useState(false);
+    const subtitles = useMemo(() => [...parsedSubtitles, ...localSubtitles], [parsedSubtitles, localSubtitles]);
     const [selectedSubtitle, setSelectedSubtitle] = useState<SubtitleFile | null>(null);
     const [showSubtitleMenu, setShowSubtitleMenu] = useState(false);
     const controlsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const savePositionIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-    const trackRef = useRef<HTMLTrackElement | null>(null);
+    // Cues of the selected subtitle, drawn by SubtitleOverlay instead of a native <track>
+    const [loadedSubtitle, setLoadedSubtitle] = useState<{ subtitle: SubtitleFile; cues?: SubtitleCue[]; error?: string } | null>(null);
+    const [subtitleSettings, setSubtitleSettings] = useState<SubtitleSettings>(getSubtitleSettings);
+    const [subtitleDelay, setSubtitleDelay] = useState(() => getSubtitleDelay(title));
+    const [subtitleToast, setSubtitleToast] = useState<string | null>(null);
+    const subtitleToastTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const engineRef = useRef<StreamingEngine | null>(null);
+    const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([]);
+    const [currentLevel, setCurrentLevel] = useState(-1);
+    const [audioTracks, setAudioTracks] = useState<AudioRendition[]>([]);
+    const [currentAudioTrack, setCurrentAudioTrack] = useState(-1);
+    const [showQualityMenu, setShowQualityMenu] = useState(false);
+    const [showAudioMenu, setShowAudioMenu] = useState(false);
+    const [streamError, setStreamError] = useState<string | null>(null);
 
     // Format time for display
     const formatTime = (seconds: number): string => {
@@ -89,6 +154,172 @@ export const PlayerPage: React.FC = () => {
         }, 3000);
     }, []);
 
+    // Attach the stream through the engine that matches its manifest type
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video || !videoUrl) return;
+        let cancelled = false;
+
+        const syncTracks = (engine: StreamingEngine) => {
+            setQualityLevels(engine.getLevels());
+            setCurrentLevel(engine.getCurrentLevel());
+            setAudioTracks(engine.getAudioTracks());
+            setCurrentAudioTrack(engine.getCurrentAudioTrack());
+        };
+
+        const attach = async () => {
+            setStreamError(null);
+            // Headers have to be in place before the first manifest or segment request
+            await registerPlaybackHeaders(videoUrl, linkHeaders);
+            if (cancelled) return;
+            const type = await detectManifestType(videoUrl, linkType);
+            if (cancelled) return;
+
+            const engine = attachStream(video, videoUrl, type, allowPlaybackHost);
+            engineRef.current = engine;
+            engine.onChange(() => syncTracks(engine));
+            engine.onError((message) => {
+                setStreamError(message);
+                setPlayerState(prev => ({ ...prev, isLoading: false }));
+            });
+            syncTracks(engine);
+        };
+        attach();
+
+        return () => {
+            cancelled = true;
+            engineRef.current?.destroy();
+            engineRef.current = null;
+            setQualityLevels([]);
+            setAudioTracks([]);
+            clearPlaybackHeaders();
+        };
+    }, [videoUrl, linkType, linkHeaders]);
+
+    useEffect(() => {
+        registerSubtitleHeaders(subtitles);
+    }, [subtitles]);
+
+    // Subtitle rules only live as long as the player
+    useEffect(() => {
+        return () => {
+            clearSubtitleHeaders();
+        };
+    }, []);
+
+    // Download and parse the selected subtitle
+    useEffect(() => {
+        if (!selectedSubtitle) return;
+
+        const controller = new AbortController();
+
+        const loadSubtitle = async () => {
+            try {
+                const cues = await fetchSubtitleCues(selectedSubtitle, controller.signal);
+                if (controller.signal.aborted) return;
+                setLoadedSubtitle({ subtitle: selectedSubtitle, cues });
+            } catch (err) {
+                if (controller.signal.aborted) return;
+                console.error('Failed to load subtitles:', err);
+                setLoadedSubtitle({ subtitle: selectedSubtitle, error: err instanceof Error ? err.message : 'Failed to load subtitles' });
+            }
+        };
+        loadSubtitle();
+
+        return () => controller.abort();
+    }, [selectedSubtitle]);
+
+    const currentSubtitle = loadedSubtitle && loadedSubtitle.subtitle === selectedSubtitle ? loadedSubtitle : null;
+    const subtitleCues = currentSubtitle?.cues ?? null;
+    const subtitleError = currentSubtitle?.error ?? null;
+
+    // Restore subtitle files loaded for this episode in an earlier session
+    useEffect(() => {
+        if (!episodeKey) return;
+        let cancelled = false;
+
+        loadSavedLocalSubtitles(episodeKey).then(loaded => {
+            if (cancelled) {
+                loaded.forEach(({ subtitle }) => releaseLocalSubtitle(subtitle));
+                return;
+            }
+            localSubtitlesRef.current.forEach(releaseLocalSubtitle);
+            localSubtitlesRef.current = loaded.map(({ subtitle }) => subtitle);
+            setLocalSubtitles(localSubtitlesRef.current);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [episodeKey]);
+
+    useEffect(() => {
+        return () => localSubtitlesRef.current.forEach(releaseLocalSubtitle);
+    }, []);
+
+    const addLocalSubtitle = useCallback(({ path, fileName, subtitle }: LocalSubtitle) => {
+        if (path && episodeKey) {
+            saveLocalSubtitle(episodeKey, path, fileName);
+        }
+        localSubtitlesRef.current = [...localSubtitlesRef.current, subtitle];
+        setLocalSubtitles(localSubtitlesRef.current);
+        setSelectedSubtitle(subtitle);
+    }, [episodeKey]);
+
+    const showSubtitleToast = useCallback((message: string) => {
+        if (subtitleToastTimeoutRef.current) {
+            clearTimeout(subtitleToastTimeoutRef.current);
+        }
+        setSubtitleToast(message);
+        subtitleToastTimeoutRef.current = setTimeout(() => setSubtitleToast(null), 1500);
+    }, []);
+
+    const changeSubtitleDelay = useCallback((delayMs: number) => {
+        setSubtitleDelay(delayMs);
+        saveSubtitleDelay(title, delayMs);
+        showSubtitleToast(`Subtitle delay: ${formatSubtitleDelay(delayMs)}`);
+    }, [title, showSubtitleToast]);
+
+    const changeSubtitleSettings = useCallback((settings: SubtitleSettings) => {
+        setSubtitleSettings(settings);
+        saveSubtitleSettings(settings);
+    }, []);
+
+    const openLocalSubtitle = useCallback(async () => {
+        setShowSubtitleMenu(false);
+        try {
+            const picked = await pickSubtitleFile();
+            if (picked) addLocalSubtitle(picked);
+        } catch (err) {
+            console.error('Failed to open subtitle file:', err);
+            showSubtitleToast(err instanceof Error ? err.message : 'Failed to open subtitle file');
+        }
+    }, [addLocalSubtitle, showSubtitleToast]);
+
+    const handleDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        const file = e.dataTransfer.files[0];
+        if (!file) return;
+
+        try {
+            addLocalSubtitle(await readDroppedSubtitle(file));
+        } catch (err) {
+            console.error('Failed to load dropped subtitle:', err);
+            showSubtitleToast(err instanceof Error ? err.message : 'Failed to load subtitle file');
+        }
+    }, [addLocalSubtitle, showSubtitleToast]);
+
+    const selectQualityLevel = useCallback((index: number) => {
+        engineRef.current?.setLevel(index);
+        setShowQualityMenu(false);
+    }, []);
+
+    const selectAudioTrack = useCallback((index: number) => {
+        engineRef.current?.setAudioTrack(index);
+        setShowAudioMenu(false);
+    }, []);
+
     // Video event handlers
     useEffect(() => {
         const video = videoRef.current;
@@ -243,16 +474,64 @@ export const PlayerPage: React.FC = () => {
         }
     }, []);
 
-    const navigateToEpisode = useCallback((offset: number) => {
+    const navigateToEpisode = useCallback(async (offset: number) => {
         if (currentEpisodeIndex < 0 || episodes.length === 0) return;
         
         const newIndex = currentEpisodeIndex + offset;
         if (newIndex < 0 || newIndex >= episodes.length) return;
 
         const newEpisode = episodes[newIndex];
-        const newUrl = `/player?url=${encodeURIComponent(newEpisode.data)}&name=${encodeURIComponent(newEpisode.name || 'Episode')}&episodeIndex=${newIndex}&episodes=${encodeURIComponent(JSON.stringify(episodes.map((e: { data: string; name?: string; season?: number; episode?: number }) => ({ data: e.data, name: e.name, season: e.season, episode: e.episode }))))}`;
-        navigate(newUrl, { replace: true });
-    }, [currentEpisodeIndex, episodes, navigate]);
+        const episodeName = newEpisode.name || 'Episode';
+        const episodesJson = JSON.stringify(episodes.map((e: { data: string; name?: string; season?: number; episode?: number }) => ({ data: e.data, name: e.name, season: e.season, episode: e.episode })));
+
+        // Episode data is provider data, resolve it to the best link when we know the provider
+        let episodeUrl: string = newEpisode.data;
+        let episodeType: string | null = null;
+        let episodeHeaders: Record<string, string> = {};
+        let episodeSubtitles: SubtitleFile[] = [];
+        const provider = apiName ? contentSources.getSource(apiName) : undefined;
+        if (apiName && provider) {
+            let best: ExtractorLink | null = null;
+            try {
+                const { links, subtitles: loadedSubtitles } = await collectLinks(provider, newEpisode.data);
+                // Same choice as the streams page, torrents and magnets can't be played here
+                best = pickBestStream(links.map(link => ({ sourceId: provider.name, link })))?.link ?? null;
+                episodeSubtitles = loadedSubtitles;
+            } catch (err) {
+                console.error('Failed to load episode links:', err);
+            }
+
+            // Nothing playable, let the streams page show what there is for the episode
+            if (!best) {
+                const params = new URLSearchParams({
+                    apiName,
+                    data: newEpisode.data,
+                    name: episodeName,
+                    title,
+                    episodeIndex: String(newIndex),
+                    episodes: episodesJson,
+                });
+                navigate(`/streams?${params.toString()}`, { replace: true });
+                return;
+            }
+            episodeUrl = best.url;
+            episodeType = best.type;
+            episodeHeaders = getAllHeaders(best);
+        }
+
+        const params = new URLSearchParams({
+            url: episodeUrl,
+            name: episodeName,
+            title,
+            episodeIndex: String(newIndex),
+            episodes: episodesJson,
+        });
+        if (apiName) params.set('apiName', apiName);
+        if (episodeType) params.set('type', episodeType);
+        if (Object.keys(episodeHeaders).length > 0) params.set('headers', JSON.stringify(episodeHeaders));
+        if (episodeSubtitles.length > 0) params.set('subtitles', JSON.stringify(episodeSubtitles));
+        navigate(`/player?${params.toString()}`, { replace: true });
+    }, [currentEpisodeIndex, episodes, navigate, apiName, title]);
 
     const goToNextEpisode = useCallback(() => {
         navigateToEpisode(1);
@@ -304,6 +583,16 @@ export const PlayerPage: React.FC = () => {
                     e.preventDefault();
                     setShowSubtitleMenu(!showSubtitleMenu);
                     break;
+                case 'g':
+                case 'G':
+                    e.preventDefault();
+                    changeSubtitleDelay(subtitleDelay - SUBTITLE_DELAY_STEP_MS);
+                    break;
+                case 'h':
+                case 'H':
+                    e.preventDefault();
+                    changeSubtitleDelay(subtitleDelay + SUBTITLE_DELAY_STEP_MS);
+                    break;
                 case 'Escape':
                     if (playerState.isFullscreen) {
                         exitFullscreen();
@@ -329,7 +618,7 @@ export const PlayerPage: React.FC = () => {
 
         window.addEventListener('keydown', handleKeyPress);
         return () => window.removeEventListener('keydown', handleKeyPress);
-    }, [playerState.isFullscreen, togglePlayPause, seek, changeVolume, toggleFullscreen, toggleMute, exitFullscreen, resetControlsTimeout, hasNextEpisode, hasPrevEpisode, goToNextEpisode, goToPrevEpisode, showSubtitleMenu]);
+    }, [playerState.isFullscreen, togglePlayPause, seek, changeVolume, toggleFullscreen, toggleMute, exitFullscreen, resetControlsTimeout, hasNextEpisode, hasPrevEpisode, goToNextEpisode, goToPrevEpisode, showSubtitleMenu, changeSubtitleDelay, subtitleDelay]);
 
     // Fullscreen change handler
     useEffect(() => {
@@ -413,42 +702,102 @@ export const PlayerPage: React.FC = () => {
                 cursor: showControls ? 'default' : 'none',
             }}
             onMouseMove={resetControlsTimeout}
+            onDragOver={(e) => {
+                if (e.dataTransfer.types.includes('Files')) {
+                    e.preventDefault();
+                    setIsDraggingFile(true);
+                }
+            }}
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                    setIsDraggingFile(false);
+                }
+            }}
+            onDrop={handleDrop}
             onMouseLeave={() => {
                 if (playerState.isPlaying) {
                     setShowControls(false);
                 }
             }}
             onClick={(e) => {
-                // Close subtitle menu when clicking outside
-                if (showSubtitleMenu && !(e.target as HTMLElement).closest('[data-subtitle-menu]')) {
+                // Close menus when clicking outside
+                const target = e.target as HTMLElement;
+                if (showSubtitleMenu && !target.closest('[data-subtitle-menu]')) {
                     setShowSubtitleMenu(false);
                 }
+                if (showQualityMenu && !target.closest('[data-quality-menu]')) {
+                    setShowQualityMenu(false);
+                }
+                if (showAudioMenu && !target.closest('[data-audio-menu]')) {
+                    setShowAudioMenu(false);
+                }
             }}
         >
             <video
                 ref={videoRef}
-                src={videoUrl}
                 style={{
                     width: '100%',
                     height: '100%',
                     objectFit: 'contain',
                 }}
                 onClick={togglePlayPause}
-            >
-                {selectedSubtitle && (
-                    <track
-                        ref={trackRef}
-                        kind="subtitles"
-                        srcLang={selectedSubtitle.lang}
-                        label={selectedSubtitle.name || selectedSubtitle.lang}
-                        src={selectedSubtitle.url}
-                        default
-                    />
-                )}
-            </video>
+            />
+
+            {/* Subtitles */}
+            {subtitleCues && (
+                <SubtitleOverlay
+                    videoRef={videoRef}
+                    cues={subtitleCues}
+                    delayMs={subtitleDelay}
+                    settings={subtitleSettings}
+                    controlsVisible={showControls}
+                />
+            )}
+
+            {/* Drop target */}
+            {isDraggingFile && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        inset: '1rem',
+                        border: '3px dashed rgba(255,255,255,0.6)',
+                        borderRadius: '12px',
+                        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                        color: 'white',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        fontSize: '1.3rem',
+                        pointerEvents: 'none',
+                        zIndex: 1001,
+                    }}
+                >
+                    Drop a .srt, .vtt or .ass file to load subtitles
+                </div>
+            )}
+
+            {/* Subtitle delay feedback */}
+            {subtitleToast && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        top: '1.5rem',
+                        left: '50%',
+                        transform: 'translateX(-50%)',
+                        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                        color: 'white',
+                        padding: '0.5rem 1rem',
+                        borderRadius: '8px',
+                        fontSize: '0.9rem',
+                        pointerEvents: 'none',
+                    }}
+                >
+                    {subtitleToast}
+                </div>
+            )}
 
             {/* Loading indicator */}
-            {playerState.isLoading && (
+            {playerState.isLoading && !streamError && (
                 <div
                     style={{
                         position: 'absolute',
@@ -463,6 +812,26 @@ export const PlayerPage: React.FC = () => {
                 </div>
             )}
 
+            {/* Stream error */}
+            {streamError && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        top: '50%',
+                        left: '50%',
+                        transform: 'translate(-50%, -50%)',
+                        backgroundColor: 'rgba(0, 0, 0, 0.9)',
+                        padding: '1.5rem 2rem',
+                        borderRadius: '12px',
+                        color: '#f88',
+                        textAlign: 'center',
+                        maxWidth: '80%',
+                    }}
+                >
+                    Failed to play stream: {streamError}
+                </div>
+            )}
+
             {/* Resume prompt */}
             {showResumePrompt && resumePosition !== null && (
                 <div
@@ -662,6 +1031,126 @@ export const PlayerPage: React.FC = () => {
                         {episodeName}
                     </span>
 
+                    {/* Quality selector */}
+                    {qualityLevels.length > 0 && (
+                        <div style={{ position: 'relative' }} data-quality-menu>
+                            <button
+                                onClick={() => setShowQualityMenu(!showQualityMenu)}
+                                title="Quality"
+                                style={{
+                                    background: showQualityMenu ? 'rgba(255,255,255,0.3)' : 'none',
+                                    border: 'none',
+                                    color: 'white',
+                                    fontSize: '1rem',
+                                    cursor: 'pointer',
+                                    padding: '0.5rem 0.75rem',
+                                    borderRadius: '4px',
+                                }}
+                            >
+                                ⚙ {currentLevel < 0 ? 'Auto' : qualityLevels.find(level => level.index === currentLevel)?.label ?? 'Auto'}
+                            </button>
+                            {showQualityMenu && (
+                                <div
+                                    data-quality-menu
+                                    style={{
+                                        position: 'absolute',
+                                        bottom: '100%',
+                                        right: 0,
+                                        marginBottom: '0.5rem',
+                                        backgroundColor: 'rgba(0, 0, 0, 0.9)',
+                                        borderRadius: '8px',
+                                        padding: '0.5rem',
+                                        minWidth: '150px',
+                                        maxHeight: '300px',
+                                        overflowY: 'auto',
+                                        zIndex: 1000,
+                                    }}
+                                    onClick={(e) => e.stopPropagation()}
+                                >
+                                    {[{ index: -1, label: 'Auto' }, ...[...qualityLevels].sort((a, b) => (b.height ?? 0) - (a.height ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0))].map(level => (
+                                        <button
+                                            key={level.index}
+                                            onClick={() => selectQualityLevel(level.index)}
+                                            style={{
+                                                width: '100%',
+                                                padding: '0.75rem',
+                                                background: currentLevel === level.index ? 'rgba(255,255,255,0.2)' : 'transparent',
+                                                border: 'none',
+                                                color: 'white',
+                                                textAlign: 'left',
+                                                cursor: 'pointer',
+                                                borderRadius: '4px',
+                                                marginBottom: '0.25rem',
+                                            }}
+                                        >
+                                            {level.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Audio track selector */}
+                    {audioTracks.length > 1 && (
+                        <div style={{ position: 'relative' }} data-audio-menu>
+                            <button
+                                onClick={() => setShowAudioMenu(!showAudioMenu)}
+                                title="Audio"
+                                style={{
+                                    background: showAudioMenu ? 'rgba(255,255,255,0.3)' : 'none',
+                                    border: 'none',
+                                    color: 'white',
+                                    fontSize: '1rem',
+                                    cursor: 'pointer',
+                                    padding: '0.5rem 0.75rem',
+                                    borderRadius: '4px',
+                                }}
+                            >
+                                🎧 {audioTracks[currentAudioTrack]?.label ?? 'Audio'}
+                            </button>
+                            {showAudioMenu && (
+                                <div
+                                    data-audio-menu
+                                    style={{
+                                        position: 'absolute',
+                                        bottom: '100%',
+                                        right: 0,
+                                        marginBottom: '0.5rem',
+                                        backgroundColor: 'rgba(0, 0, 0, 0.9)',
+                                        borderRadius: '8px',
+                                        padding: '0.5rem',
+                                        minWidth: '200px',
+                                        maxHeight: '300px',
+                                        overflowY: 'auto',
+                                        zIndex: 1000,
+                                    }}
+                                    onClick={(e) => e.stopPropagation()}
+                                >
+                                    {audioTracks.map(track => (
+                                        <button
+                                            key={track.index}
+                                            onClick={() => selectAudioTrack(track.index)}
+                                            style={{
+                                                width: '100%',
+                                                padding: '0.75rem',
+                                                background: currentAudioTrack === track.index ? 'rgba(255,255,255,0.2)' : 'transparent',
+                                                border: 'none',
+                                                color: 'white',
+                                                textAlign: 'left',
+                                                cursor: 'pointer',
+                                                borderRadius: '4px',
+                                                marginBottom: '0.25rem',
+                                            }}
+                                        >
+                                            {track.label}{track.lang && track.lang !== track.label ? ` (${track.lang})` : ''}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Subtitle selector */}
                     <div style={{ position: 'relative' }} data-subtitle-menu>
                         <button
@@ -678,6 +1167,8 @@ export const PlayerPage: React.FC = () => {
                             }}
                         >
                             {selectedSubtitle ? '📝' : '📄'} {selectedSubtitle ? (selectedSubtitle.name || selectedSubtitle.lang) : 'Subtitles'}
+                            {selectedSubtitle && !subtitleCues && !subtitleError && ' (loading...)'}
+                            {subtitleError && ' ⚠'}
                         </button>
                         {showSubtitleMenu && (
                             <div
@@ -690,20 +1181,22 @@ export const PlayerPage: React.FC = () => {
                                     backgroundColor: 'rgba(0, 0, 0, 0.9)',
                                     borderRadius: '8px',
                                     padding: '0.5rem',
-                                    minWidth: '200px',
-                                    maxHeight: '300px',
+                                    minWidth: '260px',
+                                    maxHeight: '60vh',
                                     overflowY: 'auto',
                                     zIndex: 1000,
                                 }}
                                 onClick={(e) => e.stopPropagation()}
                             >
+                                {subtitleError && (
+                                    <div style={{ padding: '0.75rem', color: '#f88', fontSize: '0.9rem' }}>
+                                        {subtitleError}
+                                    </div>
+                                )}
                                 <button
                                     onClick={() => {
                                         setSelectedSubtitle(null);
                                         setShowSubtitleMenu(false);
-                                        if (trackRef.current) {
-                                            trackRef.current.src = '';
-                                        }
                                     }}
                                     style={{
                                         width: '100%',
@@ -725,9 +1218,6 @@ export const PlayerPage: React.FC = () => {
                                         onClick={() => {
                                             setSelectedSubtitle(sub);
                                             setShowSubtitleMenu(false);
-                                            if (trackRef.current) {
-                                                trackRef.current.src = sub.url;
-                                            }
                                         }}
                                         style={{
                                             width: '100%',
@@ -749,6 +1239,29 @@ export const PlayerPage: React.FC = () => {
                                         No subtitles available
                                     </div>
                                 )}
+                                <button
+                                    onClick={openLocalSubtitle}
+                                    title="Or drop a subtitle file onto the player"
+                                    style={{
+                                        width: '100%',
+                                        padding: '0.75rem',
+                                        background: 'transparent',
+                                        border: 'none',
+                                        color: 'white',
+                                        textAlign: 'left',
+                                        cursor: 'pointer',
+                                        borderRadius: '4px',
+                                        marginBottom: '0.25rem',
+                                    }}
+                                >
+                                    📂 Load from file...
+                                </button>
+                                <SubtitleSettingsPanel
+                                    settings={subtitleSettings}
+                                    onChange={changeSubtitleSettings}
+                                    delayMs={subtitleDelay}
+                                    onDelayChange={changeSubtitleDelay}
+                                />
                             </div>
                         )}
                     </div>
@@ -789,7 +1302,7 @@ export const PlayerPage: React.FC = () => {
 
                 {/* Keyboard shortcuts hint */}
                 <div style={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.75rem', marginTop: '0.5rem' }}>
-                    Space: Play/Pause | ← →: Seek | ↑ ↓: Volume | F: Fullscreen | M: Mute | S: Subtitles
+                    Space: Play/Pause | ← →: Seek | ↑ ↓: Volume | F: Fullscreen | M: Mute | S: Subtitles | G H: Subtitle delay
                     {hasNextEpisode && ' | N: Next Episode'}
                     {hasPrevEpisode && ' | P: Previous Episode'}
                 </div>
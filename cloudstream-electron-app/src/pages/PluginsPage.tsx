@@ -1,12 +1,24 @@
 import { useState, useEffect } from 'react';
 import { getRepoPlugins } from '../../core/services/repositoryService';
-import { loadPlugin, unloadPlugin, getStoredPlugins, type PluginMetadata, type PluginLoadError } from '../../core/services/pluginLoader';
+import { loadPlugin, unloadPlugin, getStoredPlugins, checkPluginCompatibility, getPluginProviders, type PluginMetadata, type PluginLoadError } from '../../core/services/pluginLoader';
 import { getStoredRepositories, addRepository, removeRepository } from '../../core/services/repositoryStorage';
-import type { RepositoryData, SitePlugin } from '../../core/models/Repository';
+import { type RepositoryData, type SitePlugin, PluginStatus } from '../../core/models/Repository';
 import { apiHolder } from '../../core/api/ApiHolder';
-import { stremioService, type StremioManifest } from '../../core/services/stremioService';
+import { JvmPluginProvider } from '../../core/providers/JvmPluginProvider';
+import { stremioService, STREMIO_RESOURCES, type StremioManifest, type StremioResource } from '../../core/services/stremioService';
+import { pluginUpdater, getPluginUpdateKey, type PluginUpdaterState } from '../../core/services/pluginUpdater';
+import { getPluginSettings, savePluginSettings, type PluginSettings } from '../../core/services/pluginSettings';
+import { pluginBootstrap, type PluginBootstrapState } from '../../core/services/pluginBootstrap';
+import { JvmProviderSettings } from '../components/JvmProviderSettings';
 import './PluginsPage.css';
 
+const STREMIO_RESOURCE_LABELS: Record<StremioResource, string> = {
+    catalog: 'Catalogs',
+    meta: 'Metadata',
+    stream: 'Streams',
+    subtitles: 'Subtitles',
+};
+
 export default function ExtensionsPage() {
     const [repositories, setRepositories] = useState<RepositoryData[]>([]);
     const [plugins, setPlugins] = useState<Array<{ repositoryUrl: string; plugin: SitePlugin }>>([]);
@@ -16,10 +28,16 @@ export default function ExtensionsPage() {
     const [error, setError] = useState<string | null>(null);
     const [installedPlugins, setInstalledPlugins] = useState<PluginMetadata[]>([]);
     const [loadingPlugins, setLoadingPlugins] = useState<Set<string>>(new Set());
+    const [updaterState, setUpdaterState] = useState<PluginUpdaterState>(() => pluginUpdater.getState());
+    const [pluginSettings, setPluginSettings] = useState<PluginSettings>(getPluginSettings);
+    const [bootstrapState, setBootstrapState] = useState<PluginBootstrapState>(() => pluginBootstrap.getState());
     
     // Stremio add-on state
     const [stremioAddons, setStremioAddons] = useState<StremioManifest[]>([]);
     const [newStremioUrl, setNewStremioUrl] = useState('');
+    const [configuringAddon, setConfiguringAddon] = useState<string | null>(null);
+    const [draggedAddon, setDraggedAddon] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
     const [activeTab, setActiveTab] = useState<'cloudstream' | 'stremio'>('cloudstream');
 
     // Load repositories and plugins on mount
@@ -29,6 +47,18 @@ export default function ExtensionsPage() {
         loadStremioAddons();
     }, []);
 
+    // Follow background update checks, installed versions change when an update lands
+    useEffect(() => {
+        return pluginUpdater.subscribe((state) => {
+            setUpdaterState(state);
+            setInstalledPlugins(getStoredPlugins());
+        });
+    }, []);
+
+    useEffect(() => {
+        return pluginBootstrap.subscribe(setBootstrapState);
+    }, []);
+
     const loadRepositories = () => {
         const repos = getStoredRepositories();
         setRepositories(repos);
@@ -142,6 +172,10 @@ export default function ExtensionsPage() {
             const result = await loadPlugin(plugin, repositoryUrl);
             if (result.success) {
                 loadInstalledPlugins();
+                // Enabling a plugin with a listed update installs that update, the list is refreshed to drop it
+                if (updaterState.available.some(u => u.plugin.internalName === plugin.internalName && u.repositoryUrl === repositoryUrl)) {
+                    handleCheckForUpdates();
+                }
                 // Reload available APIs
                 const allApis = apiHolder.getAllApis();
                 console.log(`Total plugins loaded: ${allApis.length}`);
@@ -182,14 +216,41 @@ export default function ExtensionsPage() {
 
     const getPluginStatus = (plugin: SitePlugin): string => {
         switch (plugin.status) {
-            case 0: return 'Down';
-            case 1: return 'OK';
-            case 2: return 'Slow';
-            case 3: return 'Beta';
+            case PluginStatus.Down: return 'Down';
+            case PluginStatus.Ok: return 'OK';
+            case PluginStatus.Slow: return 'Slow';
+            case PluginStatus.BetaOnly: return 'Beta';
             default: return 'Unknown';
         }
     };
 
+    const updatePluginSettings = (changes: Partial<PluginSettings>) => {
+        const updated = { ...pluginSettings, ...changes };
+        setPluginSettings(updated);
+        savePluginSettings(updated);
+    };
+
+    // Down and beta plugins are hidden unless enabled in the settings, installed ones always stay listed
+    const visiblePlugins = plugins.filter(({ plugin }) => {
+        if (isPluginInstalled(plugin.internalName)) return true;
+        if (plugin.status === PluginStatus.Down) return pluginSettings.showDownPlugins;
+        if (plugin.status === PluginStatus.BetaOnly) return pluginSettings.showBetaPlugins;
+        return true;
+    });
+
+    // Repository listing of an installed plugin, to notice plugins flagged down after they were installed
+    const getRepositoryPlugin = (installed: PluginMetadata): SitePlugin | undefined => {
+        return plugins.find(p => p.repositoryUrl === installed.repositoryUrl && p.plugin.internalName === installed.internalName)?.plugin;
+    };
+
+    const handleCheckForUpdates = () => {
+        pluginUpdater.checkForUpdates(false).catch(err => {
+            setError(err instanceof Error ? err.message : 'Failed to check for updates');
+        });
+    };
+
+    const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
     // Stremio add-on functions
     const loadStremioAddons = () => {
         const addons = stremioService.getInstalledAddons();
@@ -215,6 +276,33 @@ export default function ExtensionsPage() {
         }
     };
 
+    const handleReconfigureStremioAddon = async (id: string) => {
+        setError(null);
+        setConfiguringAddon(id);
+        try {
+            await stremioService.reconfigureAddon(id);
+            loadStremioAddons();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to configure Stremio add-on');
+        } finally {
+            setConfiguringAddon(null);
+        }
+    };
+
+    const handleDropStremioAddon = (targetId: string) => {
+        if (draggedAddon && draggedAddon !== targetId) {
+            stremioService.moveAddon(draggedAddon, stremioAddons.findIndex(addon => addon.id === targetId));
+            loadStremioAddons();
+        }
+        setDraggedAddon(null);
+        setDropTarget(null);
+    };
+
+    const handleToggleStremioResource = (id: string, resource: StremioResource, enabled: boolean) => {
+        stremioService.setResourceEnabled(id, resource, enabled);
+        loadStremioAddons();
+    };
+
     const handleRemoveStremioAddon = async (id: string) => {
         try {
             await stremioService.removeAddon(id);
@@ -317,16 +405,44 @@ export default function ExtensionsPage() {
 
             {/* Plugins List */}
             <section className="plugins-section">
-                <h2>Available Extensions ({plugins.length})</h2>
+                <h2>
+                    Available Extensions ({visiblePlugins.length})
+                    {plugins.length > visiblePlugins.length && (
+                        <span className="plugin-version" style={{ fontSize: '0.9rem', fontWeight: 'normal' }}> · {plugins.length - visiblePlugins.length} hidden</span>
+                    )}
+                </h2>
+                <div style={{ display: 'flex', gap: '1.5rem', marginBottom: '1rem', color: 'rgba(255, 255, 255, 0.8)', fontSize: '0.9rem' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', cursor: 'pointer' }}>
+                        <input
+                            type="checkbox"
+                            checked={pluginSettings.showDownPlugins}
+                            onChange={(e) => updatePluginSettings({ showDownPlugins: e.target.checked })}
+                        />
+                        Show down extensions
+                    </label>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', cursor: 'pointer' }}>
+                        <input
+                            type="checkbox"
+                            checked={pluginSettings.showBetaPlugins}
+                            onChange={(e) => updatePluginSettings({ showBetaPlugins: e.target.checked })}
+                        />
+                        Show beta extensions
+                    </label>
+                </div>
                 {loading ? (
                     <p>Loading extensions...</p>
-                ) : plugins.length === 0 ? (
-                    <p className="empty-state">No extensions found. Add a repository to see extensions.</p>
+                ) : visiblePlugins.length === 0 ? (
+                    <p className="empty-state">
+                        {plugins.length > 0
+                            ? 'All extensions are hidden by the filters above.'
+                            : 'No extensions found. Add a repository to see extensions.'}
+                    </p>
                 ) : (
                     <div className="plugins-list">
-                        {plugins.map(({ plugin, repositoryUrl }) => {
+                        {visiblePlugins.map(({ plugin, repositoryUrl }) => {
                             const installed = isPluginInstalled(plugin.internalName);
                             const isLoading = isPluginLoading(plugin, repositoryUrl);
+                            const compatibility = checkPluginCompatibility(plugin);
                             
                             return (
                                 <div key={`${plugin.internalName}_${repositoryUrl}`} className="plugin-item">
@@ -346,6 +462,11 @@ export default function ExtensionsPage() {
                                                     by {plugin.authors.join(', ')}
                                                 </span>
                                             )}
+                                            {!compatibility.compatible && (
+                                                <span className="plugin-status status-0" title={compatibility.reason}>
+                                                    Needs API v{plugin.apiVersion}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                     <div className="plugin-actions">
@@ -359,10 +480,11 @@ export default function ExtensionsPage() {
                                         ) : (
                                             <button
                                                 onClick={() => handleInstallPlugin(plugin, repositoryUrl)}
-                                                disabled={isLoading || plugin.status === 0}
+                                                disabled={isLoading || plugin.status === PluginStatus.Down || !compatibility.compatible}
                                                 className="install-button"
+                                                title={compatibility.reason}
                                             >
-                                                {isLoading ? 'Installing...' : 'Install'}
+                                                {isLoading ? 'Installing...' : compatibility.compatible ? 'Install' : 'Incompatible'}
                                             </button>
                                         )}
                                     </div>
@@ -373,6 +495,81 @@ export default function ExtensionsPage() {
                 )}
             </section>
 
+            {/* Plugin Updates */}
+            <section className="installed-plugins-section">
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', flexWrap: 'wrap' }}>
+                    <h2>Updates ({updaterState.available.length} available)</h2>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <button
+                            onClick={handleCheckForUpdates}
+                            disabled={updaterState.checking}
+                            className="add-repo-button"
+                        >
+                            {updaterState.checking ? 'Checking...' : 'Check for updates'}
+                        </button>
+                        {updaterState.available.some(u => u.enabled) && (
+                            <button
+                                onClick={() => pluginUpdater.applyUpdates()}
+                                disabled={updaterState.updating.length > 0}
+                                className="add-repo-button"
+                            >
+                                Update all
+                            </button>
+                        )}
+                    </div>
+                </div>
+                {updaterState.lastChecked && (
+                    <p className="repo-url">Last checked {formatDate(updaterState.lastChecked)}</p>
+                )}
+                {updaterState.available.length === 0 ? (
+                    <p className="empty-state">All installed extensions are up to date.</p>
+                ) : (
+                    <div className="installed-plugins-list" style={{ marginTop: '1rem' }}>
+                        {updaterState.available.map((update) => {
+                            const key = getPluginUpdateKey(update);
+                            const isUpdating = updaterState.updating.includes(key);
+                            return (
+                                <div key={key} className="installed-plugin-item">
+                                    <div className="plugin-info">
+                                        <h3>{update.plugin.name}</h3>
+                                        <p className="plugin-version">v{update.installedVersion} → v{update.plugin.version}</p>
+                                        {update.error && (
+                                            <p style={{ color: '#ff6666', fontSize: '0.85rem', margin: '0.25rem 0 0 0' }}>{update.error}</p>
+                                        )}
+                                        {!update.enabled && (
+                                            <p className="repo-url">Disabled, updates when it is enabled again</p>
+                                        )}
+                                    </div>
+                                    {update.enabled && (
+                                        <button
+                                            onClick={() => pluginUpdater.applyUpdate(update)}
+                                            disabled={isUpdating}
+                                            className="install-button"
+                                            style={{ width: 'auto', padding: '0.5rem 1rem', fontSize: '0.9rem' }}
+                                        >
+                                            {isUpdating ? 'Updating...' : 'Update'}
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+                {updaterState.log.length > 0 && (
+                    <>
+                        <h3 style={{ color: '#fff', marginTop: '1.5rem' }}>Recently updated</h3>
+                        <ul style={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.9rem', lineHeight: 1.8, paddingLeft: '1.25rem' }}>
+                            {updaterState.log.slice(0, 10).map((entry) => (
+                                <li key={`${entry.internalName}_${entry.repositoryUrl}_${entry.updatedAt}`}>
+                                    <strong style={{ color: '#fff' }}>{entry.name}</strong> updated from v{entry.fromVersion} to v{entry.toVersion}
+                                    <span style={{ color: 'rgba(255, 255, 255, 0.5)' }}> · {formatDate(entry.updatedAt)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                )}
+            </section>
+
             {/* Installed Plugins */}
             <section className="installed-plugins-section">
                 <h2>Installed Extensions ({installedPlugins.filter(p => p.enabled).length})</h2>
@@ -380,20 +577,56 @@ export default function ExtensionsPage() {
                     <p className="empty-state">No extensions installed.</p>
                 ) : (
                     <div className="installed-plugins-list">
-                        {installedPlugins.filter(p => p.enabled).map((plugin) => (
-                            <div key={plugin.internalName} className="installed-plugin-item">
-                                <div className="plugin-info">
-                                    <h3>{plugin.internalName}</h3>
-                                    <p className="plugin-version">v{plugin.version}</p>
+                        {installedPlugins.filter(p => p.enabled).map((plugin) => {
+                            const repositoryPlugin = getRepositoryPlugin(plugin);
+                            // Installing or updating it again since startup clears the failure
+                            const startupFailure = getPluginProviders(plugin.internalName).length > 0
+                                ? undefined
+                                : bootstrapState.failures.find(f => f.internalName === plugin.internalName && f.repositoryUrl === plugin.repositoryUrl);
+                            return (
+                                <div key={plugin.internalName} className="installed-plugin-item">
+                                    <div className="plugin-info">
+                                        <h3>{plugin.internalName}</h3>
+                                        <p className="plugin-version">v{plugin.version}</p>
+                                        {repositoryPlugin?.status === PluginStatus.Down && (
+                                            <span
+                                                className="plugin-status status-0"
+                                                style={{ display: 'inline-block', marginTop: '0.4rem', fontSize: '0.8rem' }}
+                                                title="The repository marks this extension as not working"
+                                            >
+                                                Down in repository
+                                            </span>
+                                        )}
+                                        {repositoryPlugin?.status === PluginStatus.BetaOnly && (
+                                            <span
+                                                className="plugin-status status-3"
+                                                style={{ display: 'inline-block', marginTop: '0.4rem', fontSize: '0.8rem' }}
+                                            >
+                                                Beta
+                                            </span>
+                                        )}
+                                        {startupFailure && (
+                                            <span
+                                                className="plugin-status status-0"
+                                                style={{ display: 'inline-block', marginTop: '0.4rem', marginLeft: '0.4rem', fontSize: '0.8rem' }}
+                                                title={startupFailure.error.message}
+                                            >
+                                                Failed to load ({startupFailure.error.stage})
+                                            </span>
+                                        )}
+                                        <JvmProviderSettings
+                                            providers={getPluginProviders(plugin.internalName).filter(api => api instanceof JvmPluginProvider)}
+                                        />
+                                    </div>
+                                    <button
+                                        onClick={() => handleUninstallPlugin(plugin.internalName)}
+                                        className="uninstall-button"
+                                    >
+                                        Uninstall
+                                    </button>
                                 </div>
-                                <button
-                                    onClick={() => handleUninstallPlugin(plugin.internalName)}
-                                    className="uninstall-button"
-                                >
-                                    Uninstall
-                                </button>
-                            </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 )}
             </section>
@@ -427,18 +660,46 @@ export default function ExtensionsPage() {
                 </div>
                 <p style={{ marginTop: '0.5rem', color: 'rgba(255, 255, 255, 0.6)', fontSize: '0.9rem' }}>
                     Stremio add-ons are HTTP APIs that provide content. They don't require code execution.
+                    Add-ons that need configuration open their settings page before they are installed.
                 </p>
             </section>
 
             {/* Installed Stremio Add-ons */}
             <section className="repositories-section">
                 <h2>Installed Stremio Add-ons ({stremioAddons.length})</h2>
+                {stremioAddons.length > 1 && (
+                    <p style={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '0.9rem', marginTop: 0 }}>
+                        Drag add-ons to reorder them. Metadata comes from the first add-on that has it, and streams, search results and home rows follow this order.
+                    </p>
+                )}
                 {stremioAddons.length === 0 ? (
                     <p className="empty-state">No Stremio add-ons installed. Add one using the form above.</p>
                 ) : (
                     <div className="repositories-list">
                         {stremioAddons.map((addon) => (
-                            <div key={addon.id} className="repository-item">
+                            <div
+                                key={addon.id}
+                                className={`repository-item stremio-addon-item${draggedAddon === addon.id ? ' dragging' : ''}${dropTarget === addon.id && draggedAddon !== addon.id ? ' drop-target' : ''}`}
+                                draggable
+                                onDragStart={(e) => {
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    setDraggedAddon(addon.id);
+                                }}
+                                onDragOver={(e) => {
+                                    e.preventDefault();
+                                    setDropTarget(addon.id);
+                                }}
+                                onDragLeave={() => setDropTarget(prev => prev === addon.id ? null : prev)}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    handleDropStremioAddon(addon.id);
+                                }}
+                                onDragEnd={() => {
+                                    setDraggedAddon(null);
+                                    setDropTarget(null);
+                                }}
+                            >
+                                <span className="drag-handle" title="Drag to reorder">⋮⋮</span>
                                 <div className="repo-info">
                                     <h3>{addon.name}</h3>
                                     <p className="repo-url">{addon.originalUrl || addon.url || addon.id}</p>
@@ -479,13 +740,40 @@ export default function ExtensionsPage() {
                                             </span>
                                         )}
                                     </div>
+                                    <div style={{ marginTop: '0.75rem', display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+                                        {STREMIO_RESOURCES.filter(resource => stremioService.supportsResource(addon, resource)).map(resource => (
+                                            <label
+                                                key={resource}
+                                                style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', color: 'rgba(255, 255, 255, 0.8)', fontSize: '0.85rem', cursor: 'pointer' }}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={stremioService.isResourceEnabled(addon.id, resource)}
+                                                    onChange={(e) => handleToggleStremioResource(addon.id, resource, e.target.checked)}
+                                                />
+                                                {STREMIO_RESOURCE_LABELS[resource]}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                                    {stremioService.isConfigurable(addon) && (
+                                        <button
+                                            onClick={() => handleReconfigureStremioAddon(addon.id)}
+                                            disabled={configuringAddon !== null}
+                                            className="install-button"
+                                            style={{ width: 'auto', padding: '0.5rem 1rem', fontSize: '0.9rem' }}
+                                        >
+                                            {configuringAddon === addon.id ? 'Configuring...' : 'Reconfigure'}
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => handleRemoveStremioAddon(addon.id)}
+                                        className="remove-repo-button"
+                                    >
+                                        Remove
+                                    </button>
                                 </div>
-                                <button
-                                    onClick={() => handleRemoveStremioAddon(addon.id)}
-                                    className="remove-repo-button"
-                                >
-                                    Remove
-                                </button>
                             </div>
                         ))}
                     </div>
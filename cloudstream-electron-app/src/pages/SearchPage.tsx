@@ -1,66 +1,125 @@
-import React, { useState, useEffect } from 'react';
-import { apiHolder } from '../../core/api/ApiHolder';
-import { TestProvider } from '../../core/providers/TestProvider';
+import React, { useState, useEffect, useMemo } from 'react';
+import { contentSources } from '../../core/api/ContentSources';
 import type { SearchResponse } from '../../core/models/SearchResponse';
 import { Link } from 'react-router-dom';
-import { runSearch } from '../../core/services/searchService';
+import { searchProviders, mergeSearchResults, type ProviderSearchStatus } from '../../core/services/searchService';
+import { registerPosterHeaders, clearPosterHeaders } from '../../core/services/requestHeaders';
+import { getSearchFilters, saveSearchFilters, providerMatchesFilters, type SearchFilters } from '../../core/services/searchFilters';
+import { groupSearchResults } from '../../core/services/searchGrouping';
+import { SearchFilterBar } from '../components/SearchFilterBar';
 
-// Register test provider for now
-if (apiHolder.getAllApis().length === 0) {
-    apiHolder.addPlugin(new TestProvider());
-}
+type ProviderState = { status: ProviderSearchStatus; error?: string };
+
+/**
+ * Details link, the other providers of a grouped result go along so the details page can switch to them
+ */
+const getDetailsPath = (item: SearchResponse, sources: SearchResponse[] = []): string => {
+    const params = new URLSearchParams({ url: item.url, apiName: item.apiName });
+    if (sources.length > 1) {
+        params.set('sources', JSON.stringify(sources.map(source => ({ apiName: source.apiName, url: source.url }))));
+    }
+    return `/details?${params.toString()}`;
+};
+
+const getSourceName = (apiName: string): string => contentSources.getSource(apiName)?.name ?? apiName;
+
+const PROVIDER_STATUS_TEXT: Record<Exclude<ProviderSearchStatus, 'done'>, string> = {
+    loading: 'Searching...',
+    error: 'Failed',
+    timeout: 'Timed out',
+};
 
 export const SearchPage: React.FC = () => {
     const [query, setQuery] = useState('');
-    const [state, setState] = useState<{
-        status: 'idle' | 'loading' | 'success' | 'error';
-        mergedResults: SearchResponse[];
-        perProviderResults: Record<string, SearchResponse[]>;
-        error?: string;
-    }>({
-        status: 'idle',
-        mergedResults: [],
-        perProviderResults: {},
-    });
-
-    const handleSearch = async () => {
-        if (query.trim().length <= 1) {
-            setState({ status: 'idle', mergedResults: [], perProviderResults: {} });
-            return;
-        }
-
-        setState((prev) => ({ ...prev, status: 'loading' }));
-        const result = await runSearch(query, {});
-        setState({
-            status: result.status,
-            mergedResults: result.mergedResults,
-            perProviderResults: result.perProviderResults,
-            error: result.error,
-        });
-    };
+    const [filters, setFilters] = useState<SearchFilters>(getSearchFilters);
+    // Bumped by Enter and the Search button to run the same query again
+    const [searchRun, setSearchRun] = useState(0);
+    const [searchedQuery, setSearchedQuery] = useState('');
+    const [providerOrder, setProviderOrder] = useState<string[]>([]);
+    const [perProviderResults, setPerProviderResults] = useState<Record<string, SearchResponse[]>>({});
+    const [statuses, setStatuses] = useState<Record<string, ProviderState>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    // Poster rules only live as long as the page showing them
+    useEffect(() => {
+        return () => {
+            clearPosterHeaders();
+        };
+    }, []);
 
-    // Auto-search on query change (debounced)
+    // Auto-search on query change (debounced), a newer query aborts the one still running
     useEffect(() => {
+        const controller = new AbortController();
         const timer = setTimeout(() => {
-            if (query.trim().length > 1) {
-                handleSearch();
-            } else {
-                setState({ status: 'idle', mergedResults: [], perProviderResults: {} });
-            }
+            const trimmed = query.trim();
+            setSearchedQuery(trimmed);
+            setProviderOrder([]);
+            setPerProviderResults({});
+            setStatuses({});
+            setError(null);
+            if (trimmed.length <= 1) return;
+
+            searchProviders(
+                trimmed,
+                { filters },
+                {
+                    onProviders: setProviderOrder,
+                    onResults: (sourceId, results) => {
+                        // Results are stored either way, a poster missing its headers beats a provider stuck on "Searching..."
+                        registerPosterHeaders(results)
+                            .catch(err => console.warn(`Failed to register poster headers for ${sourceId}:`, err))
+                            .then(() => {
+                                if (controller.signal.aborted) return;
+                                setPerProviderResults(prev => ({ ...prev, [sourceId]: results }));
+                            });
+                    },
+                    onStatus: (sourceId, status, providerError) => {
+                        setStatuses(prev => ({ ...prev, [sourceId]: { status, error: providerError } }));
+                    },
+                },
+                controller.signal
+            ).catch((err) => {
+                if (!controller.signal.aborted) {
+                    setError(err instanceof Error ? err.message : 'Unknown search error');
+                }
+            });
         }, 300);
 
-        return () => clearTimeout(timer);
-    }, [query]);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [query, filters, searchRun]);
 
-    const providers = apiHolder.getAllApis();
-    const hasResults = state.mergedResults.length > 0;
-    const hasProviderResults = Object.keys(state.perProviderResults).length > 0;
+    const handleSearch = () => setSearchRun(run => run + 1);
+
+    const handleFiltersChange = (updated: SearchFilters) => {
+        setFilters(updated);
+        saveSearchFilters(updated);
+    };
+
+    const allProviders = contentSources.getAllSources();
+    const providers = allProviders.filter(provider => providerMatchesFilters(provider, filters));
+    const mergedResults = useMemo(
+        () => mergeSearchResults(providerOrder, perProviderResults),
+        [providerOrder, perProviderResults]
+    );
+    // The same title from several providers is one card
+    const groups = useMemo(() => groupSearchResults(mergedResults), [mergedResults]);
+    // "done" counts as loading until its results are in, posters headers are registered first
+    const isProviderLoading = (sourceId: string) =>
+        !statuses[sourceId] || statuses[sourceId].status === 'loading' || (statuses[sourceId].status === 'done' && !(sourceId in perProviderResults));
+    const loadingCount = providerOrder.filter(isProviderLoading).length;
+    const isSearching = loadingCount > 0;
+    const failedCount = providerOrder.filter(sourceId => statuses[sourceId]?.status === 'error' || statuses[sourceId]?.status === 'timeout').length;
+    const hasResults = mergedResults.length > 0;
+    const searched = searchedQuery.length > 1 && providerOrder.length > 0;
 
     return (
         <div style={{ padding: '2rem', maxWidth: '1400px', margin: '0 auto' }}>
             <h1 style={{ marginBottom: '1.5rem', fontSize: '2rem' }}>Search</h1>
             
-            <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '2rem' }}>
+            <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
                 <input
                     type="text"
                     value={query}
@@ -78,53 +137,60 @@ export const SearchPage: React.FC = () => {
                 />
                 <button
                     onClick={handleSearch}
-                    disabled={state.status === 'loading'}
                     style={{
                         padding: '0.75rem 1.5rem',
                         fontSize: '1rem',
-                        backgroundColor: state.status === 'loading' ? '#ccc' : '#007bff',
+                        backgroundColor: '#007bff',
                         color: 'white',
                         border: 'none',
                         borderRadius: '8px',
-                        cursor: state.status === 'loading' ? 'not-allowed' : 'pointer',
+                        cursor: 'pointer',
                     }}
                 >
-                    {state.status === 'loading' ? 'Searching...' : 'Search'}
+                    Search
                 </button>
             </div>
 
-            {state.status === 'loading' && (
-                <div style={{ textAlign: 'center', padding: '2rem', color: '#666' }}>
-                    Searching across {providers.length} provider{providers.length !== 1 ? 's' : ''}...
+            <SearchFilterBar filters={filters} providers={allProviders} onChange={handleFiltersChange} />
+
+            {providers.length === 0 && allProviders.length > 0 && (
+                <div style={{ padding: '1rem', backgroundColor: '#fff4e5', color: '#8a5300', borderRadius: '8px', marginBottom: '1rem' }}>
+                    No provider matches these filters.
+                </div>
+            )}
+
+            {isSearching && (
+                <div style={{ textAlign: 'center', padding: '1rem', color: '#666' }}>
+                    Waiting for {loadingCount} of {providerOrder.length} provider{providerOrder.length !== 1 ? 's' : ''}...
                 </div>
             )}
 
-            {state.status === 'error' && (
+            {error && (
                 <div style={{ padding: '1rem', backgroundColor: '#fee', color: '#c00', borderRadius: '8px', marginBottom: '1rem' }}>
-                    Error: {state.error || 'Unknown error occurred'}
+                    Error: {error}
                 </div>
             )}
 
-            {state.status === 'success' && !hasResults && (
+            {searched && !isSearching && !hasResults && failedCount < providerOrder.length && (
                 <div style={{ textAlign: 'center', padding: '2rem', color: '#666' }}>
-                    No results found for "{query}"
+                    No results found for "{searchedQuery}"
                 </div>
             )}
 
             {hasResults && (
                 <>
                     <div style={{ marginBottom: '1rem', color: '#666' }}>
-                        Found {state.mergedResults.length} result{state.mergedResults.length !== 1 ? 's' : ''}
+                        Found {groups.length} title{groups.length !== 1 ? 's' : ''}{isSearching ? ' so far' : ''}
                     </div>
                     <div style={{
                         display: 'grid',
                         gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))',
                         gap: '1.5rem',
                     }}>
-                        {state.mergedResults.map((item, index) => (
+                        {groups.map(({ key, primary: item, sources }) => (
                             <Link
-                                to={`/details?url=${encodeURIComponent(item.url)}&apiName=${encodeURIComponent(item.apiName)}`}
-                                key={`${item.apiName}-${index}`}
+                                to={getDetailsPath(item, sources)}
+                                key={key}
                                 style={{ textDecoration: 'none', color: 'inherit' }}
                             >
                                 <div style={{
@@ -192,8 +258,13 @@ export const SearchPage: React.FC = () => {
                                             {item.type && <span>{item.type}</span>}
                                             {item.quality && <span style={{ color: '#999' }}>• {item.quality}</span>}
                                         </div>
-                                        <div style={{ fontSize: '0.75rem', color: '#999', marginTop: '0.25rem' }}>
-                                            {item.apiName}
+                                        <div
+                                            style={{ fontSize: '0.75rem', color: '#999', marginTop: '0.25rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                                            title={sources.map(source => getSourceName(source.apiName)).join(', ')}
+                                        >
+                                            {sources.length > 1
+                                                ? `${sources.length} sources: ${sources.map(source => getSourceName(source.apiName)).join(', ')}`
+                                                : getSourceName(item.apiName)}
                                         </div>
                                     </div>
                                 </div>
@@ -203,46 +274,62 @@ export const SearchPage: React.FC = () => {
                 </>
             )}
 
-            {hasProviderResults && state.status === 'success' && (
+            {searched && (
                 <div style={{ marginTop: '3rem' }}>
                     <h2 style={{ marginBottom: '1rem' }}>Results by Provider</h2>
-                    {Object.entries(state.perProviderResults).map(([providerName, results]) => (
-                        <div key={providerName} style={{ marginBottom: '2rem' }}>
-                            <h3 style={{ marginBottom: '0.5rem', color: '#666' }}>
-                                {providerName} ({results.length} result{results.length !== 1 ? 's' : ''})
-                            </h3>
-                            <div style={{
-                                display: 'grid',
-                                gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))',
-                                gap: '1rem',
-                            }}>
-                                {results.map((item, index) => (
-                                    <Link
-                                        to={`/details?url=${encodeURIComponent(item.url)}&apiName=${encodeURIComponent(item.apiName)}`}
-                                        key={`${providerName}-${index}`}
-                                        style={{ textDecoration: 'none', color: 'inherit' }}
-                                    >
-                                        <div style={{
-                                            border: '1px solid #e0e0e0',
-                                            borderRadius: '8px',
-                                            overflow: 'hidden',
-                                        }}>
-                                            {item.posterUrl && (
-                                                <img
-                                                    src={item.posterUrl}
-                                                    alt={item.name}
-                                                    style={{ width: '100%', height: '200px', objectFit: 'cover' }}
-                                                />
-                                            )}
-                                            <div style={{ padding: '0.5rem' }}>
-                                                <div style={{ fontWeight: 'bold', fontSize: '0.9rem' }}>{item.name}</div>
+                    {providerOrder.map((sourceId) => {
+                        const providerState = statuses[sourceId];
+                        const results = perProviderResults[sourceId] ?? [];
+                        return (
+                            <div key={sourceId} style={{ marginBottom: '2rem' }}>
+                                <h3 style={{ marginBottom: '0.5rem', color: '#666' }}>
+                                    {getSourceName(sourceId)}
+                                    <span style={{ fontSize: '0.85rem', fontWeight: 400, marginLeft: '0.5rem' }}>
+                                        {isProviderLoading(sourceId)
+                                            ? PROVIDER_STATUS_TEXT.loading
+                                            : providerState.status === 'done'
+                                                ? `(${results.length} result${results.length !== 1 ? 's' : ''})`
+                                                : PROVIDER_STATUS_TEXT[providerState.status]}
+                                    </span>
+                                </h3>
+                                {(providerState?.status === 'error' || providerState?.status === 'timeout') && (
+                                    <div style={{ padding: '0.75rem', backgroundColor: '#fff4e5', color: '#8a5300', borderRadius: '8px', fontSize: '0.9rem' }}>
+                                        {providerState.error}
+                                    </div>
+                                )}
+                                <div style={{
+                                    display: 'grid',
+                                    gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))',
+                                    gap: '1rem',
+                                }}>
+                                    {results.map((item, index) => (
+                                        <Link
+                                            to={getDetailsPath(item)}
+                                            key={`${sourceId}-${index}`}
+                                            style={{ textDecoration: 'none', color: 'inherit' }}
+                                        >
+                                            <div style={{
+                                                border: '1px solid #e0e0e0',
+                                                borderRadius: '8px',
+                                                overflow: 'hidden',
+                                            }}>
+                                                {item.posterUrl && (
+                                                    <img
+                                                        src={item.posterUrl}
+                                                        alt={item.name}
+                                                        style={{ width: '100%', height: '200px', objectFit: 'cover' }}
+                                                    />
+                                                )}
+                                                <div style={{ padding: '0.5rem' }}>
+                                                    <div style={{ fontWeight: 'bold', fontSize: '0.9rem' }}>{item.name}</div>
+                                                </div>
                                             </div>
-                                        </div>
-                                    </Link>
-                                ))}
+                                        </Link>
+                                    ))}
+                                </div>
                             </div>
-                        </div>
-                    ))}
+                        );
+                    })}
                 </div>
             )}
         </div>
@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { getAllHeaders, getQualityString, Qualities } from '../../core/models/ExtractorLink';
+import type { SubtitleFile } from '../../core/models/SubtitleFile';
+import {
+    loadStreams,
+    pickBestStream,
+    isPlayableLink,
+    type StreamEntry,
+    type StreamSource,
+    type StreamSourceStatus,
+} from '../../core/services/streamService';
+
+const QUALITY_FILTERS = [
+    { label: 'All', matches: () => true },
+    { label: '4K', matches: (q: number) => q >= Qualities.P2160 },
+    { label: '1080p', matches: (q: number) => q >= Qualities.P1080 && q < Qualities.P2160 },
+    { label: '720p', matches: (q: number) => q >= Qualities.P720 && q < Qualities.P1080 },
+    { label: 'SD', matches: (q: number) => q < Qualities.P720 && q !== Qualities.Unknown },
+    { label: 'Unknown', matches: (q: number) => q === Qualities.Unknown },
+] as const;
+
+type QualityFilter = typeof QUALITY_FILTERS[number]['label'];
+
+const formatSize = (bytes: number): string => {
+    const gb = bytes / 1024 ** 3;
+    if (gb >= 1) return `${gb.toFixed(2)} GB`;
+    return `${Math.round(bytes / 1024 ** 2)} MB`;
+};
+
+export const StreamsPage: React.FC = () => {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const apiName = searchParams.get('apiName');
+    const data = searchParams.get('data');
+    const stremioType = searchParams.get('stremioType');
+    const stremioId = searchParams.get('stremioId');
+    const title = searchParams.get('name') || 'Streams';
+    const showTitle = searchParams.get('title');
+    const episodeIndex = searchParams.get('episodeIndex');
+    const episodesParam = searchParams.get('episodes');
+
+    const [sources, setSources] = useState<StreamSource[]>([]);
+    const [statuses, setStatuses] = useState<Record<string, { status: StreamSourceStatus; error?: string }>>({});
+    const [entries, setEntries] = useState<StreamEntry[]>([]);
+    const [subtitles, setSubtitles] = useState<SubtitleFile[]>([]);
+    const [qualityFilter, setQualityFilter] = useState<QualityFilter>('All');
+
+    useEffect(() => {
+        const controller = new AbortController();
+
+        const load = async () => {
+            setSources([]);
+            setStatuses({});
+            setEntries([]);
+            setSubtitles([]);
+
+            await loadStreams(
+                {
+                    apiName: apiName ?? undefined,
+                    data: data ?? undefined,
+                    stremioType: stremioType ?? undefined,
+                    stremioId: stremioId ?? undefined,
+                },
+                {
+                    onSources: setSources,
+                    onStreams: (_sourceId, newEntries) => {
+                        setEntries(prev => [
+                            ...prev,
+                            ...newEntries.filter(entry => !prev.some(p => p.link.url === entry.link.url)),
+                        ]);
+                    },
+                    onSubtitles: (newSubtitles) => {
+                        setSubtitles(prev => [
+                            ...prev,
+                            ...newSubtitles.filter(sub => !prev.some(p => p.url === sub.url)),
+                        ]);
+                    },
+                    onStatus: (sourceId, status, error) => {
+                        setStatuses(prev => ({ ...prev, [sourceId]: { status, error } }));
+                    },
+                },
+                controller.signal
+            );
+        };
+        load();
+
+        return () => controller.abort();
+    }, [apiName, data, stremioType, stremioId]);
+
+    const filteredEntries = useMemo(() => {
+        const filter = QUALITY_FILTERS.find(f => f.label === qualityFilter) ?? QUALITY_FILTERS[0];
+        return entries.filter(entry => filter.matches(entry.link.quality));
+    }, [entries, qualityFilter]);
+
+    // Sources come in the user's add-on order, so the earlier source wins a quality tie
+    const bestEntry = useMemo(
+        () => pickBestStream(sources.flatMap(source => filteredEntries.filter(entry => entry.sourceId === source.id))),
+        [sources, filteredEntries]
+    );
+    const isLoading = sources.some(source => statuses[source.id]?.status === 'loading' || !statuses[source.id]);
+
+    const play = (entry: StreamEntry) => {
+        const params = new URLSearchParams({ url: entry.link.url, name: title, type: entry.link.type });
+        const headers = getAllHeaders(entry.link);
+        if (Object.keys(headers).length > 0) params.set('headers', JSON.stringify(headers));
+        if (showTitle) params.set('title', showTitle);
+        if (apiName) params.set('apiName', apiName);
+        if (episodeIndex) params.set('episodeIndex', episodeIndex);
+        if (episodesParam) params.set('episodes', episodesParam);
+        if (subtitles.length > 0) params.set('subtitles', JSON.stringify(subtitles));
+        navigate(`/player?${params.toString()}`);
+    };
+
+    return (
+        <div style={{ padding: '2rem', maxWidth: '1200px', margin: '0 auto' }}>
+            <button
+                onClick={() => navigate(-1)}
+                style={{
+                    marginBottom: '1.5rem',
+                    padding: '0.5rem 1rem',
+                    backgroundColor: '#6c757d',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                }}
+            >
+                ← Back
+            </button>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '1rem' }}>
+                <h1 style={{ margin: 0, fontSize: '2rem', flex: 1 }}>{title}</h1>
+                <button
+                    onClick={() => bestEntry && play(bestEntry)}
+                    disabled={!bestEntry}
+                    title={bestEntry ? `${bestEntry.link.name} (${getQualityString(bestEntry.link.quality) || 'Unknown quality'})` : 'No playable stream yet'}
+                    style={{
+                        padding: '0.75rem 1.5rem',
+                        backgroundColor: bestEntry ? '#007bff' : '#ccc',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '8px',
+                        cursor: bestEntry ? 'pointer' : 'not-allowed',
+                        fontWeight: '600',
+                    }}
+                >
+                    ▶ Play Best
+                </button>
+            </div>
+
+            {/* Quality filter */}
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+                {QUALITY_FILTERS.map(filter => {
+                    const count = entries.filter(entry => filter.matches(entry.link.quality)).length;
+                    const active = qualityFilter === filter.label;
+                    return (
+                        <button
+                            key={filter.label}
+                            onClick={() => setQualityFilter(filter.label)}
+                            style={{
+                                padding: '0.35rem 0.9rem',
+                                borderRadius: '16px',
+                                border: active ? '1px solid #667eea' : '1px solid rgba(255,255,255,0.2)',
+                                backgroundColor: active ? 'rgba(102, 126, 234, 0.3)' : 'transparent',
+                                color: 'white',
+                                fontSize: '0.85rem',
+                            }}
+                        >
+                            {filter.label} ({count})
+                        </button>
+                    );
+                })}
+            </div>
+
+            {sources.length === 0 && !isLoading && (
+                <div style={{ textAlign: 'center', padding: '2rem', color: '#666' }}>
+                    No sources available for this title
+                </div>
+            )}
+
+            {sources.map(source => {
+                const sourceStatus = statuses[source.id];
+                const sourceEntries = filteredEntries.filter(entry => entry.sourceId === source.id);
+                return (
+                    <section key={source.id} style={{ marginBottom: '2rem' }}>
+                        <h2 style={{ fontSize: '1.2rem', marginBottom: '0.75rem', display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+                            {source.name}
+                            <span style={{ fontSize: '0.8rem', color: '#999', fontWeight: 400 }}>
+                                {source.kind === 'stremio' ? 'Stremio' : 'Provider'}
+                                {' • '}
+                                {!sourceStatus || sourceStatus.status === 'loading'
+                                    ? 'Loading...'
+                                    : sourceStatus.status === 'error'
+                                        ? 'Failed'
+                                        : `${sourceEntries.length} stream${sourceEntries.length !== 1 ? 's' : ''}`}
+                            </span>
+                        </h2>
+                        {sourceStatus?.status === 'error' && (
+                            <div style={{ padding: '0.75rem', backgroundColor: '#fee', color: '#c00', borderRadius: '8px', marginBottom: '0.5rem' }}>
+                                {sourceStatus.error}
+                            </div>
+                        )}
+                        {sourceEntries.map((entry, index) => {
+                            const playable = isPlayableLink(entry.link);
+                            const quality = getQualityString(entry.link.quality);
+                            return (
+                                <button
+                                    key={`${entry.link.url}-${index}`}
+                                    onClick={() => playable && play(entry)}
+                                    disabled={!playable}
+                                    title={playable ? entry.link.url : `${entry.link.type} links are not supported yet`}
+                                    style={{
+                                        width: '100%',
+                                        display: 'flex',
+                                        gap: '0.75rem',
+                                        alignItems: 'center',
+                                        padding: '0.75rem',
+                                        marginBottom: '0.5rem',
+                                        backgroundColor: 'rgba(255,255,255,0.05)',
+                                        color: playable ? 'white' : 'rgba(255,255,255,0.4)',
+                                        border: entry === bestEntry ? '1px solid #667eea' : '1px solid rgba(255,255,255,0.1)',
+                                        borderRadius: '8px',
+                                        cursor: playable ? 'pointer' : 'not-allowed',
+                                        textAlign: 'left',
+                                    }}
+                                >
+                                    {quality && (
+                                        <span style={{
+                                            padding: '0.15rem 0.5rem',
+                                            backgroundColor: '#007bff',
+                                            color: 'white',
+                                            borderRadius: '4px',
+                                            fontSize: '0.8rem',
+                                            fontWeight: '600',
+                                        }}>
+                                            {quality}
+                                        </span>
+                                    )}
+                                    {entry.size !== undefined && (
+                                        <span style={{
+                                            padding: '0.15rem 0.5rem',
+                                            backgroundColor: 'rgba(102, 126, 234, 0.3)',
+                                            borderRadius: '4px',
+                                            fontSize: '0.8rem',
+                                        }}>
+                                            {formatSize(entry.size)}
+                                        </span>
+                                    )}
+                                    <span style={{ flex: 1 }}>{entry.link.name}</span>
+                                    <span style={{ fontSize: '0.8rem', color: '#999' }}>{entry.link.type}</span>
+                                </button>
+                            );
+                        })}
+                    </section>
+                );
+            })}
+
+            {subtitles.length > 0 && (
+                <div style={{ fontSize: '0.85rem', color: '#999' }}>
+                    {subtitles.length} subtitle{subtitles.length !== 1 ? 's' : ''} available
+                </div>
+            )}
+        </div>
+    );
+};
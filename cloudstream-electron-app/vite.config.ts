@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -8,4 +9,7 @@ export default defineConfig({
   server: {
     port: 3001,
   },
+  test: {
+    include: ['core/**/*.test.ts', 'src/**/*.test.{ts,tsx}', 'electron/**/*.test.ts'],
+  },
 })